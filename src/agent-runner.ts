@@ -0,0 +1,50 @@
+import path from "node:path";
+import { ClaudeCliRunner } from "./claude.js";
+import { FakeAgentRunner } from "./fake-agent.js";
+import { Sandbox } from "./sandbox.js";
+import type { ClaudeResult, ClaudeStreamEvent, RepoConfig } from "./types.js";
+
+export interface AgentRunOptions {
+  prompt: string;
+  cwd: string;
+  /** 継続するセッションのID（指定すると前回までの会話を引き継ぐ） */
+  resumeSessionId?: string;
+  /** 新規セッションのIDを事前に指定する（中断時に再開できるよう保存しておくため） */
+  sessionId?: string;
+  allowedTools?: string[];
+  /** 最大ターン数 */
+  maxTurns?: number;
+  /** 中断すると実行中のエージェントを停止し、実行はエラーになる */
+  abortSignal?: AbortSignal;
+  /** 指定すると、実行中の出力を逐次イベントとして通知する */
+  onEvent?: (event: ClaudeStreamEvent) => void;
+}
+
+/**
+ * コーディングエージェントの実行方法（リポジトリごとに設定の agent.runner で選ぶ）。
+ * 実行・再開・キャンセル・途中経過の通知は、いずれも run のオプションで指定する。
+ * - 再開: resumeSessionId（見つからなければ SessionNotFoundError）
+ * - キャンセル: abortSignal（タスクのキャンセル・シャットダウン・予算の上限で停止する）
+ * - 途中経過: onEvent（予算の見積もりと進捗コメントの更新に使う）
+ * 呼び出し側は1回の実行ごとに結果を待つだけなので、実行中のハンドルを返す別の操作は設けない。
+ * 結果は Claude Code CLI の形式（ClaudeResult）にそろえて返す。
+ */
+export interface AgentRunner {
+  /** ログに出す実行方法の名前 */
+  readonly name: string;
+  run(options: AgentRunOptions): Promise<ClaudeResult>;
+}
+
+/**
+ * リポジトリの設定に応じた AgentRunner を生成。
+ * Claude Code CLI は sandbox の設定で隔離して実行する（偽のエージェントはプロセス内で動くため隔離しない）。
+ */
+export function createAgentRunner(repo: RepoConfig): AgentRunner {
+  const { agent } = repo;
+  switch (agent.runner) {
+    case "claude":
+      return new ClaudeCliRunner(new Sandbox(repo));
+    case "fake":
+      return new FakeAgentRunner(path.resolve(agent.script!));
+  }
+}
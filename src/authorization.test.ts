@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Authorizer, type AuthorizerGitHub } from "./authorization.js";
+import { parseConfig } from "./config.js";
+import type {
+  AuthorizationPolicy,
+  PermissionLevel,
+  RepoConfig,
+  TrackedIssue,
+} from "./types.js";
+
+interface FakeGitHubOptions {
+  permissions?: Record<string, PermissionLevel>;
+  /** "org/team-slug" → メンバー */
+  teams?: Record<string, string[]>;
+  self?: string;
+  labelActor?: string;
+}
+
+/** 照会に答え、投稿・ラベルの削除と照会の回数を記録する GitHubClient */
+function fakeGitHub(options: FakeGitHubOptions = {}) {
+  const calls = { permission: 0 };
+  const comments: Array<{ issueNumber: number; body: string }> = [];
+  const removedLabels: Array<{ issueNumber: number; label: string }> = [];
+
+  const github: AuthorizerGitHub = {
+    getPermissionLevel: async (user) => {
+      calls.permission++;
+      return options.permissions?.[user];
+    },
+    isTeamMember: async (team, user) =>
+      options.teams?.[team]?.includes(user) ?? false,
+    getAuthenticatedLogin: async () => options.self,
+    getLabelActor: async () => options.labelActor,
+    postComment: async (issueNumber, body) =>
+      comments.push({ issueNumber, body }),
+    removeLabel: async (issueNumber, label) => {
+      removedLabels.push({ issueNumber, label });
+    },
+  };
+
+  return { github, calls, comments, removedLabels };
+}
+
+function repoConfig(policy: Partial<AuthorizationPolicy> = {}): RepoConfig {
+  return parseConfig({
+    github: { token: "token" },
+    repositories: [{ repo: "owner/repo", authorization: policy }],
+  }).repositories[0]!;
+}
+
+/** trigger ラベルの付いた Issue */
+function issue(labeledBy?: string): TrackedIssue {
+  return {
+    number: 5,
+    title: "Issue",
+    body: "",
+    labels: ["auto-implement"],
+    labeledBy,
+  };
+}
+
+describe("Authorizer", () => {
+  it("minPermission 以上の権限を持つコラボレーターを許可する", async () => {
+    const { github } = fakeGitHub({
+      permissions: { writer: "write", admin: "admin", reader: "triage" },
+    });
+    const authorizer = new Authorizer(github, repoConfig());
+
+    assert.equal(await authorizer.authorize("writer", "implement", 1), true);
+    assert.equal(await authorizer.authorize("admin", "implement", 1), true);
+    assert.equal(await authorizer.authorize("reader", "implement", 1), false);
+    assert.equal(await authorizer.authorize("stranger", "implement", 1), false);
+  });
+
+  it("allowedUsers とオーケストレータ自身は権限によらず許可する", async () => {
+    const { github } = fakeGitHub({ self: "orchestrator-bot" });
+    const authorizer = new Authorizer(
+      github,
+      repoConfig({ allowedUsers: ["Carol"] })
+    );
+
+    assert.equal(await authorizer.authorize("carol", "command", 1), true);
+    assert.equal(
+      await authorizer.authorize("Orchestrator-Bot", "implement", 1),
+      true
+    );
+  });
+
+  it("allowedTeams のメンバーを許可する", async () => {
+    const { github } = fakeGitHub({
+      permissions: { dave: "read" },
+      teams: { "org/devs": ["dave"] },
+    });
+    const authorizer = new Authorizer(
+      github,
+      repoConfig({ allowedTeams: ["org/devs"] })
+    );
+
+    assert.equal(await authorizer.authorize("dave", "review", 1), true);
+    assert.equal(await authorizer.authorize("erin", "review", 1), false);
+  });
+
+  it("権限の照会結果をキャッシュする", async () => {
+    const { github, calls } = fakeGitHub({ permissions: { writer: "write" } });
+    const authorizer = new Authorizer(github, repoConfig());
+
+    await authorizer.authorize("writer", "implement", 1);
+    await authorizer.authorize("Writer", "command", 2);
+
+    assert.equal(calls.permission, 1);
+  });
+
+  it("onDenied が comment なら拒否を Issue に知らせる", async () => {
+    const { github, comments } = fakeGitHub();
+    const authorizer = new Authorizer(
+      github,
+      repoConfig({ onDenied: "comment" })
+    );
+
+    await authorizer.authorize("mallory", "approve", 3);
+
+    assert.equal(comments.length, 1);
+    assert.equal(comments[0]!.issueNumber, 3);
+    assert.match(
+      comments[0]!.body,
+      /^@mallory 実装計画の承認を実行する権限がない/
+    );
+  });
+
+  it("onDenied が ignore なら拒否してもコメントしない", async () => {
+    const { github, comments } = fakeGitHub();
+    const authorizer = new Authorizer(github, repoConfig());
+
+    await authorizer.authorize("mallory", "command", 3);
+
+    assert.deepEqual(comments, []);
+  });
+
+  describe("authorizeIssue", () => {
+    it("ラベルを付けた利用者を確認し、拒否したら trigger ラベルを外す", async () => {
+      const { github, removedLabels } = fakeGitHub({ labelActor: "mallory" });
+      const authorizer = new Authorizer(github, repoConfig());
+
+      const allowed = await authorizer.authorizeIssue(issue());
+
+      assert.equal(allowed, false);
+      assert.deepEqual(removedLabels, [
+        { issueNumber: 5, label: "auto-implement" },
+      ]);
+    });
+
+    it("ラベルを付けた利用者が分からなければ拒否する", async () => {
+      const { github, removedLabels } = fakeGitHub();
+      const authorizer = new Authorizer(github, repoConfig());
+
+      const allowed = await authorizer.authorizeIssue(issue());
+
+      assert.equal(allowed, false);
+      assert.equal(removedLabels.length, 1);
+    });
+
+    it("labeledBy が分かっていればその利用者で判定する", async () => {
+      const { github, removedLabels } = fakeGitHub({
+        permissions: { alice: "maintain" },
+        labelActor: "mallory",
+      });
+      const authorizer = new Authorizer(github, repoConfig());
+
+      const allowed = await authorizer.authorizeIssue(issue("alice"));
+
+      assert.equal(allowed, true);
+      assert.deepEqual(removedLabels, []);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { createChildLogger } from "./logger.js";
+import type { GitHubClient } from "./github.js";
+import type {
+  PermissionLevel,
+  RepoConfig,
+  TrackedIssue,
+} from "./types.js";
+
+const log = createChildLogger("authorization");
+
+/** 権限・チームの照会結果を使い回す時間 */
+const CACHE_TTL_MS = 5 * 60_000;
+
+const PERMISSION_RANK: Record<PermissionLevel, number> = {
+  read: 0,
+  triage: 1,
+  write: 2,
+  maintain: 3,
+  admin: 4,
+};
+
+/** 権限を確認するリクエストの種類（ログ・お知らせコメント用） */
+export type AuthorizedAction = "implement" | "review" | "command" | "approve";
+
+const ACTION_NAMES: Record<AuthorizedAction, string> = {
+  implement: "自動実装の依頼",
+  review: "レビューコメントによる修正依頼",
+  command: "コマンド",
+  approve: "実装計画の承認",
+};
+
+/** Authorizer が使う GitHub の操作 */
+export type AuthorizerGitHub = Pick<
+  GitHubClient,
+  | "getPermissionLevel"
+  | "isTeamMember"
+  | "getAuthenticatedLogin"
+  | "getLabelActor"
+  | "postComment"
+  | "removeLabel"
+>;
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * ラベルを付けた利用者・コメントの投稿者がエージェントを動かしてよいかを判定する（リポジトリごとに1つ）。
+ * 許可リストのユーザー・チームのメンバー、または一定以上の権限を持つコラボレーターを許可し、
+ * 判定結果はすべてログに残す。権限・チームの照会結果は一定時間キャッシュする。
+ */
+export class Authorizer {
+  private github: AuthorizerGitHub;
+  private repo: RepoConfig;
+  /** ユーザー名（小文字） → リポジトリ権限 */
+  private permissions: Map<string, CacheEntry<PermissionLevel | undefined>> =
+    new Map();
+  /** "org/team-slug:ユーザー名"（小文字） → メンバーか */
+  private memberships: Map<string, CacheEntry<boolean>> = new Map();
+  /** トークンの持ち主（小文字）。再試行・承認でオーケストレータ自身がラベルを付けることがある */
+  private selfLogin: Promise<string | undefined> | null = null;
+
+  constructor(github: AuthorizerGitHub, repo: RepoConfig) {
+    this.github = github;
+    this.repo = repo;
+  }
+
+  /**
+   * 利用者のリクエストを許可するか判定する。
+   * 拒否した場合、設定に応じて Issue・PR にお知らせのコメントを投稿する。
+   */
+  async authorize(
+    user: string,
+    action: AuthorizedAction,
+    issueNumber: number
+  ): Promise<boolean> {
+    const reason = await this.check(user);
+    const context = {
+      repo: this.repo.fullName,
+      issueNumber,
+      user,
+      action,
+      reason: reason ?? "権限なし",
+    };
+
+    if (reason) {
+      log.info(context, "リクエストを許可");
+      return true;
+    }
+
+    log.warn(context, "権限のない利用者のリクエストを拒否");
+    if (this.repo.authorization.onDenied === "comment") {
+      await this.github
+        .postComment(
+          issueNumber,
+          `@${user} ${ACTION_NAMES[action]}を実行する権限がないため、このリクエストは処理しません。`
+        )
+        .catch((err) => {
+          log.warn({ err, issueNumber }, "拒否のお知らせの投稿に失敗");
+        });
+    }
+    return false;
+  }
+
+  /**
+   * trigger ラベルを付けた利用者の権限を確認する。
+   * 拒否した場合は trigger ラベルを外し、次回のポーリングで同じ判定を繰り返さないようにする。
+   */
+  async authorizeIssue(issue: TrackedIssue): Promise<boolean> {
+    const { trigger } = this.repo.labels;
+    const actor =
+      issue.labeledBy ??
+      (await this.github.getLabelActor(issue.number, trigger));
+
+    let allowed = false;
+    if (actor) {
+      allowed = await this.authorize(actor, "implement", issue.number);
+    } else {
+      log.warn(
+        { repo: this.repo.fullName, issueNumber: issue.number, label: trigger },
+        "ラベルを付けた利用者が分からないため拒否"
+      );
+    }
+
+    if (!allowed) {
+      await this.github.removeLabel(issue.number, trigger);
+    }
+    return allowed;
+  }
+
+  /** トークンの持ち主（オーケストレータ自身）か */
+  async isSelf(user: string): Promise<boolean> {
+    this.selfLogin ??= this.github
+      .getAuthenticatedLogin()
+      .then((l) => l?.toLowerCase());
+    return (await this.selfLogin) === user.toLowerCase();
+  }
+
+  /** 許可する理由（許可しない場合は undefined） */
+  private async check(user: string): Promise<string | undefined> {
+    const policy = this.repo.authorization;
+    const login = user.toLowerCase();
+
+    if (policy.allowedUsers.some((u) => u.toLowerCase() === login)) {
+      return "allowedUsers";
+    }
+
+    if (await this.isSelf(login)) {
+      return "オーケストレータ自身";
+    }
+
+    const permission = await this.permissionOf(login);
+    if (
+      permission !== undefined &&
+      PERMISSION_RANK[permission] >= PERMISSION_RANK[policy.minPermission]
+    ) {
+      return `権限 ${permission}`;
+    }
+
+    for (const team of policy.allowedTeams) {
+      if (await this.isMember(team.toLowerCase(), login)) {
+        return `チーム ${team}`;
+      }
+    }
+    return undefined;
+  }
+
+  private async permissionOf(
+    login: string
+  ): Promise<PermissionLevel | undefined> {
+    return cached(this.permissions, login, () =>
+      this.github.getPermissionLevel(login)
+    );
+  }
+
+  private async isMember(team: string, login: string): Promise<boolean> {
+    return cached(this.memberships, `${team}:${login}`, () =>
+      this.github.isTeamMember(team, login)
+    );
+  }
+}
+
+async function cached<T>(
+  cache: Map<string, CacheEntry<T>>,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+  const value = await load();
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  BudgetExceededError,
+  BudgetTracker,
+  type TaskSpend,
+} from "./budget.js";
+import { parseConfig } from "./config.js";
+import { MemoryStateStore } from "./state-store.js";
+import type { ClaudeResult, ClaudeStreamEvent, Config } from "./types.js";
+
+const SPEND: TaskSpend = { taskId: "owner/repo#1", type: "issue" };
+
+/** 呼び出し側からは中断しない実行の AbortSignal */
+const NOT_ABORTED = new AbortController().signal;
+
+/** 制限時間のない設定に、指定した上限を重ねる */
+function config(budget: Partial<Config["budget"]> = {}): Config {
+  return parseConfig({
+    github: { token: "token" },
+    repositories: [{ repo: "owner/repo" }],
+    budget: { runTimeoutMs: 0, ...budget },
+  });
+}
+
+function result(overrides: Partial<ClaudeResult> = {}): ClaudeResult {
+  return {
+    exitCode: 0,
+    stdout: "",
+    stderr: "",
+    sessionId: "session",
+    resultText: "",
+    isError: false,
+    subtype: "success",
+    costUsd: 0,
+    numTurns: 1,
+    durationMs: 1,
+    ...overrides,
+  };
+}
+
+/** 出力トークン数だけでコストが決まる応答のイベント（sonnet は $15 / 100万トークン） */
+function usage(messageId: string, outputTokens: number): ClaudeStreamEvent {
+  return {
+    type: "usage",
+    messageId,
+    model: "claude-sonnet-4-5",
+    usage: {
+      inputTokens: 0,
+      outputTokens,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+  };
+}
+
+/** 中断されるまで待ち、中断の理由で失敗する実行 */
+function untilAborted(signal: AbortSignal): Promise<ClaudeResult> {
+  return new Promise((_, reject) => {
+    if (signal.aborted) return reject(new Error("aborted"));
+    signal.addEventListener("abort", () => reject(new Error("aborted")), {
+      once: true,
+    });
+  });
+}
+
+async function seedSpend(
+  store: MemoryStateStore,
+  taskId: string,
+  costUsd: number
+): Promise<void> {
+  await store.addSpend(
+    { taskId, costUsd, at: new Date().toISOString() },
+    new Date(0)
+  );
+}
+
+describe("BudgetTracker", () => {
+  it("実行のコストをタスクと日次の合計に記録する", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config(), store);
+
+    await budget.run(SPEND, NOT_ABORTED, async () =>
+      result({ costUsd: 0.25 })
+    );
+    await budget.run(SPEND, NOT_ABORTED, async () =>
+      result({ costUsd: 0.5 })
+    );
+
+    assert.equal(store.getTaskSpend(SPEND.taskId), 0.75);
+    assert.equal(budget.dailySpendUsd, 0.75);
+  });
+
+  it("日次予算を使い切っていれば実行しない", async () => {
+    const store = new MemoryStateStore();
+    await seedSpend(store, "owner/repo#2", 5);
+    const budget = new BudgetTracker(config({ dailyBudgetUsd: 5 }), store);
+    let executed = false;
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, async () => {
+        executed = true;
+        return result();
+      }),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "daily-budget"
+    );
+    assert.equal(executed, false);
+    assert.equal(budget.isDailyBudgetExhausted, true);
+  });
+
+  it("タスクの累計コストが上限に達していれば実行しない", async () => {
+    const store = new MemoryStateStore();
+    await seedSpend(store, SPEND.taskId, 2);
+    const budget = new BudgetTracker(config({ maxTaskCostUsd: 2 }), store);
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, async () => result()),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "task-cost"
+    );
+  });
+
+  it("実行中に見積もりがタスクの上限を超えたら中断し、使った分を記録する", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config({ maxTaskCostUsd: 1 }), store);
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, (signal, onEvent) => {
+        onEvent(usage("m1", 40_000)); // $0.60
+        onEvent(usage("m2", 40_000)); // 累計 $1.20 で上限を超える
+        return untilAborted(signal);
+      }),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "task-cost"
+    );
+    assert.equal(store.getTaskSpend(SPEND.taskId).toFixed(2), "1.20");
+  });
+
+  it("実行中に見積もりが日次予算を超えたら中断する", async () => {
+    const store = new MemoryStateStore();
+    await seedSpend(store, "owner/repo#2", 0.9);
+    const budget = new BudgetTracker(config({ dailyBudgetUsd: 1 }), store);
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, (signal, onEvent) => {
+        onEvent(usage("m1", 10_000)); // $0.15
+        return untilAborted(signal);
+      }),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "daily-budget"
+    );
+  });
+
+  it("同じ応答のトークン数は後の値で置き換えて見積もる", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config({ maxTaskCostUsd: 1 }), store);
+
+    await budget.run(SPEND, NOT_ABORTED, async (_, onEvent) => {
+      onEvent(usage("m1", 40_000));
+      onEvent(usage("m1", 50_000)); // $0.75
+      return result({ costUsd: 0 });
+    });
+    assert.equal(store.getTaskSpend(SPEND.taskId).toFixed(2), "0.75");
+  });
+
+  it("呼び出し側の中断はそのまま伝える", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config({ maxTaskCostUsd: 1 }), store);
+    const controller = new AbortController();
+
+    await assert.rejects(
+      budget.run(SPEND, controller.signal, (signal) => {
+        controller.abort();
+        return untilAborted(signal);
+      }),
+      { message: "aborted" }
+    );
+  });
+
+  it("制限時間を超えたら timeout として失敗する", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config({ runTimeoutMs: 10 }), store);
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, untilAborted),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "timeout"
+    );
+  });
+
+  it("最大ターン数で終わった実行は max-turns として失敗する", async () => {
+    const store = new MemoryStateStore();
+    const budget = new BudgetTracker(config({ maxTurns: 5 }), store);
+
+    await assert.rejects(
+      budget.run(SPEND, NOT_ABORTED, async () =>
+        result({ subtype: "error_max_turns", costUsd: 0.1 })
+      ),
+      (err: unknown) =>
+        err instanceof BudgetExceededError && err.limit === "max-turns"
+    );
+    assert.equal(store.getTaskSpend(SPEND.taskId), 0.1);
+  });
+
+  it("resetTask でタスクの累計コストを消し、日次の合計には残す", async () => {
+    const store = new MemoryStateStore();
+    await seedSpend(store, SPEND.taskId, 2);
+    const budget = new BudgetTracker(config({ maxTaskCostUsd: 2 }), store);
+
+    await budget.resetTask(SPEND.taskId);
+
+    assert.equal(store.getTaskSpend(SPEND.taskId), 0);
+    assert.equal(budget.dailySpendUsd, 2);
+    await budget.run(SPEND, NOT_ABORTED, async () =>
+      result()
+    );
+  });
+});
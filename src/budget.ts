@@ -0,0 +1,274 @@
+import { createChildLogger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import type { StateStore } from "./state-store.js";
+import type {
+  ClaudeResult,
+  ClaudeStreamEvent,
+  ClaudeUsage,
+  Config,
+  TaskType,
+} from "./types.js";
+
+const log = createChildLogger("budget");
+
+/** 日次予算を集計する期間 */
+const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** 実行中のコストの見積もりに使う、モデルごとの単価（USD / 100万トークン） */
+const MODEL_PRICES: ReadonlyArray<{
+  pattern: RegExp;
+  input: number;
+  output: number;
+}> = [
+  { pattern: /opus-4-[5-9]/, input: 5, output: 25 },
+  { pattern: /opus/, input: 15, output: 75 },
+  { pattern: /sonnet/, input: 3, output: 15 },
+  { pattern: /haiku-4/, input: 1, output: 5 },
+  { pattern: /haiku/, input: 0.8, output: 4 },
+];
+
+/** モデルが分からない場合の単価（上限の判定が甘くならないよう最も高いものにする） */
+const FALLBACK_PRICE = { input: 15, output: 75 };
+
+export type BudgetLimit =
+  | "timeout"
+  | "max-turns"
+  | "task-cost"
+  | "daily-budget";
+
+/** 実行時間・ターン数・コストの上限に達したことを表すエラー */
+export class BudgetExceededError extends Error {
+  readonly limit: BudgetLimit;
+
+  constructor(limit: BudgetLimit, message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * コストを記録する単位のタスク。
+ * 累計コストは StateStore にタスクIDごとに保存し、中断・再開・質問への回答をまたいで引き継ぐ。
+ */
+export interface TaskSpend {
+  taskId: string;
+  /** メトリクスでコストを集計するタスクの種類 */
+  type: TaskType;
+}
+
+/**
+ * Claude Code の実行に対する時間・ターン数・コストの上限を管理する。
+ * 日次のコストとタスクごとの累計コストは StateStore に記録するため再起動後も引き継がれる。
+ */
+export class BudgetTracker {
+  private config: Config;
+  private store: StateStore;
+
+  constructor(config: Config, store: StateStore) {
+    this.config = config;
+    this.store = store;
+  }
+
+  /** 直近24時間のコスト合計 */
+  get dailySpendUsd(): number {
+    return this.store
+      .getSpendSince(new Date(Date.now() - DAILY_WINDOW_MS))
+      .reduce((sum, e) => sum + e.costUsd, 0);
+  }
+
+  /** 日次予算を使い切っているか */
+  get isDailyBudgetExhausted(): boolean {
+    const { dailyBudgetUsd } = this.config.budget;
+    return dailyBudgetUsd > 0 && this.dailySpendUsd >= dailyBudgetUsd;
+  }
+
+  /** タスクの累計コスト */
+  private taskSpendUsd(spend: TaskSpend): number {
+    return this.store.getTaskSpend(spend.taskId);
+  }
+
+  /** タスクの累計コストを消す（タスクが完了したとき・利用者がやり直しを指示したとき） */
+  async resetTask(taskId: string): Promise<void> {
+    await this.store.resetTaskSpend(taskId);
+  }
+
+  /**
+   * 上限の範囲内で Claude Code を実行する。
+   * 実行中はストリームのイベントからコストを見積もり、タスク・日次の上限を超えた時点で、
+   * 制限時間と同じく実行に渡す AbortSignal で中断する。
+   * 失敗・中断した実行も、それまでに使ったコストを記録する。
+   */
+  async run(
+    spend: TaskSpend,
+    abortSignal: AbortSignal,
+    execute: (
+      signal: AbortSignal,
+      onEvent: (event: ClaudeStreamEvent) => void
+    ) => Promise<ClaudeResult>
+  ): Promise<ClaudeResult> {
+    const { runTimeoutMs, maxTaskCostUsd, dailyBudgetUsd } = this.config.budget;
+
+    if (this.isDailyBudgetExhausted) {
+      throw new BudgetExceededError(
+        "daily-budget",
+        `直近24時間のコストが日次予算 ${formatUsd(dailyBudgetUsd)} に達しました`
+      );
+    }
+    const taskSpendUsd = this.taskSpendUsd(spend);
+    if (maxTaskCostUsd > 0 && taskSpendUsd >= maxTaskCostUsd) {
+      throw new BudgetExceededError(
+        "task-cost",
+        `タスクのコストが上限 ${formatUsd(maxTaskCostUsd)} に達しました`
+      );
+    }
+
+    const dailySpendUsd = this.dailySpendUsd;
+    const cost = new RunCost();
+    const limiter = new AbortController();
+    const timeoutSignal =
+      runTimeoutMs > 0 ? AbortSignal.timeout(runTimeoutMs) : undefined;
+    const signal = AbortSignal.any([
+      abortSignal,
+      limiter.signal,
+      ...(timeoutSignal ? [timeoutSignal] : []),
+    ]);
+
+    const onEvent = (event: ClaudeStreamEvent) => {
+      cost.observe(event);
+      if (limiter.signal.aborted) return;
+
+      let exceeded: BudgetExceededError | undefined;
+      if (maxTaskCostUsd > 0 && taskSpendUsd + cost.costUsd > maxTaskCostUsd) {
+        exceeded = new BudgetExceededError(
+          "task-cost",
+          `タスクのコスト（見積もり ${formatUsd(
+            taskSpendUsd + cost.costUsd
+          )}）が上限 ${formatUsd(maxTaskCostUsd)} を超えたため実行を中断しました`
+        );
+      } else if (
+        dailyBudgetUsd > 0 &&
+        dailySpendUsd + cost.costUsd > dailyBudgetUsd
+      ) {
+        exceeded = new BudgetExceededError(
+          "daily-budget",
+          `直近24時間のコストが日次予算 ${formatUsd(
+            dailyBudgetUsd
+          )} を超えたため実行を中断しました`
+        );
+      }
+      if (exceeded) {
+        log.warn(
+          { taskId: spend.taskId, limit: exceeded.limit, costUsd: cost.costUsd },
+          "上限を超えたため Claude Code の実行を中断"
+        );
+        limiter.abort(exceeded);
+      }
+    };
+
+    let result: ClaudeResult;
+    try {
+      result = await execute(signal, onEvent);
+    } catch (err) {
+      if (cost.costUsd > 0) await this.record(spend, cost.costUsd);
+
+      if (limiter.signal.aborted && !abortSignal.aborted) {
+        throw limiter.signal.reason;
+      }
+      if (timeoutSignal?.aborted && !abortSignal.aborted) {
+        const minutes = Math.round(runTimeoutMs / 60_000);
+        throw new BudgetExceededError(
+          "timeout",
+          `Claude Code の実行が制限時間 ${minutes} 分を超えました`
+        );
+      }
+      throw err;
+    }
+
+    const total = await this.record(spend, result.costUsd || cost.costUsd);
+
+    if (result.subtype === "error_max_turns") {
+      throw new BudgetExceededError(
+        "max-turns",
+        `Claude Code の実行が最大ターン数 ${this.config.budget.maxTurns} に達しました`
+      );
+    }
+    if (maxTaskCostUsd > 0 && total > maxTaskCostUsd) {
+      throw new BudgetExceededError(
+        "task-cost",
+        `タスクのコスト ${formatUsd(total)} が上限 ${formatUsd(
+          maxTaskCostUsd
+        )} を超えました`
+      );
+    }
+
+    return result;
+  }
+
+  /** 1回の実行のコストを記録し、タスクの累計コストを返す */
+  private async record(spend: TaskSpend, costUsd: number): Promise<number> {
+    metrics.agentCost.inc({ type: spend.type }, costUsd);
+    const now = new Date();
+    await this.store.addSpend(
+      { taskId: spend.taskId, costUsd, at: now.toISOString() },
+      new Date(now.getTime() - DAILY_WINDOW_MS)
+    );
+    const taskCostUsd = this.taskSpendUsd(spend);
+
+    log.info(
+      {
+        taskId: spend.taskId,
+        costUsd,
+        taskCostUsd,
+        dailySpendUsd: this.dailySpendUsd,
+      },
+      "Claude Code のコストを記録"
+    );
+    return taskCostUsd;
+  }
+}
+
+/**
+ * 1回の実行のコスト。
+ * 結果のイベントに CLI が集計したコストがあればそれを、なければ応答ごとのトークン数からの見積もりを使う。
+ */
+class RunCost {
+  /** 応答のID → 見積もったコスト（同じ応答は後の値で置き換える） */
+  private responses: Map<string, number> = new Map();
+  private reportedUsd: number | undefined;
+
+  observe(event: ClaudeStreamEvent): void {
+    if (event.type === "usage") {
+      this.responses.set(
+        event.messageId ?? `#${this.responses.size}`,
+        estimateCostUsd(event.model, event.usage)
+      );
+    } else if (event.type === "result" && event.costUsd !== undefined) {
+      this.reportedUsd = event.costUsd;
+    }
+  }
+
+  get costUsd(): number {
+    if (this.reportedUsd !== undefined) return this.reportedUsd;
+    let sum = 0;
+    for (const usd of this.responses.values()) sum += usd;
+    return sum;
+  }
+}
+
+/** トークン数からコストを見積もる（キャッシュの書き込みは入力の1.25倍、読み込みは0.1倍） */
+function estimateCostUsd(model: string | undefined, usage: ClaudeUsage): number {
+  const price =
+    MODEL_PRICES.find((p) => model && p.pattern.test(model)) ?? FALLBACK_PRICE;
+  return (
+    (usage.inputTokens * price.input +
+      usage.cacheCreationInputTokens * price.input * 1.25 +
+      usage.cacheReadInputTokens * price.input * 0.1 +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
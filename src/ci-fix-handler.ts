@@ -0,0 +1,417 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import { assertClaudeSucceeded } from "./claude.js";
+import type { AgentRunner } from "./agent-runner.js";
+import { GitHubClient } from "./github.js";
+import {
+  BudgetTracker,
+  BudgetExceededError,
+  type TaskSpend,
+} from "./budget.js";
+import { PromptBuilder } from "./prompts.js";
+import { PushGuard } from "./push-guard.js";
+import { gitRemoteOptions } from "./repository.js";
+import { Sandbox } from "./sandbox.js";
+import { Verifier, formatFailures } from "./verifier.js";
+import { isCancelled, isInterrupted } from "./worker-pool.js";
+import type { StateStore } from "./state-store.js";
+import type {
+  CiCheck,
+  CiFailure,
+  ClaudeResult,
+  Config,
+  RepoConfig,
+} from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("ci-fix-handler");
+
+/** プロンプトに含めるジョブのログの行数（末尾から。それより前はエラー行だけ残す） */
+const MAX_LOG_LINES = 200;
+
+/** GitHub Actions のログの各行の先頭のタイムスタンプ */
+const LOG_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z /;
+
+/** 端末の色付けのエスケープシーケンス */
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * CI が失敗した PR を修正する（リポジトリごとに1つ）。
+ * 失敗したジョブのログをプロンプトに含め、PR のセッションを継続して Claude Code に修正させる。
+ * 修正を検証してから push し、CI の再実行は GitHub に任せる（結果は CiMonitor が次のポーリングで確認する）。
+ */
+export class CiFixHandler {
+  private github: GitHubClient;
+  private config: Config;
+  private repo: RepoConfig;
+  private repoRoot: string;
+  /** PR番号 → セッションID（レビュー対応と共有し、PR の経緯を引き継ぐ） */
+  private store: StateStore;
+  private budget: BudgetTracker;
+  private verifier: Verifier;
+  private prompts: PromptBuilder;
+  private guard: PushGuard;
+  private sandbox: Sandbox;
+  private agent: AgentRunner;
+
+  constructor(
+    github: GitHubClient,
+    config: Config,
+    repo: RepoConfig,
+    store: StateStore,
+    budget: BudgetTracker,
+    verifier: Verifier,
+    agent: AgentRunner
+  ) {
+    this.github = github;
+    this.config = config;
+    this.repo = repo;
+    this.repoRoot = repo.localPath;
+    this.store = store;
+    this.budget = budget;
+    this.verifier = verifier;
+    this.prompts = new PromptBuilder(github, repo);
+    this.guard = new PushGuard(repo);
+    this.sandbox = new Sandbox(repo);
+    this.agent = agent;
+  }
+
+  /**
+   * headSha で失敗したチェックを修正する。
+   * attempt はこの PR で続けて自動修正を試みた回数（今回を含む）。
+   */
+  async handle(
+    prNumber: number,
+    headSha: string,
+    checks: CiCheck[],
+    attempt: number,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    log.info(
+      {
+        repo: this.repo.fullName,
+        prNumber,
+        headSha,
+        checks: checks.map((c) => c.name),
+        attempt,
+      },
+      "CI の失敗の修正を開始"
+    );
+
+    const branchName = await this.github.getPRBranch(prNumber);
+    const worktreePath = path.join(
+      this.repoRoot,
+      ".worktrees",
+      `ci-pr-${prNumber}`
+    );
+    const progress = `（自動修正 ${attempt}/${this.repo.ciFixMaxAttempts} 回目）`;
+    const names = checks.map((c) => `\`${c.name}\``).join(", ");
+
+    try {
+      await this.createWorktree(worktreePath, branchName);
+      const { stdout: head } = await this.git(worktreePath, [
+        "rev-parse",
+        "HEAD",
+      ]);
+      // 失敗を検知した後に push されていれば、そのコミットの CI の結果を待つ
+      if (head.trim() !== headSha) {
+        log.info(
+          { repo: this.repo.fullName, prNumber, headSha, head: head.trim() },
+          "PR のブランチが更新されたため修正を見送る"
+        );
+        return;
+      }
+
+      const failures = await this.collectFailures(checks);
+      const spend: TaskSpend = {
+        taskId: `${this.repo.fullName}#ci-fix-${prNumber}`,
+        type: "ci-fix",
+      };
+      const prompt = await this.prompts.buildCiFixPrompt(
+        prNumber,
+        branchName,
+        failures,
+        worktreePath
+      );
+      const result = await this.runAgent(
+        prNumber,
+        prompt,
+        worktreePath,
+        spend,
+        abortSignal
+      );
+
+      const { stdout: fixed } = await this.git(worktreePath, [
+        "rev-list",
+        "--count",
+        `${headSha}..HEAD`,
+      ]);
+      if (Number(fixed.trim()) === 0) {
+        throw new Error(
+          `修正のコミットがありません${result.resultText ? `\n\n${result.resultText}` : ""}`
+        );
+      }
+
+      await this.verifyAndRepair(
+        prNumber,
+        headSha,
+        worktreePath,
+        spend,
+        abortSignal
+      );
+
+      // 修正で追加したコミットを検査してから push する
+      await this.guard.check(worktreePath, headSha, async () =>
+        (await this.github.getIssue(prNumber)).labels.includes(
+          this.repo.labels.allowProtected
+        )
+      );
+
+      await this.remoteGit(worktreePath, ["push", "origin", branchName]);
+      await this.github.postComment(
+        prNumber,
+        `🔧 CI の失敗（${names}）を修正しました${progress}。CI の結果を確認します。`
+      );
+      await this.budget.resetTask(spend.taskId);
+      log.info(
+        { repo: this.repo.fullName, prNumber, attempt },
+        "CI の失敗の修正を push"
+      );
+    } catch (err) {
+      // シャットダウンによる中断は失敗として報告しない
+      if (isInterrupted(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "CI の失敗の修正をシャットダウンにより中断"
+        );
+        return;
+      }
+
+      if (isCancelled(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "CI の失敗の修正をキャンセル"
+        );
+        await this.github
+          .postComment(
+            prNumber,
+            "🛑 `/auto cancel` により CI の失敗の修正を中止しました。"
+          )
+          .catch(() => {});
+        return;
+      }
+
+      log.error(
+        { err, repo: this.repo.fullName, prNumber },
+        "CI の失敗の修正に失敗"
+      );
+      const budgetExceeded = err instanceof BudgetExceededError;
+      if (budgetExceeded) {
+        await this.github
+          .addLabel(prNumber, this.repo.labels.budgetExceeded)
+          .catch(() => {});
+      }
+      await this.github
+        .postComment(
+          prNumber,
+          `${
+            budgetExceeded
+              ? "⏱️ 予算・時間の上限に達したため CI の失敗の修正を中止しました。"
+              : `❌ CI の失敗（${names}）を修正できませんでした${progress}。`
+          }\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
+        )
+        .catch(() => {});
+    } finally {
+      await this.removeWorktree(worktreePath).catch((err) => {
+        log.warn({ err, worktreePath }, "worktreeの削除に失敗");
+      });
+    }
+  }
+
+  /** 失敗したチェックごとにログを取得する（取得できなければチェックの出力で代用する） */
+  private async collectFailures(checks: CiCheck[]): Promise<CiFailure[]> {
+    const failures: CiFailure[] = [];
+    for (const check of checks) {
+      let output = check.summary ?? "";
+      if (check.jobId !== undefined) {
+        try {
+          output = excerptLog(await this.github.fetchJobLog(check.jobId));
+        } catch (err) {
+          log.warn(
+            { err, repo: this.repo.fullName, check: check.name },
+            "ジョブのログの取得に失敗。チェックの出力で代用する"
+          );
+        }
+      }
+      failures.push({ check, log: output });
+    }
+    return failures;
+  }
+
+  /**
+   * worktree を検証し、失敗したらエラー出力を渡して同じセッションで修正させる。
+   * 修正回数の上限を超えても通らなければ、最後の検証ログを含むエラーを投げる。
+   */
+  private async verifyAndRepair(
+    prNumber: number,
+    headSha: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const { maxRepairAttempts } = this.config.verification;
+
+    for (let attempt = 0; ; attempt++) {
+      const verification = await this.verifier.verify(
+        worktreePath,
+        headSha,
+        abortSignal,
+        this.sandbox
+      );
+      if (verification.passed) return;
+
+      const failures = formatFailures(verification.failures);
+      if (attempt >= maxRepairAttempts) {
+        throw new Error(
+          `修正後の検証に失敗しました（修正 ${attempt} 回）\n\n${failures}`
+        );
+      }
+
+      log.info(
+        { repo: this.repo.fullName, prNumber, attempt: attempt + 1 },
+        "CI の修正後の検証の失敗を Claude に修正させる"
+      );
+      await this.runAgent(
+        prNumber,
+        this.buildRepairPrompt(failures),
+        worktreePath,
+        spend,
+        abortSignal
+      );
+    }
+  }
+
+  /** PR のセッションを継続して Claude Code を実行し、セッションIDを保存する */
+  private async runAgent(
+    prNumber: number,
+    prompt: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<ClaudeResult> {
+    const result = await this.budget.run(
+      spend,
+      abortSignal,
+      (signal, onEvent) =>
+        this.agent.run({
+          prompt,
+          cwd: worktreePath,
+          resumeSessionId: this.store.getSession(this.repo.fullName, prNumber),
+          allowedTools: this.config.claude.allowedTools.length > 0
+            ? this.config.claude.allowedTools
+            : undefined,
+          maxTurns: this.config.budget.maxTurns || undefined,
+          abortSignal: signal,
+          onEvent,
+        })
+    );
+    await this.store.setSession(this.repo.fullName, prNumber, result.sessionId);
+    assertClaudeSucceeded(result);
+    return result;
+  }
+
+  /** 検証の失敗を修正させる際のプロンプトを構築 */
+  private buildRepairPrompt(failures: string): string {
+    return `CI の失敗を修正した後の検証に失敗しました。以下の出力を確認して問題を修正してください。
+
+\`\`\`
+${failures}
+\`\`\`
+
+修正が終わったら変更を git commit してください（git push は不要）。
+未コミットの変更が残っている場合も検証失敗として扱われます。`;
+  }
+
+  private git(
+    cwd: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync("git", args, { cwd });
+  }
+
+  /** GitHub に接続する git コマンド（fetch / push）を認証ヘッダ付きで実行 */
+  private remoteGit(
+    cwd: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync(
+      "git",
+      args,
+      gitRemoteOptions(this.config.github, cwd)
+    );
+  }
+
+  /** git worktree を作成（既存ブランチ用） */
+  private async createWorktree(
+    worktreePath: string,
+    branchName: string
+  ): Promise<void> {
+    log.debug({ worktreePath, branchName }, "worktreeを作成中");
+
+    await this.remoteGit(this.repoRoot, [
+      "fetch",
+      "origin",
+      branchName,
+      this.repo.baseBranch,
+    ]);
+    await this.git(this.repoRoot, [
+      "worktree",
+      "add",
+      worktreePath,
+      `origin/${branchName}`,
+    ]);
+    // ローカルブランチとして追跡
+    await this.git(worktreePath, [
+      "checkout",
+      "-B",
+      branchName,
+      `origin/${branchName}`,
+    ]);
+  }
+
+  /** git worktree を削除 */
+  private async removeWorktree(worktreePath: string): Promise<void> {
+    log.debug({ worktreePath }, "worktreeを削除中");
+    await this.git(this.repoRoot, [
+      "worktree",
+      "remove",
+      worktreePath,
+      "--force",
+    ]);
+  }
+}
+
+/**
+ * ジョブのログからプロンプトに含める部分を抜き出す。
+ * タイムスタンプと色付けを除き、末尾の MAX_LOG_LINES 行と、それより前のエラー行（`##[error]`）を残す。
+ */
+export function excerptLog(raw: string): string {
+  const lines = raw
+    .replace(ANSI_PATTERN, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(LOG_TIMESTAMP_PATTERN, ""));
+  while (lines.length > 0 && lines[lines.length - 1]!.trim() === "") {
+    lines.pop();
+  }
+  if (lines.length <= MAX_LOG_LINES) return lines.join("\n");
+
+  const omitted = lines.slice(0, -MAX_LOG_LINES);
+  const errors = omitted.filter((line) => line.includes("##[error]"));
+  return [
+    ...errors,
+    `…（${omitted.length}行省略）`,
+    ...lines.slice(-MAX_LOG_LINES),
+  ].join("\n");
+}
@@ -0,0 +1,126 @@
+import { createChildLogger } from "./logger.js";
+import type { GitHubClient } from "./github.js";
+import type { Dispatcher } from "./dispatcher.js";
+import type { StateStore } from "./state-store.js";
+import type { CiCheck, PullRequestState, RepoConfig } from "./types.js";
+
+const log = createChildLogger("ci-monitor");
+
+/**
+ * オーケストレータが作った PR の先頭のコミットの CI を確認し、失敗していれば修正を投入する（リポジトリごとに1つ）。
+ * 続けて修正を試みた回数を StateStore に記録し、上限に達したら ciGivingUp ラベルを付けて自動修正をやめる。
+ * 回数は CI が通るか、ラベルを付けた時点でリセットする（ラベルを外すと再び自動修正する）。
+ */
+export class CiMonitor {
+  private github: GitHubClient;
+  private dispatcher: Dispatcher;
+  private store: StateStore;
+  private repo: RepoConfig;
+
+  constructor(
+    github: GitHubClient,
+    dispatcher: Dispatcher,
+    store: StateStore,
+    repo: RepoConfig
+  ) {
+    this.github = github;
+    this.dispatcher = dispatcher;
+    this.store = store;
+    this.repo = repo;
+  }
+
+  /** PR ごとに CI の結果を確認する（1つの PR のエラーは他の PR に影響させない） */
+  async poll(prs: PullRequestState[]): Promise<void> {
+    if (this.repo.ciFixMaxAttempts === 0) return;
+
+    for (const pr of prs) {
+      try {
+        await this.check(pr);
+      } catch (err) {
+        log.warn(
+          { err, repo: this.repo.fullName, prNumber: pr.number },
+          "CI の結果の確認に失敗"
+        );
+      }
+    }
+  }
+
+  private async check(pr: PullRequestState): Promise<void> {
+    if (pr.labels.includes(this.repo.labels.ciGivingUp)) return;
+
+    // 実行中のチェックがあれば、すべて終わってからまとめて修正する
+    const checks = await this.github.fetchChecks(pr.headSha);
+    if (checks.length === 0 || checks.some((c) => c.state === "pending")) {
+      return;
+    }
+
+    const record = this.store.getCiFix(this.repo.fullName, pr.number);
+    const failed = checks.filter((c) => c.state === "failure");
+    if (failed.length === 0) {
+      if (record) {
+        log.info(
+          { repo: this.repo.fullName, prNumber: pr.number },
+          "CI が通ったため自動修正の回数をリセット"
+        );
+        await this.store.deleteCiFix(this.repo.fullName, pr.number);
+      }
+      return;
+    }
+
+    // 同じコミットでは一度しか試みない（修正に失敗した場合は次のコミットまで待つ）
+    if (record?.headSha === pr.headSha) return;
+
+    const attempts = record?.attempts ?? 0;
+    if (attempts >= this.repo.ciFixMaxAttempts) {
+      await this.giveUp(pr, failed, attempts);
+      return;
+    }
+
+    log.info(
+      {
+        repo: this.repo.fullName,
+        prNumber: pr.number,
+        headSha: pr.headSha,
+        checks: failed.map((c) => c.name),
+        attempt: attempts + 1,
+      },
+      "CI の失敗を検知"
+    );
+    if (await this.dispatcher.dispatchCiFix(pr, failed, attempts + 1)) {
+      await this.store.setCiFix(this.repo.fullName, {
+        prNumber: pr.number,
+        attempts: attempts + 1,
+        headSha: pr.headSha,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /** 上限まで修正しても CI が通らない PR にラベルを付け、自動修正をやめたことを知らせる */
+  private async giveUp(
+    pr: PullRequestState,
+    failed: CiCheck[],
+    attempts: number
+  ): Promise<void> {
+    const label = this.repo.labels.ciGivingUp;
+    log.warn(
+      { repo: this.repo.fullName, prNumber: pr.number, attempts },
+      "CI の自動修正の上限に達したため停止"
+    );
+
+    await this.github.addLabel(pr.number, label);
+    await this.github.postComment(
+      pr.number,
+      [
+        `⚠️ CI の自動修正を ${attempts} 回試みましたが、次のチェックが失敗したままです。自動修正を停止します。`,
+        "",
+        ...failed.map((c) =>
+          c.detailsUrl ? `- [${c.name}](${c.detailsUrl})` : `- ${c.name}`
+        ),
+        "",
+        `手動で修正するか、\`${label}\` ラベルを外すと自動修正を再開します。`,
+      ].join("\n")
+    );
+    await this.store.deleteCiFix(this.repo.fullName, pr.number);
+  }
+}
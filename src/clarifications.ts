@@ -0,0 +1,134 @@
+import { createChildLogger } from "./logger.js";
+import { isCommand } from "./commands.js";
+import type { GitHubClient } from "./github.js";
+import type { Dispatcher } from "./dispatcher.js";
+import type { StateStore } from "./state-store.js";
+import type { Clarification, RepoConfig } from "./types.js";
+
+const log = createChildLogger("clarifications");
+
+/**
+ * Claude が Issue に投稿した質問への回答を確認し、回答があれば実装を再投入する（リポジトリごとに1つ）。
+ * 回答として受け付けるのは、Issue の作成者と実装を依頼した利用者のコメントのみ。
+ * 質問と回答は StateStore に保存し、再起動後も引き継ぐ。
+ */
+export class Clarifications {
+  private github: GitHubClient;
+  private dispatcher: Dispatcher;
+  private store: StateStore;
+  private repo: RepoConfig;
+  /** 回答を処理中の Issue（Poller と WebhookServer から同時に呼ばれても一度だけ再投入する） */
+  private answering: Set<number> = new Set();
+
+  constructor(
+    github: GitHubClient,
+    dispatcher: Dispatcher,
+    store: StateStore,
+    repo: RepoConfig
+  ) {
+    this.github = github;
+    this.dispatcher = dispatcher;
+    this.store = store;
+    this.repo = repo;
+  }
+
+  /** Issue が質問への回答待ちか */
+  isAwaiting(issueNumber: number): boolean {
+    return (
+      this.store.getClarification(this.repo.fullName, issueNumber)?.status ===
+      "awaiting-answer"
+    );
+  }
+
+  /** 回答待ちの Issue ごとに回答のコメントを確認する */
+  async poll(): Promise<void> {
+    const awaiting = this.store
+      .getClarifications(this.repo.fullName)
+      .filter((c) => c.status === "awaiting-answer");
+
+    for (const clarification of awaiting) {
+      await this.check(clarification.issueNumber);
+    }
+  }
+
+  /** Issue への回答を確認し、あれば回答を保存して実装を再投入する */
+  async check(issueNumber: number): Promise<void> {
+    const clarification = this.store.getClarification(
+      this.repo.fullName,
+      issueNumber
+    );
+    if (clarification?.status !== "awaiting-answer") return;
+    if (this.answering.has(issueNumber)) return;
+
+    this.answering.add(issueNumber);
+    try {
+      const answers = await this.fetchAnswers(clarification);
+      if (answers.length === 0) {
+        log.debug(
+          { repo: this.repo.fullName, issueNumber },
+          "質問への回答はまだありません"
+        );
+        return;
+      }
+      await this.resume(clarification, answers);
+    } finally {
+      this.answering.delete(issueNumber);
+    }
+  }
+
+  /** 質問のコメントより後に投稿された、回答を受け付ける利用者のコメント */
+  private async fetchAnswers(
+    clarification: Clarification
+  ): Promise<Clarification["answers"]> {
+    const askedTo = new Set(clarification.askedTo.map((u) => u.toLowerCase()));
+    const askedAt = new Date(clarification.askedAt);
+    const comments = await this.github.fetchIssueComments(
+      clarification.issueNumber,
+      clarification.askedAt
+    );
+
+    return comments
+      .filter(
+        (c) =>
+          c.id !== clarification.commentId &&
+          new Date(c.createdAt) >= askedAt &&
+          askedTo.has(c.user.toLowerCase()) &&
+          !isCommand(c.body)
+      )
+      .map((c) => ({ user: c.user, body: c.body }));
+  }
+
+  private async resume(
+    clarification: Clarification,
+    answers: Clarification["answers"]
+  ): Promise<void> {
+    const { issueNumber } = clarification;
+    await this.store.setClarification(this.repo.fullName, {
+      ...clarification,
+      status: "answered",
+      answers,
+    });
+    log.info(
+      {
+        repo: this.repo.fullName,
+        issueNumber,
+        answeredBy: answers.map((a) => a.user),
+      },
+      "質問への回答を受信"
+    );
+
+    const { labels } = this.repo;
+    await this.github.removeLabel(issueNumber, labels.needsInfo);
+    // 投入できなかった場合もラベルが残るので次回のポーリングで投入される
+    await this.github.addLabel(issueNumber, labels.trigger);
+    await this.github.postComment(
+      issueNumber,
+      "💬 回答ありがとうございます。回答を踏まえて実装を再開します。"
+    );
+
+    const issue = await this.github.getIssue(issueNumber);
+    await this.dispatcher.dispatchIssues([
+      { ...issue, labeledBy: clarification.requestedBy },
+    ]);
+  }
+}
@@ -1,30 +1,77 @@
 import { spawn } from "node:child_process";
 import { createChildLogger } from "./logger.js";
-import type { ClaudeResult } from "./types.js";
+import { metrics } from "./metrics.js";
+import type { Sandbox, SandboxedCommand } from "./sandbox.js";
+import type { AgentRunner, AgentRunOptions } from "./agent-runner.js";
+import type { ClaudeResult, ClaudeStreamEvent, ClaudeUsage } from "./types.js";
 
 const log = createChildLogger("claude");
 
-export interface ClaudeRunOptions {
-  prompt: string;
-  cwd: string;
-  resumeSessionId?: string;
-  allowedTools?: string[];
-  abortSignal?: AbortSignal;
+/** `--resume` に渡したセッションが CLI に残っていないときの出力 */
+const SESSION_NOT_FOUND = /No conversation found with session ID/i;
+
+/**
+ * 継続しようとしたセッションが見つからないことを表すエラー
+ * （セッションIDを保存した後、CLI が会話を記録する前に落ちた場合など）
+ */
+export class SessionNotFoundError extends Error {
+  readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super(`セッション ${sessionId} が見つからないため継続できません`);
+    this.name = "SessionNotFoundError";
+    this.sessionId = sessionId;
+  }
+}
+
+/** Claude Code CLI でエージェントを実行する（既定の AgentRunner） */
+export class ClaudeCliRunner implements AgentRunner {
+  readonly name = "claude";
+  private sandbox: Sandbox;
+
+  constructor(sandbox: Sandbox) {
+    this.sandbox = sandbox;
+  }
+
+  run(options: AgentRunOptions): Promise<ClaudeResult> {
+    return runClaude(options, this.sandbox);
+  }
 }
 
 /**
  * Claude Code CLI をヘッドレスモードで実行する。
  * `claude -p` で非対話的に実行し、結果を返す。
+ * onEvent を指定すると `--output-format stream-json` で実行し、出力を逐次パースしたイベントを通知する。
+ * CLI は sandbox で隔離した環境（許可した環境変数・一時 HOME）で起動する。
  */
 export async function runClaude(
-  options: ClaudeRunOptions
+  options: AgentRunOptions,
+  sandbox: Sandbox
 ): Promise<ClaudeResult> {
-  const { prompt, cwd, resumeSessionId, allowedTools, abortSignal } = options;
+  const {
+    prompt,
+    cwd,
+    resumeSessionId,
+    sessionId,
+    allowedTools,
+    maxTurns,
+    abortSignal,
+    onEvent,
+  } = options;
 
-  const args = ["-p", prompt, "--output-format", "json"];
+  // stream-json は -p と併用する場合 --verbose が必須
+  const args = onEvent
+    ? ["-p", prompt, "--output-format", "stream-json", "--verbose"]
+    : ["-p", prompt, "--output-format", "json"];
 
   if (resumeSessionId) {
     args.push("--resume", resumeSessionId);
+  } else if (sessionId) {
+    args.push("--session-id", sessionId);
+  }
+
+  if (maxTurns) {
+    args.push("--max-turns", String(maxTurns));
   }
 
   if (allowedTools && allowedTools.length > 0) {
@@ -37,31 +84,80 @@ export async function runClaude(
     {
       cwd,
       hasResume: !!resumeSessionId,
+      streaming: !!onEvent,
       promptLength: prompt.length,
     },
     "Claude Code CLI を実行中"
   );
 
+  const command = await sandbox.prepare("claude", args, cwd);
+  try {
+    const result = await spawnClaude(command, cwd, abortSignal, onEvent);
+    if (
+      resumeSessionId &&
+      result.exitCode !== 0 &&
+      SESSION_NOT_FOUND.test(result.stderr)
+    ) {
+      throw new SessionNotFoundError(resumeSessionId);
+    }
+    return result;
+  } catch (err) {
+    // 実行結果を出力せずに終了した場合は、解釈のエラーに stderr の末尾が含まれる
+    if (
+      resumeSessionId &&
+      err instanceof Error &&
+      SESSION_NOT_FOUND.test(err.message)
+    ) {
+      throw new SessionNotFoundError(resumeSessionId);
+    }
+    throw err;
+  } finally {
+    await command.cleanup();
+  }
+}
+
+/** 組み立てたコマンドで CLI を起動し、終了を待って結果を解釈する */
+function spawnClaude(
+  command: SandboxedCommand,
+  cwd: string,
+  abortSignal: AbortSignal | undefined,
+  onEvent: ((event: ClaudeStreamEvent) => void) | undefined
+): Promise<ClaudeResult> {
   return new Promise<ClaudeResult>((resolve, reject) => {
-    const child = spawn("claude", args, {
+    const startedAt = Date.now();
+    const child = spawn(command.command, command.args, {
       cwd,
       stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env },
+      env: command.env,
     });
 
     let stdout = "";
     let stderr = "";
+    // 行の途中で chunk が切れた場合の残り
+    let pendingLine = "";
+
+    const emitLines = (text: string) => {
+      const lines = (pendingLine + text).split("\n");
+      pendingLine = lines.pop() ?? "";
+      for (const line of lines) {
+        emitStreamEvents(line, onEvent!);
+      }
+    };
 
     child.stdout.on("data", (data: Buffer) => {
-      stdout += data.toString();
+      const text = data.toString();
+      stdout += text;
+      if (onEvent) emitLines(text);
     });
 
     child.stderr.on("data", (data: Buffer) => {
       stderr += data.toString();
     });
 
+    let aborted = false;
     const onAbort = () => {
       log.warn("Claude Code CLI の実行がキャンセルされました");
+      aborted = true;
       child.kill("SIGTERM");
     };
 
@@ -78,22 +174,49 @@ export async function runClaude(
       if (abortSignal) {
         abortSignal.removeEventListener("abort", onAbort);
       }
+      if (onEvent && pendingLine) {
+        emitStreamEvents(pendingLine, onEvent);
+      }
 
       const exitCode = code ?? 1;
-      const sessionId = extractSessionId(stdout);
+      metrics.claudeRuns.inc({ exit_code: String(exitCode) });
+      metrics.claudeRunDuration.observe({}, (Date.now() - startedAt) / 1000);
+
+      if (aborted) {
+        reject(new Error("Claude Code CLI の実行がキャンセルされました"));
+        return;
+      }
+
+      let result: ClaudeResult;
+      try {
+        result = parseResult(stdout, stderr, exitCode);
+      } catch (err) {
+        log.error({ err, exitCode }, "Claude Code CLI の出力を解釈できません");
+        reject(err);
+        return;
+      }
 
       log.info(
-        { exitCode, sessionId, stdoutLength: stdout.length },
+        {
+          exitCode,
+          sessionId: result.sessionId,
+          subtype: result.subtype,
+          isError: result.isError,
+          costUsd: result.costUsd,
+          numTurns: result.numTurns,
+          durationMs: result.durationMs,
+        },
         "Claude Code CLI 実行完了"
       );
 
-      resolve({ exitCode, stdout, stderr, sessionId });
+      resolve(result);
     });
 
     child.on("error", (err) => {
       if (abortSignal) {
         abortSignal.removeEventListener("abort", onAbort);
       }
+      metrics.claudeRuns.inc({ exit_code: "spawn-error" });
       log.error({ err }, "Claude Code CLI の起動に失敗");
       reject(err);
     });
@@ -101,35 +224,212 @@ export async function runClaude(
 }
 
 /**
- * Claude Code の JSON 出力からセッションIDを抽出する。
- * 出力は JSON Lines 形式（複数のJSONオブジェクトが改行区切り）で、
- * 最後のオブジェクトに session_id が含まれる。
+ * Claude Code の出力から `type: "result"` のオブジェクトを探して検証する。
+ * `--output-format json` では単一オブジェクト（バージョンによってはメッセージの配列）、
+ * `stream-json` では JSON Lines の最後の行に結果が出力される。
  */
-function extractSessionId(stdout: string): string | undefined {
+function parseResult(
+  stdout: string,
+  stderr: string,
+  exitCode: number
+): ClaudeResult {
+  const raw = findResultObject(stdout);
+  if (!raw) {
+    const detail = stderr.trim().split("\n").slice(-5).join("\n");
+    throw new Error(
+      `Claude Code の出力に実行結果が含まれていません（終了コード ${exitCode}）` +
+        (detail ? `\n${detail}` : "")
+    );
+  }
+
+  const fail = (field: string, expected: string): never => {
+    const actual = JSON.stringify(raw[field]) ?? "undefined";
+    throw new Error(
+      `Claude Code の実行結果の ${field} が不正です（期待: ${expected}、実際: ${actual}）`
+    );
+  };
+  const requireString = (field: string): string =>
+    typeof raw[field] === "string" ? raw[field] : fail(field, "文字列");
+  const optionalNumber = (field: string): number => {
+    if (raw[field] === undefined) return 0;
+    return typeof raw[field] === "number" ? raw[field] : fail(field, "数値");
+  };
+
+  if (typeof raw.is_error !== "boolean") fail("is_error", "真偽値");
+  if (raw.result !== undefined && typeof raw.result !== "string") {
+    fail("result", "文字列");
+  }
+
+  return {
+    exitCode,
+    stdout,
+    stderr,
+    sessionId: requireString("session_id"),
+    resultText: (raw.result as string | undefined) ?? "",
+    isError: raw.is_error as boolean,
+    subtype: requireString("subtype"),
+    costUsd: optionalNumber("total_cost_usd"),
+    numTurns: optionalNumber("num_turns"),
+    durationMs: optionalNumber("duration_ms"),
+    usage: parseUsage(raw.usage),
+  };
+}
+
+function findResultObject(stdout: string): Record<string, unknown> | undefined {
+  const isResult = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" &&
+    v !== null &&
+    (v as { type?: unknown }).type === "result";
+
+  // 出力全体が1つの JSON（オブジェクトまたは配列）の場合
   try {
-    // JSON出力の最後の行を取得
-    const lines = stdout.trim().split("\n").filter(Boolean);
-    if (lines.length === 0) return undefined;
-
-    const lastLine = lines[lines.length - 1]!;
-    const parsed = JSON.parse(lastLine) as Record<string, unknown>;
-    if (typeof parsed.session_id === "string") {
-      return parsed.session_id;
+    const parsed: unknown = JSON.parse(stdout);
+    if (isResult(parsed)) return parsed;
+    if (Array.isArray(parsed)) return [...parsed].reverse().find(isResult);
+  } catch {
+    // JSON Lines として扱う
+  }
+
+  const lines = stdout.trim().split("\n").filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const obj: unknown = JSON.parse(lines[i]!);
+      if (isResult(obj)) return obj;
+    } catch {
+      continue;
     }
+  }
+  return undefined;
+}
 
-    // session_id が最後の行にない場合、全行を逆順に探索
-    for (let i = lines.length - 2; i >= 0; i--) {
-      try {
-        const obj = JSON.parse(lines[i]!) as Record<string, unknown>;
-        if (typeof obj.session_id === "string") {
-          return obj.session_id;
+function parseUsage(value: unknown): ClaudeUsage | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const usage = value as Record<string, unknown>;
+  const num = (key: string) =>
+    typeof usage[key] === "number" ? (usage[key] as number) : 0;
+  return {
+    inputTokens: num("input_tokens"),
+    outputTokens: num("output_tokens"),
+    cacheCreationInputTokens: num("cache_creation_input_tokens"),
+    cacheReadInputTokens: num("cache_read_input_tokens"),
+  };
+}
+
+/** 実行結果が成功でなければ、理由を説明するエラーを投げる */
+export function assertClaudeSucceeded(result: ClaudeResult): void {
+  if (!result.isError && result.exitCode === 0) return;
+
+  const reason =
+    result.subtype === "error_max_turns"
+      ? `最大ターン数に達しました（${result.numTurns}ターン）`
+      : result.subtype === "error_during_execution"
+      ? "実行中にエラーが発生しました"
+      : result.isError
+      ? `エラーで終了しました（${result.subtype}）`
+      : `エラーコード ${result.exitCode} で終了しました`;
+
+  throw new Error(
+    `Claude Code が${reason}` +
+      (result.resultText ? `\n\n${result.resultText}` : "")
+  );
+}
+
+/**
+ * stream-json の1行を解釈してイベントを通知する。
+ * 1行に複数のイベント（テキストとツール呼び出しなど）が含まれることがある。
+ */
+function emitStreamEvents(
+  line: string,
+  onEvent: (event: ClaudeStreamEvent) => void
+): void {
+  if (!line.trim()) return;
+
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    log.debug(
+      { line: line.slice(0, 200) },
+      "stream-json の行をパースできません"
+    );
+    return;
+  }
+
+  const events: ClaudeStreamEvent[] = [];
+
+  switch (message.type) {
+    case "system":
+      if (
+        message.subtype === "init" &&
+        typeof message.session_id === "string"
+      ) {
+        events.push({
+          type: "init",
+          sessionId: message.session_id,
+          model: typeof message.model === "string" ? message.model : undefined,
+        });
+      }
+      break;
+
+    case "assistant": {
+      const body = message.message as
+        | { id?: unknown; model?: unknown; content?: unknown; usage?: unknown }
+        | undefined;
+      const usage = parseUsage(body?.usage);
+      if (usage) {
+        events.push({
+          type: "usage",
+          messageId: typeof body?.id === "string" ? body.id : undefined,
+          model: typeof body?.model === "string" ? body.model : undefined,
+          usage,
+        });
+      }
+      const content = body?.content;
+      if (!Array.isArray(content)) break;
+      for (const block of content as Array<Record<string, unknown>>) {
+        if (block.type === "text" && typeof block.text === "string") {
+          events.push({ type: "text", text: block.text });
+        } else if (
+          block.type === "tool_use" &&
+          typeof block.name === "string"
+        ) {
+          events.push({
+            type: "tool-use",
+            name: block.name,
+            input: (block.input as Record<string, unknown> | undefined) ?? {},
+          });
         }
-      } catch {
-        continue;
       }
+      break;
+    }
+
+    case "result":
+      events.push({
+        type: "result",
+        sessionId:
+          typeof message.session_id === "string"
+            ? message.session_id
+            : undefined,
+        isError: message.is_error === true,
+        costUsd:
+          typeof message.total_cost_usd === "number"
+            ? message.total_cost_usd
+            : undefined,
+        numTurns:
+          typeof message.num_turns === "number" ? message.num_turns : undefined,
+      });
+      break;
+  }
+
+  for (const event of events) {
+    try {
+      onEvent(event);
+    } catch (err) {
+      // 通知先の例外で CLI の実行を止めない
+      log.warn(
+        { err, eventType: event.type },
+        "ストリームイベントの処理に失敗"
+      );
     }
-  } catch {
-    // パースに失敗した場合はundefinedを返す
   }
-  return undefined;
 }
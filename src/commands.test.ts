@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BudgetTracker } from "./budget.js";
+import {
+  CommandHandler,
+  isCommand,
+  parseCommand,
+  type CommandDispatcher,
+  type CommandGitHub,
+} from "./commands.js";
+import { parseConfig } from "./config.js";
+import { ProcessedComments } from "./processed-comments.js";
+import { MemoryStateStore } from "./state-store.js";
+import { WorkerPool } from "./worker-pool.js";
+import type { CommandComment } from "./types.js";
+
+const CONFIG = parseConfig({
+  github: { token: "token" },
+  repositories: [{ repo: "owner/repo" }],
+});
+const REPO = CONFIG.repositories[0]!;
+
+/** このテストでは呼ばれないはずの操作 */
+function unexpected(): never {
+  assert.fail("想定していない呼び出し");
+}
+
+describe("parseCommand", () => {
+  it("1行目の /auto に続くコマンド名（小文字）と引数を取り出す", () => {
+    assert.deepEqual(parseCommand("/auto Status now\n詳しくは…"), {
+      name: "status",
+      args: ["now"],
+    });
+    assert.deepEqual(parseCommand("  /auto   retry  "), {
+      name: "retry",
+      args: [],
+    });
+  });
+
+  it("コマンド名がなければ空文字列（ヘルプ）として扱う", () => {
+    assert.deepEqual(parseCommand("/auto"), { name: "", args: [] });
+  });
+
+  it("1行目が /auto で始まらないコメントはコマンドではない", () => {
+    assert.equal(parseCommand("よろしくお願いします\n/auto status"), null);
+    assert.equal(parseCommand("/automatic status"), null);
+    assert.equal(parseCommand("`/auto status` を使ってください"), null);
+    assert.equal(isCommand("LGTM"), false);
+    assert.equal(isCommand("/auto help"), true);
+  });
+});
+
+describe("CommandHandler", () => {
+  /** 投稿されたコメントを記録し、権限の判定結果を差し替えられる CommandHandler */
+  function setup(authorized = true) {
+    const store = new MemoryStateStore();
+    const posted: Array<{ issueNumber: number; body: string }> = [];
+    const github: CommandGitHub = {
+      postComment: async (issueNumber, body) =>
+        posted.push({ issueNumber, body }),
+      addLabel: unexpected,
+      removeLabel: unexpected,
+      getIssue: unexpected,
+    };
+    const dispatcher: CommandDispatcher = {
+      dispatchIssues: unexpected,
+      dispatchRebase: unexpected,
+      cancelIssue: unexpected,
+      cancelReview: unexpected,
+      cancelRebase: unexpected,
+      cancelCiFix: unexpected,
+      reviewTaskId: unexpected,
+      rebaseTaskId: unexpected,
+      ciFixTaskId: unexpected,
+    };
+
+    const handler = new CommandHandler(
+      github,
+      new WorkerPool(1, 10, store),
+      dispatcher,
+      { currentStep: unexpected },
+      new BudgetTracker(CONFIG, store),
+      REPO,
+      { authorize: async () => authorized },
+      { isAwaiting: () => false, requestPlan: unexpected, approve: unexpected },
+      { isAwaiting: () => false },
+      new ProcessedComments(store, REPO)
+    );
+    return { handler, posted };
+  }
+
+  function comment(body: string, id = 1): CommandComment {
+    return {
+      id,
+      issueNumber: 7,
+      isPullRequest: false,
+      body,
+      user: "alice",
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  it("コマンドの結果を投稿者へのメンション付きで返信する", async () => {
+    const { handler, posted } = setup();
+    await handler.handle(comment("/auto status"));
+
+    assert.deepEqual(posted, [
+      {
+        issueNumber: 7,
+        body: "@alice この Issue の実行中・実行待ちのタスクはありません。",
+      },
+    ]);
+  });
+
+  it("不明なコマンドにはヘルプを添えて返信する", async () => {
+    const { handler, posted } = setup();
+    await handler.handle(comment("/auto deploy"));
+
+    assert.equal(posted.length, 1);
+    assert.match(posted[0]!.body, /`\/auto deploy` は不明なコマンドです/);
+    assert.match(posted[0]!.body, /使用できるコマンド/);
+  });
+
+  it("同じコメントは一度だけ実行する", async () => {
+    const { handler, posted } = setup();
+    await handler.handle(comment("/auto help"));
+    await handler.handle(comment("/auto help"));
+
+    assert.equal(posted.length, 1);
+  });
+
+  it("権限のない利用者のコマンドは実行しない", async () => {
+    const { handler, posted } = setup(false);
+    await handler.handle(comment("/auto help"));
+
+    assert.deepEqual(posted, []);
+  });
+});
@@ -0,0 +1,350 @@
+import { createChildLogger } from "./logger.js";
+import { formatDuration } from "./progress-reporter.js";
+import { issueTaskId } from "./repository.js";
+import type { GitHubClient } from "./github.js";
+import type { WorkerPool } from "./worker-pool.js";
+import type { Dispatcher } from "./dispatcher.js";
+import type { TaskHandler } from "./task-handler.js";
+import type { BudgetTracker } from "./budget.js";
+import type { Authorizer } from "./authorization.js";
+import type { PlanApprovals } from "./plan-approvals.js";
+import type { Clarifications } from "./clarifications.js";
+import type { ProcessedComments } from "./processed-comments.js";
+import type { CommandComment, RepoConfig } from "./types.js";
+
+const log = createChildLogger("commands");
+
+/** コメントの1行目がこの接頭辞で始まればコマンドとして扱う */
+const COMMAND_PREFIX = "/auto";
+
+const HELP = [
+  "使用できるコマンド:",
+  "",
+  "- `/auto status` — タスクの状態（キューの順番・現在のステップ）を表示",
+  "- `/auto cancel` — 実行中・実行待ちのタスクを中止",
+  "- `/auto retry` — 失敗した Issue の自動実装をやり直す",
+  "- `/auto rebase` — PR をベースブランチに追従（リベースし、コンフリクトしたらマージして解消）",
+  "- `/auto plan` — 実装の前に計画を作成し、承認を待つ（作成済みなら作り直す）",
+  "- `/auto approve` — 実装計画を承認して実装を開始",
+  "- `/auto help` — このヘルプを表示",
+].join("\n");
+
+/** CommandHandler が使う GitHub の操作 */
+export type CommandGitHub = Pick<
+  GitHubClient,
+  "postComment" | "addLabel" | "removeLabel" | "getIssue"
+>;
+
+/** CommandHandler が使う Dispatcher の操作 */
+export type CommandDispatcher = Pick<
+  Dispatcher,
+  | "dispatchIssues"
+  | "dispatchRebase"
+  | "cancelIssue"
+  | "cancelReview"
+  | "cancelRebase"
+  | "cancelCiFix"
+  | "reviewTaskId"
+  | "rebaseTaskId"
+  | "ciFixTaskId"
+>;
+
+/** CommandHandler が使う TaskHandler の操作 */
+export type CommandTaskHandler = Pick<TaskHandler, "currentStep">;
+
+/** CommandHandler が使う Authorizer の操作 */
+export type CommandAuthorizer = Pick<Authorizer, "authorize">;
+
+/** CommandHandler が使う PlanApprovals の操作 */
+export type CommandApprovals = Pick<
+  PlanApprovals,
+  "isAwaiting" | "requestPlan" | "approve"
+>;
+
+/** CommandHandler が使う Clarifications の操作 */
+export type CommandClarifications = Pick<Clarifications, "isAwaiting">;
+
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+}
+
+/** コメントが `/auto` コマンドか */
+export function isCommand(body: string): boolean {
+  return parseCommand(body) !== null;
+}
+
+/** コメントの1行目を `/auto <コマンド> [引数...]` として解釈する（コマンドでなければ null） */
+export function parseCommand(body: string): ParsedCommand | null {
+  const firstLine = body.trim().split("\n")[0] ?? "";
+  const [prefix, name, ...args] = firstLine.trim().split(/\s+/);
+  if (prefix !== COMMAND_PREFIX) return null;
+  return { name: name?.toLowerCase() ?? "", args };
+}
+
+/**
+ * Issue・PR へのコメントで届いた `/auto` コマンドを実行し、結果をコメントで返す（リポジトリごとに1つ）。
+ * Poller と WebhookServer の両方から使われ、同じコメントが両経路で届いても、再起動をまたいでも一度だけ実行する。
+ */
+export class CommandHandler {
+  private github: CommandGitHub;
+  private workerPool: WorkerPool;
+  private dispatcher: CommandDispatcher;
+  private taskHandler: CommandTaskHandler;
+  private budget: BudgetTracker;
+  private repo: RepoConfig;
+  private authorizer: CommandAuthorizer;
+  private approvals: CommandApprovals;
+  private clarifications: CommandClarifications;
+  private processed: ProcessedComments;
+
+  constructor(
+    github: CommandGitHub,
+    workerPool: WorkerPool,
+    dispatcher: CommandDispatcher,
+    taskHandler: CommandTaskHandler,
+    budget: BudgetTracker,
+    repo: RepoConfig,
+    authorizer: CommandAuthorizer,
+    approvals: CommandApprovals,
+    clarifications: CommandClarifications,
+    processed: ProcessedComments
+  ) {
+    this.github = github;
+    this.workerPool = workerPool;
+    this.dispatcher = dispatcher;
+    this.taskHandler = taskHandler;
+    this.budget = budget;
+    this.repo = repo;
+    this.authorizer = authorizer;
+    this.approvals = approvals;
+    this.clarifications = clarifications;
+    this.processed = processed;
+  }
+
+  /** コマンドを実行する（権限のない利用者のコマンドは実行しない） */
+  async handle(comment: CommandComment): Promise<void> {
+    const command = parseCommand(comment.body);
+    if (!command) return;
+
+    // 編集されたコマンドは実行し直さない
+    const key = `command-${comment.id}`;
+    if (!this.processed.claim(comment.issueNumber, key)) return;
+    // 実行に失敗しても同じコマンドを繰り返さないよう、先に処理済みにする
+    await this.processed.complete(comment.issueNumber, key);
+
+    const context = {
+      repo: this.repo.fullName,
+      issueNumber: comment.issueNumber,
+      commentId: comment.id,
+      user: comment.user,
+      command: command.name,
+    };
+
+    if (
+      !(await this.authorizer.authorize(
+        comment.user,
+        "command",
+        comment.issueNumber
+      ))
+    ) {
+      return;
+    }
+
+    log.info(context, "コマンドを受信");
+
+    let reply: string;
+    try {
+      reply = await this.execute(command.name, comment);
+    } catch (err) {
+      log.error({ err, ...context }, "コマンドの実行に失敗");
+      reply = `❌ \`/auto ${command.name}\` の実行に失敗しました。\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``;
+    }
+
+    await this.github.postComment(
+      comment.issueNumber,
+      `@${comment.user} ${reply}`
+    );
+  }
+
+  private async execute(
+    name: string,
+    comment: CommandComment
+  ): Promise<string> {
+    switch (name) {
+      case "status":
+        return comment.isPullRequest
+          ? this.reviewStatus(comment.issueNumber)
+          : this.issueStatus(comment.issueNumber);
+      case "cancel":
+        return comment.isPullRequest
+          ? this.cancelReview(comment.issueNumber)
+          : this.cancelIssue(comment.issueNumber);
+      case "retry":
+        return comment.isPullRequest
+          ? "`/auto retry` は Issue で使ってください。PR の修正をやり直す場合はレビューコメントを投稿してください。"
+          : this.retryIssue(comment.issueNumber, comment.user);
+      case "plan":
+        return comment.isPullRequest
+          ? "`/auto plan` は Issue で使ってください。"
+          : this.requestPlan(comment.issueNumber, comment.user);
+      case "approve":
+        return comment.isPullRequest
+          ? "`/auto approve` は Issue で使ってください。"
+          : this.approvePlan(comment.issueNumber, comment.user);
+      case "rebase":
+        return comment.isPullRequest
+          ? this.rebase(comment.issueNumber, comment.user)
+          : "`/auto rebase` は PR で使ってください。";
+      case "":
+      case "help":
+        return HELP;
+      default:
+        return `\`/auto ${name}\` は不明なコマンドです。\n\n${HELP}`;
+    }
+  }
+
+  private issueStatus(issueNumber: number): string {
+    const taskId = issueTaskId(this.repo, issueNumber);
+    switch (this.workerPool.statusOf(taskId)) {
+      case "in-progress":
+        return [
+          "🤖 自動実装を実行中です。",
+          "",
+          `**現在のステップ:** ${this.taskHandler.currentStep(issueNumber) ?? "不明"}`,
+          `**経過時間:** ${this.elapsed(taskId)}`,
+        ].join("\n");
+      case "pending":
+        return this.queuedStatus(taskId);
+      default:
+        if (this.approvals.isAwaiting(issueNumber)) {
+          return "📝 実装計画の承認待ちです。";
+        }
+        if (this.clarifications.isAwaiting(issueNumber)) {
+          return "❓ 質問への回答待ちです。";
+        }
+        return "この Issue の実行中・実行待ちのタスクはありません。";
+    }
+  }
+
+  private reviewStatus(prNumber: number): string {
+    const rebaseTaskId = this.dispatcher.rebaseTaskId(prNumber);
+    switch (this.workerPool.statusOf(rebaseTaskId)) {
+      case "in-progress":
+        return `🔄 ベースブランチへの追従を実行中です（経過時間: ${this.elapsed(rebaseTaskId)}）。`;
+      case "pending":
+        return this.queuedStatus(rebaseTaskId);
+    }
+
+    const ciFixTaskId = this.dispatcher.ciFixTaskId(prNumber);
+    switch (this.workerPool.statusOf(ciFixTaskId)) {
+      case "in-progress":
+        return `🔧 CI の失敗を修正中です（経過時間: ${this.elapsed(ciFixTaskId)}）。`;
+      case "pending":
+        return this.queuedStatus(ciFixTaskId);
+    }
+
+    const taskId = this.dispatcher.reviewTaskId(prNumber);
+    const status =
+      taskId === undefined ? undefined : this.workerPool.statusOf(taskId);
+    switch (status) {
+      case "in-progress":
+        return `🤖 レビュー対応を実行中です（経過時間: ${this.elapsed(taskId!)}）。`;
+      case "pending":
+        return this.queuedStatus(taskId!);
+      default:
+        return "この PR の実行中・実行待ちのタスクはありません。";
+    }
+  }
+
+  private queuedStatus(taskId: string): string {
+    const position = this.workerPool.queuePosition(taskId);
+    return position === undefined
+      ? "⏳ 実行待ちです。"
+      : `⏳ 実行待ちです（キューの ${position} 番目 / ${this.workerPool.queueDepth} 件）。`;
+  }
+
+  private elapsed(taskId: string): string {
+    const startedAt = this.workerPool.startedAt(taskId);
+    return startedAt === undefined
+      ? "不明"
+      : formatDuration(Date.now() - startedAt);
+  }
+
+  private async cancelIssue(issueNumber: number): Promise<string> {
+    // ラベルが残っているとポーリングで再投入されるため、先に外す
+    await this.github.removeLabel(issueNumber, this.repo.labels.trigger);
+    return this.dispatcher.cancelIssue(issueNumber)
+      ? "🛑 自動実装をキャンセルしました。"
+      : "キャンセルする実行中・実行待ちのタスクはありません。";
+  }
+
+  private cancelReview(prNumber: number): string {
+    const cancelled = [
+      this.dispatcher.cancelReview(prNumber) ? "レビュー対応" : "",
+      this.dispatcher.cancelRebase(prNumber) ? "ベースブランチへの追従" : "",
+      this.dispatcher.cancelCiFix(prNumber) ? "CI の失敗の修正" : "",
+    ].filter(Boolean);
+    return cancelled.length > 0
+      ? `🛑 ${cancelled.join("・")}をキャンセルしました。`
+      : "キャンセルする実行中・実行待ちのタスクはありません。";
+  }
+
+  private async rebase(prNumber: number, user: string): Promise<string> {
+    if (this.workerPool.has(this.dispatcher.rebaseTaskId(prNumber))) {
+      return "この PR の追従は既に実行中または実行待ちです。";
+    }
+    return (await this.dispatcher.dispatchRebase(prNumber, user))
+      ? `🔄 \`${this.repo.baseBranch}\` への追従を開始します。完了したらお知らせします。`
+      : "実行待ちのキューが満杯か、日次予算を使い切っているため受け付けられませんでした。時間をおいてやり直してください。";
+  }
+
+  /**
+   * 失敗ラベルを外して trigger ラベルを付け直し、すぐに投入する。
+   * ラベルはオーケストレータが付けるため、コマンドを投稿した利用者を依頼者として扱う。
+   * 利用者の指示でやり直すため、それまでのタスクの累計コストは消す。
+   */
+  private async retryIssue(
+    issueNumber: number,
+    user: string
+  ): Promise<string> {
+    if (this.workerPool.has(issueTaskId(this.repo, issueNumber))) {
+      return "この Issue は既に実行中または実行待ちです。";
+    }
+
+    const { labels } = this.repo;
+    await this.budget.resetTask(issueTaskId(this.repo, issueNumber));
+    await this.github.removeLabel(issueNumber, labels.failed);
+    await this.github.removeLabel(issueNumber, labels.budgetExceeded);
+    await this.github.addLabel(issueNumber, labels.trigger);
+
+    const issue = await this.github.getIssue(issueNumber);
+    const accepted = await this.dispatcher.dispatchIssues([
+      { ...issue, labeledBy: user },
+    ]);
+    return accepted
+      ? "🔁 自動実装をやり直します。"
+      : `🔁 \`${labels.trigger}\` ラベルを付け直しました。実行枠または予算が空き次第やり直します。`;
+  }
+
+  private async requestPlan(
+    issueNumber: number,
+    user: string
+  ): Promise<string> {
+    if (this.workerPool.has(issueTaskId(this.repo, issueNumber))) {
+      return "この Issue は既に実行中または実行待ちです。";
+    }
+    return (await this.approvals.requestPlan(issueNumber, user))
+      ? "📝 実装計画を作成します。"
+      : `📝 \`${this.repo.labels.plan}\` ラベルを付けました。実行枠または予算が空き次第、実装計画を作成します。`;
+  }
+
+  private async approvePlan(
+    issueNumber: number,
+    user: string
+  ): Promise<string> {
+    return (await this.approvals.approve(issueNumber, user))
+      ? "✅ 実装計画を承認しました。"
+      : "承認待ちの実装計画はありません。";
+  }
+}
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { stringify as stringifyYaml } from "yaml";
+import { applyConfig, loadConfig } from "./config.js";
+
+const originalEnv = process.env;
+
+/** 指定した環境変数だけがある状態で設定を読み込む */
+function load(env: Record<string, string>) {
+  process.env = { GITHUB_TOKEN: "token", GITHUB_REPO: "owner/repo", ...env };
+  return loadConfig();
+}
+
+/** 設定のエラーメッセージ（読み込めてしまったら失敗） */
+function loadError(env: Record<string, string>): string {
+  try {
+    load(env);
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  assert.fail("設定のエラーになるはず");
+}
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  async function configFile(name: string, content: unknown): Promise<string> {
+    const file = path.join(dir, name);
+    await writeFile(file, stringifyYaml(content));
+    return file;
+  }
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "config-test-"));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("省略した項目は既定値にし、GITHUB_REPO はカレントディレクトリのクローンとして扱う", () => {
+    const config = load({});
+    const [repo] = config.repositories;
+
+    assert.equal(config.github.apiUrl, "https://api.github.com");
+    assert.equal(config.worker.maxConcurrency, 3);
+    assert.equal(config.webhook.enabled, false);
+    assert.equal(repo?.fullName, "owner/repo");
+    assert.equal(repo?.owner, "owner");
+    assert.equal(repo?.localPath, process.cwd());
+    assert.equal(repo?.baseBranch, "main");
+    assert.equal(repo?.labels.trigger, "auto-implement");
+    assert.equal(repo?.authorization.minPermission, "write");
+    assert.equal(repo?.maxConcurrency, 3);
+  });
+
+  it("環境変数の数値・真偽値・カンマ区切りのリストを変換する", () => {
+    const config = load({
+      MAX_CONCURRENCY: "5",
+      WEBHOOK_ENABLED: "true",
+      WEBHOOK_SECRET: "secret",
+      AUTH_ALLOWED_USERS: "alice, bob,,",
+      VERIFY_COMMANDS: "npm test,npm run lint",
+    });
+
+    assert.equal(config.worker.maxConcurrency, 5);
+    assert.equal(config.webhook.enabled, true);
+    assert.deepEqual(config.repositories[0]?.authorization.allowedUsers, [
+      "alice",
+      "bob",
+    ]);
+    assert.deepEqual(config.verification.commands, [
+      "npm test",
+      "npm run lint",
+    ]);
+  });
+
+  it("設定ファイルの値を環境変数より優先し、リポジトリごとの値を defaults に重ねる", async () => {
+    const CONFIG_FILE = await configFile("config.yaml", {
+      worker: { maxConcurrency: 4 },
+      defaults: { labels: { trigger: "bot" }, autoRebase: "behind" },
+    });
+    const REPOSITORIES_FILE = await configFile("repositories.yaml", [
+      { repo: "owner/a", localPath: "/srv/a" },
+      { repo: "owner/b", autoRebase: "off", maxConcurrency: 1 },
+    ]);
+
+    const config = load({
+      MAX_CONCURRENCY: "2",
+      CONFIG_FILE,
+      REPOSITORIES_FILE,
+    });
+    const [a, b] = config.repositories;
+
+    assert.equal(config.worker.maxConcurrency, 4);
+    assert.equal(a?.localPath, "/srv/a");
+    assert.equal(a?.labels.trigger, "bot");
+    assert.equal(a?.autoRebase, "behind");
+    assert.equal(a?.maxConcurrency, 4);
+    assert.equal(b?.localPath, path.resolve(".repos/owner/b"));
+    assert.equal(b?.autoRebase, "off");
+    assert.equal(b?.maxConcurrency, 1);
+  });
+
+  it("不正な項目を出どころ付きでまとめて報告する", async () => {
+    const CONFIG_FILE = await configFile("invalid.yaml", {
+      polling: { intervalMs: -1 },
+      unknown: true,
+    });
+
+    const message = loadError({ MAX_CONCURRENCY: "many", CONFIG_FILE });
+
+    assert.match(message, /^設定が不正です:/);
+    assert.match(message, /- worker\.maxConcurrency（環境変数 MAX_CONCURRENCY）: /);
+    assert.match(
+      message,
+      new RegExp(`- polling\\.intervalMs（設定ファイル ${CONFIG_FILE}）: `)
+    );
+    assert.match(message, /- \(ルート\): /);
+  });
+
+  it("リポジトリがなければエラーにする", () => {
+    assert.match(loadError({ GITHUB_REPO: "" }), /- repositories: /);
+  });
+
+  it("Webhook を有効にするならシークレットを必須にする", () => {
+    assert.match(
+      loadError({ WEBHOOK_ENABLED: "true" }),
+      /- webhook\.secret: Webhook を有効にする場合は必須です/
+    );
+  });
+
+  it("偽のエージェントにはシナリオファイルを必須にする", () => {
+    assert.match(
+      loadError({ AGENT_RUNNER: "fake" }),
+      /- defaults\.agent\.runner（環境変数 AGENT_RUNNER）: fake の場合は/
+    );
+  });
+
+  it("同じリポジトリを重複して指定できない", async () => {
+    const REPOSITORIES_FILE = await configFile("duplicated.yaml", [
+      { repo: "owner/a" },
+      { repo: "Owner/A" },
+    ]);
+
+    assert.match(
+      loadError({ REPOSITORIES_FILE }),
+      /- repositories\.1\.repo（REPOSITORIES_FILE .+）: owner\/a が重複しています/
+    );
+  });
+});
+
+describe("applyConfig", () => {
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("再起動なしで反映できる項目は稼働中の設定オブジェクトに反映する", () => {
+    const current = load({});
+    const worker = current.worker;
+    const repo = current.repositories[0]!;
+
+    const restartRequired = applyConfig(
+      current,
+      load({ MAX_CONCURRENCY: "7", AUTH_MIN_PERMISSION: "admin" })
+    );
+
+    assert.deepEqual(restartRequired, []);
+    assert.equal(current.worker, worker);
+    assert.equal(worker.maxConcurrency, 7);
+    assert.equal(current.repositories[0], repo);
+    assert.equal(repo.authorization.minPermission, "admin");
+  });
+
+  it("再起動が必要な項目は反映せず、その名前を返す", () => {
+    const current = load({});
+
+    const restartRequired = applyConfig(
+      current,
+      load({ GITHUB_TOKEN: "other", AGENT_RUNNER: "fake", AGENT_SCRIPT: "x" })
+    );
+
+    assert.deepEqual(restartRequired, [
+      "github",
+      "repositories.owner/repo.agent",
+    ]);
+    assert.equal(current.github.token, "token");
+    assert.equal(current.repositories[0]?.agent.runner, "claude");
+  });
+});
@@ -1,39 +1,660 @@
-import type { Config } from "./types.js";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type {
+  AgentConfig,
+  AuthorizationPolicy,
+  Config,
+  PushGuardConfig,
+  RepoConfig,
+  RepoLabels,
+  SandboxConfig,
+} from "./types.js";
 
-function requireEnv(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`環境変数 ${name} が設定されていません`);
+z.config(z.locales.ja());
+
+/** 設定で上書きしない場合のラベル名 */
+const DEFAULT_LABELS: RepoLabels = {
+  trigger: "auto-implement",
+  inProgress: "auto-in-progress",
+  failed: "auto-failed",
+  budgetExceeded: "auto-budget-exceeded",
+  plan: "auto-plan",
+  awaitingApproval: "auto-awaiting-approval",
+  approved: "auto-approved",
+  needsInfo: "auto-needs-info",
+  ciGivingUp: "auto-ci-giving-up",
+  allowProtected: "auto-allow-protected",
+};
+
+/** 設定で上書きしない場合の権限の条件（書き込み権限を持つコラボレーターのみ許可） */
+const DEFAULT_AUTHORIZATION: AuthorizationPolicy = {
+  minPermission: "write",
+  allowedUsers: [],
+  allowedTeams: [],
+  onDenied: "ignore",
+};
+
+/** 設定で上書きしない場合のエージェント（Claude Code CLI） */
+const DEFAULT_AGENT: AgentConfig = {
+  runner: "claude",
+};
+
+/** 設定で上書きしない場合の隔離（環境変数と HOME だけを分ける） */
+const DEFAULT_SANDBOX: SandboxConfig = {
+  mode: "none",
+  envAllowlist: [],
+  network: "allow",
+  networkHook: "",
+  image: "",
+  containerCommand: "docker",
+  claudeConfigDir: path.join(homedir(), ".claude"),
+};
+
+/** 依存関係のロックファイル（変更の保護と秘密情報の検査の除外に使う） */
+const LOCKFILES = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Gemfile.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "Cargo.lock",
+  "go.sum",
+  "composer.lock",
+];
+
+/** 設定で上書きしない場合の push 前の検査 */
+const DEFAULT_PUSH_GUARD: PushGuardConfig = {
+  protectedPaths: [".github/workflows/", "Dockerfile", ...LOCKFILES],
+  secretScanIgnore: LOCKFILES,
+  maxDiffLines: 5000,
+  maxFiles: 100,
+};
+
+/** 環境変数と設定項目の対応（同じ項目が設定ファイルにあればそちらを優先する） */
+const ENV_VARS: ReadonlyArray<[name: string, key: string]> = [
+  ["GITHUB_TOKEN", "github.token"],
+  ["GITHUB_API_URL", "github.apiUrl"],
+  ["POLLING_INTERVAL_MS", "polling.intervalMs"],
+  ["MAX_CONCURRENCY", "worker.maxConcurrency"],
+  ["MAX_QUEUE_DEPTH", "worker.maxQueueDepth"],
+  ["CLAUDE_ALLOWED_TOOLS", "claude.allowedTools"],
+  ["CLAUDE_PROGRESS_INTERVAL_MS", "claude.progressIntervalMs"],
+  ["CLAUDE_RUN_TIMEOUT_MS", "budget.runTimeoutMs"],
+  ["CLAUDE_MAX_TURNS", "budget.maxTurns"],
+  ["MAX_TASK_COST_USD", "budget.maxTaskCostUsd"],
+  ["DAILY_BUDGET_USD", "budget.dailyBudgetUsd"],
+  ["VERIFY_COMMANDS", "verification.commands"],
+  ["VERIFY_COMMAND_TIMEOUT_MS", "verification.commandTimeoutMs"],
+  ["VERIFY_MAX_REPAIR_ATTEMPTS", "verification.maxRepairAttempts"],
+  ["AUTH_MIN_PERMISSION", "defaults.authorization.minPermission"],
+  ["AUTH_ALLOWED_USERS", "defaults.authorization.allowedUsers"],
+  ["AUTH_ALLOWED_TEAMS", "defaults.authorization.allowedTeams"],
+  ["AUTH_ON_DENIED", "defaults.authorization.onDenied"],
+  ["AUTO_REBASE", "defaults.autoRebase"],
+  ["CI_FIX_MAX_ATTEMPTS", "defaults.ciFixMaxAttempts"],
+  ["AGENT_RUNNER", "defaults.agent.runner"],
+  ["AGENT_SCRIPT", "defaults.agent.script"],
+  ["SANDBOX_MODE", "defaults.sandbox.mode"],
+  ["SANDBOX_ENV_ALLOWLIST", "defaults.sandbox.envAllowlist"],
+  ["SANDBOX_NETWORK", "defaults.sandbox.network"],
+  ["SANDBOX_NETWORK_HOOK", "defaults.sandbox.networkHook"],
+  ["SANDBOX_IMAGE", "defaults.sandbox.image"],
+  ["SANDBOX_CONTAINER_COMMAND", "defaults.sandbox.containerCommand"],
+  ["SANDBOX_CLAUDE_CONFIG_DIR", "defaults.sandbox.claudeConfigDir"],
+  ["PUSH_GUARD_PROTECTED_PATHS", "defaults.pushGuard.protectedPaths"],
+  ["PUSH_GUARD_SECRET_SCAN_IGNORE", "defaults.pushGuard.secretScanIgnore"],
+  ["PUSH_GUARD_MAX_DIFF_LINES", "defaults.pushGuard.maxDiffLines"],
+  ["PUSH_GUARD_MAX_FILES", "defaults.pushGuard.maxFiles"],
+  ["STATE_BACKEND", "state.backend"],
+  ["STATE_FILE", "state.filePath"],
+  ["WEBHOOK_ENABLED", "webhook.enabled"],
+  ["WEBHOOK_PORT", "webhook.port"],
+  ["WEBHOOK_PATH", "webhook.path"],
+  ["WEBHOOK_SECRET", "webhook.secret"],
+  ["MONITORING_ENABLED", "monitoring.enabled"],
+  ["MONITORING_PORT", "monitoring.port"],
+];
+
+/** カンマ区切りで指定する環境変数 */
+const LIST_ENV_VARS = new Set([
+  "CLAUDE_ALLOWED_TOOLS",
+  "VERIFY_COMMANDS",
+  "AUTH_ALLOWED_USERS",
+  "AUTH_ALLOWED_TEAMS",
+  "SANDBOX_ENV_ALLOWLIST",
+  "PUSH_GUARD_PROTECTED_PATHS",
+  "PUSH_GUARD_SECRET_SCAN_IGNORE",
+]);
+
+// 環境変数は文字列で渡るため、数値・真偽値は文字列からの変換も受け付ける
+const positiveInt = z.coerce.number().int().positive();
+const nonNegativeInt = z.coerce.number().int().nonnegative();
+const nonNegativeNumber = z.coerce.number().nonnegative();
+const booleanFlag = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((v) => v === "true"),
+]);
+const name = z.string().min(1);
+
+const labelsSchema = z
+  .object({
+    trigger: name,
+    inProgress: name,
+    failed: name,
+    budgetExceeded: name,
+    plan: name,
+    awaitingApproval: name,
+    approved: name,
+    needsInfo: name,
+    ciGivingUp: name,
+    allowProtected: name,
+  })
+  .strict();
+
+const authorizationSchema = z
+  .object({
+    minPermission: z.enum(["read", "triage", "write", "maintain", "admin"]),
+    allowedUsers: z.array(name),
+    allowedTeams: z.array(
+      z
+        .string()
+        .regex(/^[\w.-]+\/[\w.-]+$/, "'org/team-slug' 形式で指定してください")
+    ),
+    onDenied: z.enum(["ignore", "comment"]),
+  })
+  .strict();
+
+const autoRebaseSchema = z.enum(["off", "conflicted", "behind"]);
+
+const agentSchema = z
+  .object({
+    runner: z.enum(["claude", "fake"]),
+    script: name,
+  })
+  .strict();
+
+const sandboxSchema = z
+  .object({
+    mode: z.enum(["none", "bubblewrap", "container"]),
+    envAllowlist: z.array(
+      z
+        .string()
+        .regex(
+          /^[A-Za-z_][A-Za-z0-9_]*\*?$/,
+          "環境変数の名前（末尾の * は前方一致）で指定してください"
+        )
+    ),
+    network: z.enum(["allow", "deny"]),
+    networkHook: z.string(),
+    image: z.string(),
+    containerCommand: name,
+    claudeConfigDir: name,
+  })
+  .strict();
+
+const pushGuardSchema = z
+  .object({
+    protectedPaths: z.array(name),
+    secretScanIgnore: z.array(name),
+    maxDiffLines: nonNegativeInt,
+    maxFiles: nonNegativeInt,
+  })
+  .strict();
+
+const repositorySchema = z
+  .object({
+    repo: z
+      .string()
+      .regex(/^[\w.-]+\/[\w.-]+$/, "'owner/repo' 形式で指定してください"),
+    localPath: name.optional(),
+    baseBranch: name.optional(),
+    branchPrefix: name.optional(),
+    labels: labelsSchema.partial().optional(),
+    authorization: authorizationSchema.partial().optional(),
+    contextFiles: z.array(name).optional(),
+    maxConcurrency: positiveInt.optional(),
+    autoRebase: autoRebaseSchema.optional(),
+    ciFixMaxAttempts: nonNegativeInt.optional(),
+    agent: agentSchema.partial().optional(),
+    sandbox: sandboxSchema.partial().optional(),
+    pushGuard: pushGuardSchema.partial().optional(),
+  })
+  .strict();
+
+/** 設定ファイル・環境変数を重ねた結果の検証スキーマ */
+const configSchema = z
+  .object({
+    github: z
+      .object({
+        token: name,
+        apiUrl: z.url().default("https://api.github.com"),
+      })
+      .strict(),
+    /** 各リポジトリで省略した項目の既定値 */
+    defaults: z
+      .object({
+        baseBranch: name.default("main"),
+        branchPrefix: name.default("auto/"),
+        labels: labelsSchema.partial().default({}),
+        authorization: authorizationSchema.partial().default({}),
+        contextFiles: z.array(name).default(["docs/todo/todo.md"]),
+        autoRebase: autoRebaseSchema.default("conflicted"),
+        ciFixMaxAttempts: nonNegativeInt.default(3),
+        agent: agentSchema.partial().default({}),
+        sandbox: sandboxSchema.partial().default({}),
+        pushGuard: pushGuardSchema.partial().default({}),
+      })
+      .strict()
+      .prefault({}),
+    repositories: z.array(repositorySchema).min(1),
+    polling: z
+      .object({ intervalMs: positiveInt.default(60_000) })
+      .strict()
+      .prefault({}),
+    worker: z
+      .object({
+        maxConcurrency: positiveInt.default(3),
+        maxQueueDepth: nonNegativeInt.default(50),
+      })
+      .strict()
+      .prefault({}),
+    claude: z
+      .object({
+        allowedTools: z.array(name).default([]),
+        progressIntervalMs: positiveInt.default(30_000),
+      })
+      .strict()
+      .prefault({}),
+    budget: z
+      .object({
+        runTimeoutMs: nonNegativeInt.default(3_600_000),
+        maxTurns: nonNegativeInt.default(0),
+        maxTaskCostUsd: nonNegativeNumber.default(0),
+        dailyBudgetUsd: nonNegativeNumber.default(0),
+      })
+      .strict()
+      .prefault({}),
+    verification: z
+      .object({
+        commands: z.array(name).default([]),
+        commandTimeoutMs: positiveInt.default(600_000),
+        maxRepairAttempts: nonNegativeInt.default(2),
+      })
+      .strict()
+      .prefault({}),
+    state: z
+      .object({
+        backend: z.enum(["json", "memory"]).default("json"),
+        filePath: name.default(".state/orchestrator.json"),
+      })
+      .strict()
+      .prefault({}),
+    webhook: z
+      .object({
+        enabled: booleanFlag.default(false),
+        port: positiveInt.default(3000),
+        path: z.string().startsWith("/").default("/webhook"),
+        secret: z.string().default(""),
+      })
+      .strict()
+      .prefault({}),
+    monitoring: z
+      .object({
+        enabled: booleanFlag.default(false),
+        port: positiveInt.default(9090),
+      })
+      .strict()
+      .prefault({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    // 署名検証なしで受け付けないよう、有効時はシークレットを必須にする
+    if (config.webhook.enabled && !config.webhook.secret) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["webhook", "secret"],
+        message: "Webhook を有効にする場合は必須です",
+      });
+    }
+    if (
+      config.webhook.enabled &&
+      config.monitoring.enabled &&
+      config.webhook.port === config.monitoring.port
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["monitoring", "port"],
+        message: "Webhook のポートとは別のポートを指定してください",
+      });
+    }
+
+    // 偽のエージェントはシナリオファイルがないと動かない。
+    // runner を指定した側（リポジトリか defaults）の項目として報告する
+    const scriptMissing = new Set<string>();
+    config.repositories.forEach((r, i) => {
+      const agent = { ...config.defaults.agent, ...r.agent };
+      if (agent.runner !== "fake" || agent.script) return;
+      const issuePath = r.agent?.runner
+        ? ["repositories", i, "agent", "runner"]
+        : ["defaults", "agent", "runner"];
+      const key = issuePath.join(".");
+      if (scriptMissing.has(key)) return;
+      scriptMissing.add(key);
+      ctx.addIssue({
+        code: "custom",
+        path: issuePath,
+        message: "fake の場合は agent.script（シナリオファイル）が必須です",
+      });
+    });
+
+    // 隔離の組み合わせの不備も、値を指定した側（リポジトリか defaults）の項目として報告する
+    const sandboxIssues = new Set<string>();
+    const reportSandbox = (
+      i: number,
+      field: keyof SandboxConfig,
+      message: string
+    ) => {
+      const issuePath = config.repositories[i]!.sandbox?.[field]
+        ? ["repositories", i, "sandbox", field]
+        : ["defaults", "sandbox", field];
+      const key = issuePath.join(".");
+      if (sandboxIssues.has(key)) return;
+      sandboxIssues.add(key);
+      ctx.addIssue({ code: "custom", path: issuePath, message });
+    };
+    config.repositories.forEach((r, i) => {
+      const sandbox = {
+        ...DEFAULT_SANDBOX,
+        ...config.defaults.sandbox,
+        ...r.sandbox,
+      };
+      if (sandbox.mode === "container" && !sandbox.image) {
+        reportSandbox(
+          i,
+          "mode",
+          "container の場合は sandbox.image（コンテナのイメージ）が必須です"
+        );
+      }
+      if (sandbox.mode === "none" && sandbox.network === "deny") {
+        reportSandbox(
+          i,
+          "network",
+          "deny は sandbox.mode が bubblewrap または container の場合のみ指定できます"
+        );
+      }
+    });
+
+    const names = config.repositories.map((r) => r.repo.toLowerCase());
+    names.forEach((n, i) => {
+      if (names.indexOf(n) !== i) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["repositories", i, "repo"],
+          message: `${n} が重複しています`,
+        });
+      }
+    });
+  });
+
+type RawConfig = Record<string, unknown>;
+
+/** 各設定値の出どころ（エラーメッセージ用） */
+type Sources = Map<string, string>;
+
+/**
+ * 設定を読み込んで検証する。
+ * 環境変数の上に CONFIG_FILE（YAML / JSON）の値を重ね、スキーマに合わない項目はまとめてエラーにする。
+ */
+export function loadConfig(): Config {
+  const sources: Sources = new Map();
+  const raw = readEnv(sources);
+
+  const configFile = process.env["CONFIG_FILE"];
+  if (configFile) {
+    const sourceName = `設定ファイル ${configFile}`;
+    mergeInto(raw, readConfigFile(configFile), sourceName, sources);
   }
-  return value;
+
+  return parseConfig(raw, sources);
 }
 
-export function loadConfig(): Config {
-  const repo = requireEnv("GITHUB_REPO"); // "owner/repo" 形式
-  const [owner, repoName] = repo.split("/");
-  if (!owner || !repoName) {
-    throw new Error(
-      "GITHUB_REPO は 'owner/repo' 形式で指定してください"
-    );
+/**
+ * 設定の値（環境変数・設定ファイルを重ねたもの）を検証し、省略した項目を既定値で補う。
+ * sources には各項目の出どころを渡し、エラーメッセージに含める。
+ */
+export function parseConfig(
+  raw: unknown,
+  sources: Sources = new Map()
+): Config {
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => {
+      const key = issue.path.join(".");
+      const source = findSource(sources, key);
+      const origin = source ? `（${source}）` : "";
+      return `  - ${key || "(ルート)"}${origin}: ${issue.message}`;
+    });
+    throw new Error(`設定が不正です:\n${details.join("\n")}`);
   }
 
+  const parsed = result.data;
+  const { defaults } = parsed;
   return {
-    github: {
-      token: requireEnv("GITHUB_TOKEN"),
-      owner,
-      repo: repoName,
-    },
-    polling: {
-      intervalMs: parseInt(process.env["POLLING_INTERVAL_MS"] ?? "60000", 10),
-    },
-    worker: {
-      maxConcurrency: parseInt(process.env["MAX_CONCURRENCY"] ?? "3", 10),
-    },
-    claude: {
-      allowedTools: (process.env["CLAUDE_ALLOWED_TOOLS"] ?? "")
-        .split(",")
-        .map((t) => t.trim())
-        .filter(Boolean),
-    },
+    github: parsed.github,
+    repositories: parsed.repositories.map((entry): RepoConfig => {
+      const [owner, repo] = entry.repo.split("/") as [string, string];
+      return {
+        fullName: entry.repo,
+        owner,
+        repo,
+        localPath: path.resolve(
+          entry.localPath ?? path.join(".repos", owner, repo)
+        ),
+        baseBranch: entry.baseBranch ?? defaults.baseBranch,
+        branchPrefix: entry.branchPrefix ?? defaults.branchPrefix,
+        labels: { ...DEFAULT_LABELS, ...defaults.labels, ...entry.labels },
+        authorization: {
+          ...DEFAULT_AUTHORIZATION,
+          ...defaults.authorization,
+          ...entry.authorization,
+        },
+        contextFiles: entry.contextFiles ?? defaults.contextFiles,
+        maxConcurrency: entry.maxConcurrency ?? parsed.worker.maxConcurrency,
+        autoRebase: entry.autoRebase ?? defaults.autoRebase,
+        ciFixMaxAttempts: entry.ciFixMaxAttempts ?? defaults.ciFixMaxAttempts,
+        agent: { ...DEFAULT_AGENT, ...defaults.agent, ...entry.agent },
+        sandbox: resolveSandbox({
+          ...DEFAULT_SANDBOX,
+          ...defaults.sandbox,
+          ...entry.sandbox,
+        }),
+        pushGuard: {
+          ...DEFAULT_PUSH_GUARD,
+          ...defaults.pushGuard,
+          ...entry.pushGuard,
+        },
+      };
+    }),
+    polling: parsed.polling,
+    worker: parsed.worker,
+    claude: parsed.claude,
+    budget: parsed.budget,
+    verification: parsed.verification,
+    state: parsed.state,
+    webhook: parsed.webhook,
+    monitoring: parsed.monitoring,
   };
 }
+
+/**
+ * 再読み込みした設定を稼働中の設定オブジェクトに反映する。
+ * 各コンポーネントは同じオブジェクトを参照しているため、次のタスク・ポーリングから新しい値が使われる。
+ * 再起動しないと反映できない項目は変更せず、その名前を返す。
+ */
+export function applyConfig(current: Config, next: Config): string[] {
+  const restartRequired: string[] = [];
+
+  for (const key of [
+    "github",
+    "state",
+    "webhook",
+    "monitoring",
+  ] as const) {
+    if (!isDeepStrictEqual(current[key], next[key])) {
+      restartRequired.push(key);
+    }
+  }
+
+  const nextRepos = new Map(next.repositories.map((r) => [r.fullName, r]));
+  if (
+    current.repositories.length !== nextRepos.size ||
+    current.repositories.some((r) => !nextRepos.has(r.fullName))
+  ) {
+    restartRequired.push("repositories（追加・削除）");
+  }
+  for (const repo of current.repositories) {
+    const updated = nextRepos.get(repo.fullName);
+    if (!updated) continue;
+    if (updated.localPath !== repo.localPath) {
+      restartRequired.push(`repositories.${repo.fullName}.localPath`);
+    }
+    // エージェントは起動時にリポジトリごとに生成するため差し替えない
+    if (!isDeepStrictEqual(updated.agent, repo.agent)) {
+      restartRequired.push(`repositories.${repo.fullName}.agent`);
+    }
+    Object.assign(repo, {
+      ...updated,
+      localPath: repo.localPath,
+      agent: repo.agent,
+    });
+  }
+
+  Object.assign(current.polling, next.polling);
+  Object.assign(current.worker, next.worker);
+  Object.assign(current.claude, next.claude);
+  Object.assign(current.budget, next.budget);
+  Object.assign(current.verification, next.verification);
+
+  return restartRequired;
+}
+
+/** 隔離の設定のパスを絶対パスにそろえる（~ はホームディレクトリとして扱う） */
+function resolveSandbox(sandbox: SandboxConfig): SandboxConfig {
+  const dir = sandbox.claudeConfigDir.replace(/^~(?=$|\/)/, homedir());
+  return { ...sandbox, claudeConfigDir: path.resolve(dir) };
+}
+
+/** 環境変数から設定の下地を作る */
+function readEnv(sources: Sources): RawConfig {
+  const raw: RawConfig = {};
+
+  for (const [envName, key] of ENV_VARS) {
+    const value = process.env[envName];
+    if (!value) continue;
+    setPath(
+      raw,
+      key,
+      LIST_ENV_VARS.has(envName)
+        ? value
+            .split(",")
+            .map((v) => v.trim())
+            .filter(Boolean)
+        : value
+    );
+    sources.set(key, `環境変数 ${envName}`);
+  }
+
+  // REPOSITORIES_FILE が優先。なければ GITHUB_REPO の1件をカレントディレクトリのクローンとして扱う
+  const repositoriesFile = process.env["REPOSITORIES_FILE"];
+  const githubRepo = process.env["GITHUB_REPO"];
+  if (repositoriesFile) {
+    raw["repositories"] = readConfigFile(repositoriesFile);
+    sources.set("repositories", `REPOSITORIES_FILE ${repositoriesFile}`);
+  } else if (githubRepo) {
+    raw["repositories"] = [{ repo: githubRepo, localPath: process.cwd() }];
+    sources.set("repositories", "環境変数 GITHUB_REPO");
+  }
+
+  return raw;
+}
+
+/** YAML / JSON の設定ファイルを読み込む（JSON は YAML として読める） */
+function readConfigFile(filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    throw new Error(`設定ファイル ${filePath} が見つかりません`);
+  }
+  try {
+    return parseYaml(readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `設定ファイル ${filePath} を読み込めません: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/** 設定ファイルの値を重ねる（オブジェクトは項目ごと、配列は丸ごと置き換える） */
+function mergeInto(
+  target: RawConfig,
+  source: unknown,
+  sourceName: string,
+  sources: Sources,
+  prefix = ""
+): void {
+  if (!isPlainObject(source)) {
+    if (source !== null && source !== undefined) {
+      throw new Error(`${sourceName} の内容はオブジェクトで記述してください`);
+    }
+    return;
+  }
+
+  for (const [key, value] of Object.entries(source)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      // 未知のキーはオブジェクト自体の項目として報告されるため、オブジェクトにも出どころを残す
+      if (!sources.has(fullKey)) sources.set(fullKey, sourceName);
+      mergeInto(
+        target[key] as RawConfig,
+        value,
+        sourceName,
+        sources,
+        fullKey
+      );
+    } else {
+      target[key] = value;
+      sources.set(fullKey, sourceName);
+    }
+  }
+}
+
+/** エラーになった項目の出どころを、最も近い親の項目までさかのぼって探す */
+function findSource(sources: Sources, key: string): string | undefined {
+  const parts = key.split(".");
+  while (parts.length > 0) {
+    const source = sources.get(parts.join("."));
+    if (source) return source;
+    parts.pop();
+  }
+  return undefined;
+}
+
+function setPath(target: RawConfig, key: string, value: unknown): void {
+  const parts = key.split(".");
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(node[part])) node[part] = {};
+    node = node[part] as RawConfig;
+  }
+  node[parts[parts.length - 1]!] = value;
+}
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
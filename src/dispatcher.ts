@@ -0,0 +1,440 @@
+import { createChildLogger } from "./logger.js";
+import { WorkerPool, TASK_PRIORITY, isInterrupted } from "./worker-pool.js";
+import { TaskHandler } from "./task-handler.js";
+import { ReviewHandler } from "./review-handler.js";
+import { RebaseHandler } from "./rebase-handler.js";
+import { CiFixHandler } from "./ci-fix-handler.js";
+import { BudgetTracker } from "./budget.js";
+import type { Authorizer } from "./authorization.js";
+import type { ProcessedComments } from "./processed-comments.js";
+import { issueTaskId } from "./repository.js";
+import { isCommand } from "./commands.js";
+import type {
+  CiCheck,
+  PullRequestState,
+  RepoConfig,
+  TrackedIssue,
+  ReviewComment,
+} from "./types.js";
+
+const log = createChildLogger("dispatcher");
+
+/** このラベルが付いた Issue は通常の Issue より先に実行する */
+const HIGH_PRIORITY_LABEL = "priority:high";
+
+/**
+ * 検知した Issue・レビューコメントを WorkerPool に投入する（リポジトリごとに1つ）。
+ * Poller と WebhookServer の両方から使われ、同じコメントが両経路で届いても、再起動をまたいでも一度だけ処理する。
+ */
+export class Dispatcher {
+  private workerPool: WorkerPool;
+  private repo: RepoConfig;
+  private taskHandler: TaskHandler;
+  private reviewHandler: ReviewHandler;
+  private rebaseHandler: RebaseHandler;
+  private ciFixHandler: CiFixHandler;
+  private budget: BudgetTracker;
+  private authorizer: Authorizer;
+  private processed: ProcessedComments;
+  /** PR番号 → まだ ReviewHandler に渡していないコメント */
+  private pendingComments: Map<number, ReviewComment[]> = new Map();
+  /** PR番号 → 最後に投入したレビュータスクのID */
+  private latestReviewTask: Map<number, string> = new Map();
+  /** PR番号 → 実行中のレビュータスクのID */
+  private runningReviewTask: Map<number, string> = new Map();
+  /** PR番号 → 自動で追従を試みた時点の "PRの先頭:ベースの先頭"（失敗した状態で繰り返さない） */
+  private rebaseAttempts: Map<number, string> = new Map();
+
+  constructor(
+    workerPool: WorkerPool,
+    repo: RepoConfig,
+    taskHandler: TaskHandler,
+    reviewHandler: ReviewHandler,
+    rebaseHandler: RebaseHandler,
+    ciFixHandler: CiFixHandler,
+    budget: BudgetTracker,
+    authorizer: Authorizer,
+    processed: ProcessedComments
+  ) {
+    this.workerPool = workerPool;
+    this.repo = repo;
+    this.taskHandler = taskHandler;
+    this.reviewHandler = reviewHandler;
+    this.rebaseHandler = rebaseHandler;
+    this.ciFixHandler = ciFixHandler;
+    this.budget = budget;
+    this.authorizer = authorizer;
+    this.processed = processed;
+  }
+
+  /**
+   * auto-implement ラベル付き Issue を投入。
+   * ラベルを付けた利用者に権限がなければ投入しない（ラベルは Authorizer が外す）。
+   * キューに入りきらなかった Issue はラベルが残るので次回のポーリングで再投入される。
+   */
+  async dispatchIssues(issues: TrackedIssue[]): Promise<boolean> {
+    if (this.deferForBudget()) return false;
+
+    for (const issue of issues) {
+      const taskId = issueTaskId(this.repo, issue.number);
+
+      if (this.workerPool.has(taskId)) {
+        log.debug({ taskId }, "タスクは既に処理中");
+        continue;
+      }
+      if (!(await this.authorizer.authorizeIssue(issue))) continue;
+
+      const accepted = await this.workerPool.submit(
+        taskId,
+        "issue",
+        this.repo.fullName,
+        issue.number,
+        (abortSignal) => this.taskHandler.handle(issue, abortSignal),
+        {
+          priority: issue.labels.includes(HIGH_PRIORITY_LABEL)
+            ? TASK_PRIORITY.high
+            : TASK_PRIORITY.normal,
+          exclusiveKey: taskId,
+        }
+      );
+      if (!accepted) {
+        log.warn("実行待ちキューが満杯。次のサイクルでリトライ");
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * レビューコメントを PR ごとにまとめて投入。
+   * 同じ PR のレビュー対応は1件ずつ直列に実行し、実行中に届いたコメントは
+   * 後続の1回の実行にまとめる（セッションは前回の実行から継続される）。
+   * キューに入りきらなかったコメントがあれば false を返す（呼び出し側はカーソルを進めない）。
+   * 投入したコメントはレビュー対応が終わった時点で処理済みにする。
+   */
+  async dispatchReviewComments(comments: ReviewComment[]): Promise<boolean> {
+    // `/auto` コマンドは CommandHandler が処理するので修正の依頼として扱わない。
+    // 処理済みのコメントは除き、編集されたものは別の依頼として扱う
+    const fresh: ReviewComment[] = [];
+    for (const c of comments) {
+      if (isCommand(c.body)) continue;
+      const claimed = this.processed.claim(c.prNumber, commentKey(c), c.body);
+      if (claimed) fresh.push({ ...c, edited: claimed === "edited" });
+    }
+    if (fresh.length === 0) {
+      log.debug("未処理のレビューコメントはありません");
+      return true;
+    }
+
+    // 投入しなかったコメントは次回また受け付ける
+    const queued = new Set<ReviewComment>();
+    try {
+      return await this.queueReviewComments(fresh, queued);
+    } finally {
+      for (const c of fresh) {
+        if (!queued.has(c)) this.processed.release(c.prNumber, commentKey(c));
+      }
+    }
+  }
+
+  private async queueReviewComments(
+    fresh: ReviewComment[],
+    queued: Set<ReviewComment>
+  ): Promise<boolean> {
+    if (this.deferForBudget()) return false;
+
+    // 権限のない利用者のコメントは修正の依頼として扱わない（判定を繰り返さないよう処理済みにする）。
+    // オーケストレータ自身の返信・通知コメントも、修正の依頼として拾い直さない
+    const authorized: ReviewComment[] = [];
+    for (const comment of fresh) {
+      if (await this.authorizer.isSelf(comment.user)) {
+        await this.markProcessed(comment, queued);
+        continue;
+      }
+      const allowed = await this.authorizer.authorize(
+        comment.user,
+        "review",
+        comment.prNumber
+      );
+      if (allowed) {
+        authorized.push(comment);
+      } else {
+        await this.markProcessed(comment, queued);
+      }
+    }
+
+    // PR番号ごとにグループ化
+    const byPR = new Map<number, ReviewComment[]>();
+    for (const comment of authorized) {
+      const existing = byPR.get(comment.prNumber) ?? [];
+      existing.push(comment);
+      byPR.set(comment.prNumber, existing);
+    }
+
+    for (const [prNumber, prComments] of byPR) {
+      // 空きがあれば submit の中で実行が始まるため、先にコメントを渡せる状態にしておく
+      const buffered = this.pendingComments.get(prNumber) ?? [];
+      buffered.push(...prComments);
+      this.pendingComments.set(prNumber, buffered);
+
+      const latestTaskId = this.latestReviewTask.get(prNumber);
+      const hasQueuedRun =
+        latestTaskId !== undefined &&
+        this.workerPool.statusOf(latestTaskId) === "pending";
+
+      if (!hasQueuedRun) {
+        const taskId = `${this.repo.fullName}#review-${prNumber}-${Date.now()}`;
+        const accepted = await this.workerPool.submit(
+          taskId,
+          "review",
+          this.repo.fullName,
+          prNumber,
+          (abortSignal) => this.runReview(taskId, prNumber, abortSignal),
+          {
+            prNumber,
+            priority: TASK_PRIORITY.review,
+            exclusiveKey: `${this.repo.fullName}#pr-${prNumber}`,
+          }
+        );
+        if (!accepted) {
+          buffered.splice(-prComments.length);
+          if (buffered.length === 0) this.pendingComments.delete(prNumber);
+          log.warn("実行待ちキューが満杯。次のサイクルでリトライ");
+          return false;
+        }
+        this.latestReviewTask.set(prNumber, taskId);
+      } else {
+        log.info(
+          { prNumber, taskId: latestTaskId, commentCount: prComments.length },
+          "実行待ちのレビュータスクにコメントをまとめる"
+        );
+      }
+
+      // 処理中のまま保持し、レビュー対応が終わってから処理済みにする
+      for (const c of prComments) queued.add(c);
+    }
+    return true;
+  }
+
+  /**
+   * PR に、まだ対応を終えていない（実行待ち・実行中の）レビューコメントがあるか。
+   * ある間はポーリングのカーソルを進めず、再起動で失われても次回のポーリングで拾い直せるようにする。
+   */
+  hasUnfinishedReview(prNumber: number): boolean {
+    return (
+      this.pendingComments.has(prNumber) ||
+      this.runningReviewTask.has(prNumber)
+    );
+  }
+
+  /**
+   * ベースブランチが進んだ PR の追従を、リポジトリの autoRebase の設定に従って投入する。
+   * 同じ PR の先頭・ベースの組み合わせでは一度しか試みない（失敗しても次のコミットまで待つ）。
+   */
+  async dispatchStalePullRequests(prs: PullRequestState[]): Promise<void> {
+    const { autoRebase } = this.repo;
+    if (autoRebase === "off") return;
+
+    for (const pr of prs) {
+      const stale =
+        pr.mergeableState === "dirty" ||
+        (autoRebase === "behind" && pr.mergeableState === "behind");
+      if (!stale) continue;
+
+      const attempt = `${pr.headSha}:${pr.baseSha}`;
+      if (this.rebaseAttempts.get(pr.number) === attempt) continue;
+
+      log.info(
+        { prNumber: pr.number, mergeableState: pr.mergeableState },
+        "ベースブランチが進んだPRを検知"
+      );
+      if (await this.dispatchRebase(pr.number)) {
+        this.rebaseAttempts.set(pr.number, attempt);
+      }
+    }
+  }
+
+  /**
+   * PR をベースブランチに追従させるタスクを投入（キューに入らなければ false）。
+   * requestedBy は `/auto rebase` を投稿した利用者。
+   */
+  async dispatchRebase(
+    prNumber: number,
+    requestedBy?: string
+  ): Promise<boolean> {
+    if (this.deferForBudget()) return false;
+
+    return this.workerPool.submit(
+      this.rebaseTaskId(prNumber),
+      "rebase",
+      this.repo.fullName,
+      prNumber,
+      (abortSignal) =>
+        this.rebaseHandler.handle(prNumber, abortSignal, requestedBy),
+      {
+        prNumber,
+        priority: TASK_PRIORITY.maintenance,
+        exclusiveKey: `${this.repo.fullName}#pr-${prNumber}`,
+      }
+    );
+  }
+
+  /** PR の追従タスクのID */
+  rebaseTaskId(prNumber: number): string {
+    return `${this.repo.fullName}#rebase-${prNumber}`;
+  }
+
+  /** PR の追従タスクをキャンセル（実行中・実行待ちのタスクがなければ false） */
+  cancelRebase(prNumber: number): boolean {
+    return this.workerPool.cancel(this.rebaseTaskId(prNumber));
+  }
+
+  /**
+   * PR の先頭のコミットで失敗した CI のチェックを修正するタスクを投入する。
+   * 修正タスクが既にあるか、キューに入らなければ false（試行回数に数えない）。
+   * attempt はこの PR で続けて自動修正を試みた回数（今回を含む）。
+   */
+  async dispatchCiFix(
+    pr: PullRequestState,
+    checks: CiCheck[],
+    attempt: number
+  ): Promise<boolean> {
+    const taskId = this.ciFixTaskId(pr.number);
+    if (this.workerPool.has(taskId)) return false;
+    if (this.deferForBudget()) return false;
+
+    return this.workerPool.submit(
+      taskId,
+      "ci-fix",
+      this.repo.fullName,
+      pr.number,
+      (abortSignal) =>
+        this.ciFixHandler.handle(
+          pr.number,
+          pr.headSha,
+          checks,
+          attempt,
+          abortSignal
+        ),
+      {
+        prNumber: pr.number,
+        priority: TASK_PRIORITY.normal,
+        exclusiveKey: `${this.repo.fullName}#pr-${pr.number}`,
+      }
+    );
+  }
+
+  /** PR の CI の修正タスクのID */
+  ciFixTaskId(prNumber: number): string {
+    return `${this.repo.fullName}#ci-fix-${prNumber}`;
+  }
+
+  /** PR の CI の修正タスクをキャンセル（実行中・実行待ちのタスクがなければ false） */
+  cancelCiFix(prNumber: number): boolean {
+    return this.workerPool.cancel(this.ciFixTaskId(prNumber));
+  }
+
+  /** PR のレビュータスクのID（実行中のものを優先し、なければ最後に投入したもの） */
+  reviewTaskId(prNumber: number): string | undefined {
+    return (
+      this.runningReviewTask.get(prNumber) ??
+      this.latestReviewTask.get(prNumber)
+    );
+  }
+
+  /** Issue の実装タスクをキャンセル（実行中・実行待ちのタスクがなければ false） */
+  cancelIssue(issueNumber: number): boolean {
+    return this.workerPool.cancel(issueTaskId(this.repo, issueNumber));
+  }
+
+  /**
+   * PR の実行中・実行待ちのレビュータスクをキャンセルし、まだ渡していないコメントも破棄する
+   * （処理済みにして拾い直さない。キャンセルするタスクがなければ false）。
+   */
+  cancelReview(prNumber: number): boolean {
+    const taskIds = new Set([
+      this.runningReviewTask.get(prNumber),
+      this.latestReviewTask.get(prNumber),
+    ]);
+    let cancelled = false;
+    for (const taskId of taskIds) {
+      if (taskId !== undefined && this.workerPool.cancel(taskId)) {
+        cancelled = true;
+      }
+    }
+    if (cancelled) {
+      const discarded = this.pendingComments.get(prNumber) ?? [];
+      this.pendingComments.delete(prNumber);
+      this.completeComments(discarded).catch((err) => {
+        log.error({ err, prNumber }, "破棄したコメントの記録に失敗");
+      });
+    }
+    return cancelled;
+  }
+
+  /** 実行開始時点までに溜まったコメントをまとめて ReviewHandler に渡す */
+  private async runReview(
+    taskId: string,
+    prNumber: number,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const comments = this.pendingComments.get(prNumber) ?? [];
+    this.pendingComments.delete(prNumber);
+
+    if (comments.length === 0) {
+      log.debug({ prNumber }, "対応するコメントがないためスキップ");
+      return;
+    }
+
+    this.runningReviewTask.set(prNumber, taskId);
+    try {
+      await this.reviewHandler.handle(prNumber, comments, abortSignal);
+    } finally {
+      if (isInterrupted(abortSignal)) {
+        // シャットダウンで中断したコメントは処理済みにせず、再起動後のポーリングで拾い直す
+        for (const c of comments) {
+          this.processed.release(c.prNumber, commentKey(c));
+        }
+      } else {
+        // 失敗・キャンセルしたコメントも、同じコメントで繰り返さないよう処理済みにする
+        await this.completeComments(comments);
+      }
+      this.runningReviewTask.delete(prNumber);
+    }
+  }
+
+  /** 日次予算を使い切っている間は新しいタスクを投入せず、予算が回復してから拾い直す */
+  private deferForBudget(): boolean {
+    if (!this.budget.isDailyBudgetExhausted) return false;
+    log.warn(
+      { dailySpendUsd: this.budget.dailySpendUsd },
+      "日次予算を使い切っているためタスクの投入を保留"
+    );
+    return true;
+  }
+
+  /** レビュー対応を終えた（または破棄した）コメントを処理済みにする */
+  private async completeComments(comments: ReviewComment[]): Promise<void> {
+    for (const c of comments) {
+      await this.processed.complete(c.prNumber, commentKey(c), c.body);
+    }
+  }
+
+  /** 修正の依頼として扱わないコメントを処理済みにする */
+  private async markProcessed(
+    comment: ReviewComment,
+    queued: Set<ReviewComment>
+  ): Promise<void> {
+    queued.add(comment);
+    await this.processed.complete(
+      comment.prNumber,
+      commentKey(comment),
+      comment.body
+    );
+  }
+}
+
+/** 処理済みの記録のキー（行コメント・レビュー・会話タブのコメントは ID の系列が別） */
+function commentKey(comment: ReviewComment): string {
+  return `${comment.kind}-${comment.id}`;
+}
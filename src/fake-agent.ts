@@ -0,0 +1,229 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { setTimeout as delay } from "node:timers/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { createChildLogger } from "./logger.js";
+import { SessionNotFoundError } from "./claude.js";
+import type { AgentRunner, AgentRunOptions } from "./agent-runner.js";
+import type { ClaudeResult, ClaudeStreamEvent } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("fake-agent");
+
+/**
+ * 実行を始めたセッション（プロセス内の全ランナーで共有する）。
+ * Claude Code CLI と同じく、一度も実行していないセッションは継続できない。
+ */
+const startedSessions: Set<string> = new Set();
+
+/** 偽のエージェントがセッションの実行を始めたか（E2E テストで実行中に落とす時機を計るのに使う） */
+export function hasStartedSession(sessionId: string): boolean {
+  return startedSessions.has(sessionId);
+}
+
+const name = z.string().min(1);
+
+/** worktree のファイルへの変更（path は worktree からの相対パス） */
+const editSchema = z.union([
+  z.object({ path: name, content: z.string() }).strict(),
+  z.object({ path: name, append: z.string() }).strict(),
+  z.object({ path: name, delete: z.literal(true) }).strict(),
+]);
+
+/** 実行中に通知するイベント（init と result は自動で通知する） */
+const eventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }).strict(),
+  z
+    .object({
+      type: z.literal("tool-use"),
+      name,
+      input: z.record(z.string(), z.unknown()).default({}),
+    })
+    .strict(),
+]);
+
+const stepSchema = z
+  .object({
+    /** プロンプトがこの正規表現に一致する場合に使う（省略するとどのプロンプトにも使う） */
+    match: z.string().optional(),
+    /** 一度使ったステップも繰り返し使う */
+    repeat: z.boolean().default(false),
+    edits: z.array(editSchema).default([]),
+    /** 変更をこのメッセージで git commit する（省略するとコミットしない） */
+    commit: z.string().optional(),
+    events: z.array(eventSchema).default([]),
+    /** 最終応答のテキスト */
+    result: z.string().default(""),
+    isError: z.boolean().default(false),
+    subtype: z.string().default("success"),
+    exitCode: z.number().int().default(0),
+    costUsd: z.number().nonnegative().default(0),
+    numTurns: z.number().int().nonnegative().default(1),
+    /** 結果を返すまで待つ時間（キャンセル・制限時間の確認用） */
+    delayMs: z.number().int().nonnegative().default(0),
+  })
+  .strict();
+
+const scriptSchema = z.object({ steps: z.array(stepSchema).min(1) }).strict();
+
+type FakeStep = z.infer<typeof stepSchema>;
+
+/**
+ * シナリオファイルに書かれた変更・出力を再生する偽のエージェント（オフラインでの動作確認用）。
+ * 実行のたびに、プロンプトに一致する未使用のステップを先頭から探して1つ使う。
+ * ステップのファイル変更を worktree に適用してコミットし、イベントと結果を Claude Code CLI と同じ形で返す。
+ * シナリオは最初の実行時に読み込み、使ったステップの記録はプロセスが終わるまで保持する。
+ */
+export class FakeAgentRunner implements AgentRunner {
+  readonly name = "fake";
+  private scriptPath: string;
+  private script: Promise<FakeStep[]> | undefined;
+  /** 使用済みのステップの番号 */
+  private used: Set<number> = new Set();
+
+  constructor(scriptPath: string) {
+    this.scriptPath = scriptPath;
+  }
+
+  async run(options: AgentRunOptions): Promise<ClaudeResult> {
+    const { prompt, cwd, abortSignal, onEvent } = options;
+    const startedAt = Date.now();
+    const steps = await (this.script ??= this.load());
+
+    if (
+      options.resumeSessionId &&
+      !startedSessions.has(options.resumeSessionId)
+    ) {
+      throw new SessionNotFoundError(options.resumeSessionId);
+    }
+
+    const index = steps.findIndex(
+      (step, i) =>
+        (step.repeat || !this.used.has(i)) &&
+        (step.match === undefined || new RegExp(step.match).test(prompt))
+    );
+    if (index === -1) {
+      throw new Error(
+        `シナリオ ${this.scriptPath} にプロンプトに一致するステップがありません`
+      );
+    }
+    this.used.add(index);
+    const step = steps[index]!;
+    const sessionId =
+      options.resumeSessionId ?? options.sessionId ?? randomUUID();
+    startedSessions.add(sessionId);
+
+    log.info(
+      { cwd, step: index, sessionId, hasResume: !!options.resumeSessionId },
+      "偽のエージェントを実行中"
+    );
+    if (abortSignal?.aborted) {
+      throw new Error("実行前にキャンセルされました");
+    }
+
+    const emit = (event: ClaudeStreamEvent) => {
+      try {
+        onEvent?.(event);
+      } catch (err) {
+        log.warn(
+          { err, eventType: event.type },
+          "ストリームイベントの処理に失敗"
+        );
+      }
+    };
+    emit({ type: "init", sessionId, model: "fake" });
+    for (const event of step.events) emit(event);
+
+    if (step.delayMs > 0) {
+      try {
+        await delay(step.delayMs, undefined, { signal: abortSignal });
+      } catch {
+        throw new Error("偽のエージェントの実行がキャンセルされました");
+      }
+    }
+
+    await this.applyEdits(cwd, step);
+    emit({
+      type: "result",
+      sessionId,
+      isError: step.isError,
+      costUsd: step.costUsd,
+      numTurns: step.numTurns,
+    });
+
+    const durationMs = Date.now() - startedAt;
+    return {
+      exitCode: step.exitCode,
+      stdout: JSON.stringify({
+        type: "result",
+        subtype: step.subtype,
+        is_error: step.isError,
+        result: step.result,
+        session_id: sessionId,
+        total_cost_usd: step.costUsd,
+        num_turns: step.numTurns,
+        duration_ms: durationMs,
+      }),
+      stderr: "",
+      sessionId,
+      resultText: step.result,
+      isError: step.isError,
+      subtype: step.subtype,
+      costUsd: step.costUsd,
+      numTurns: step.numTurns,
+      durationMs,
+    };
+  }
+
+  /** ステップのファイル変更を適用し、指定があればコミットする */
+  private async applyEdits(cwd: string, step: FakeStep): Promise<void> {
+    for (const edit of step.edits) {
+      const filePath = path.resolve(cwd, edit.path);
+      if (path.relative(cwd, filePath).startsWith("..")) {
+        throw new Error(`worktree の外のファイルは変更できません: ${edit.path}`);
+      }
+
+      if ("delete" in edit) {
+        await rm(filePath, { force: true });
+        continue;
+      }
+      await mkdir(path.dirname(filePath), { recursive: true });
+      if ("append" in edit) {
+        await appendFile(filePath, edit.append);
+      } else {
+        await writeFile(filePath, edit.content);
+      }
+    }
+
+    if (step.commit !== undefined) {
+      await execFileAsync("git", ["add", "-A"], { cwd });
+      await execFileAsync("git", ["commit", "-m", step.commit], { cwd });
+    }
+  }
+
+  private async load(): Promise<FakeStep[]> {
+    let raw: unknown;
+    try {
+      raw = parseYaml(await readFile(this.scriptPath, "utf-8"));
+    } catch (err) {
+      throw new Error(
+        `偽のエージェントのシナリオ ${this.scriptPath} を読み込めません: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+
+    const result = scriptSchema.safeParse(raw);
+    if (!result.success) {
+      const details = result.error.issues.map(
+        (issue) => `  - ${issue.path.join(".") || "(ルート)"}: ${issue.message}`
+      );
+      throw new Error(
+        `偽のエージェントのシナリオ ${this.scriptPath} が不正です:\n${details.join("\n")}`
+      );
+    }
+    return result.data.steps;
+  }
+}
@@ -0,0 +1,288 @@
+import "dotenv/config";
+import { readFile } from "node:fs/promises";
+import { createServer, type IncomingMessage } from "node:http";
+
+/**
+ * CI の自動修正を GitHub に触れずに試すための、GitHub API のうち PR・チェックの部分の偽物。
+ *
+ * 使い方: npm run checks:fake -- fixtures/checks/failing.json
+ * オーケストレータは GITHUB_API_URL=http://localhost:4010（FAKE_GITHUB_PORT で変更可）で起動する。
+ *
+ * シナリオファイルはリクエストのたびに読み直すので、起動したまま CI の結果や PR の先頭のコミットを書き換えられる。
+ * PR へのコメント・ラベルの操作は標準出力に表示し、ラベルはこのプロセスの中でだけ反映する。
+ * 対応していない GET は空の一覧を返す（Issue・コメントのポーリングを空振りさせる）。
+ */
+interface Scenario {
+  /** GITHUB_TOKEN の持ち主として返すユーザー名 */
+  login?: string;
+  pullRequests: Array<{
+    number: number;
+    branch: string;
+    headSha: string;
+    baseSha?: string;
+    mergeableState?: string;
+    labels?: string[];
+  }>;
+  checkRuns?: Array<{
+    /** GitHub Actions のジョブIDを兼ねる */
+    id: number;
+    headSha: string;
+    name: string;
+    status?: "queued" | "in_progress" | "completed";
+    conclusion?: string;
+    app?: string;
+    output?: { title?: string; summary?: string; text?: string };
+    detailsUrl?: string;
+    /** ジョブのログ */
+    log?: string;
+  }>;
+  statuses?: Array<{
+    headSha: string;
+    context: string;
+    state: "error" | "failure" | "pending" | "success";
+    description?: string;
+    targetUrl?: string;
+  }>;
+}
+
+type Route = [
+  method: string,
+  pattern: RegExp,
+  handle: (scenario: Scenario, params: string[], body: unknown) => Response,
+];
+
+interface Response {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/** PR番号 → ラベル（コメント・ラベルの操作を反映した状態。初めて参照したときにシナリオから作る） */
+const labels = new Map<number, Set<string>>();
+let nextCommentId = 1;
+
+const routes: Route[] = [
+  [
+    "GET",
+    /^\/user$/,
+    (s) => ({ body: { login: s.login ?? "orchestrator-bot" } }),
+  ],
+  [
+    "GET",
+    /^\/repos\/[^/]+\/[^/]+\/pulls$/,
+    (s) => ({ body: s.pullRequests.map((pr) => pullRequest(pr)) }),
+  ],
+  [
+    "GET",
+    /^\/repos\/[^/]+\/[^/]+\/pulls\/(\d+)$/,
+    (s, [n]) => {
+      const pr = s.pullRequests.find((p) => p.number === Number(n));
+      return pr ? { body: pullRequest(pr) } : notFound();
+    },
+  ],
+  [
+    "GET",
+    /^\/repos\/[^/]+\/[^/]+\/commits\/([^/]+)\/check-runs$/,
+    (s, [ref]) => {
+      const sha = resolveRef(s, ref!);
+      const runs = (s.checkRuns ?? [])
+        .filter((r) => r.headSha === sha)
+        .map((r) => ({
+          id: r.id,
+          head_sha: r.headSha,
+          name: r.name,
+          status: r.status ?? "completed",
+          conclusion:
+            (r.status ?? "completed") === "completed"
+              ? (r.conclusion ?? "success")
+              : null,
+          details_url: r.detailsUrl ?? null,
+          app: { slug: r.app ?? "github-actions" },
+          output: {
+            title: r.output?.title ?? null,
+            summary: r.output?.summary ?? null,
+            text: r.output?.text ?? null,
+          },
+        }));
+      return { body: { total_count: runs.length, check_runs: runs } };
+    },
+  ],
+  [
+    "GET",
+    /^\/repos\/[^/]+\/[^/]+\/commits\/([^/]+)\/status$/,
+    (s, [ref]) => {
+      const sha = resolveRef(s, ref!);
+      const statuses = (s.statuses ?? [])
+        .filter((st) => st.headSha === sha)
+        .map((st) => ({
+          context: st.context,
+          state: st.state,
+          description: st.description ?? null,
+          target_url: st.targetUrl ?? null,
+        }));
+      return {
+        body: {
+          sha,
+          state: statuses.some((st) => st.state !== "success")
+            ? "failure"
+            : "success",
+          total_count: statuses.length,
+          statuses,
+        },
+      };
+    },
+  ],
+  [
+    "GET",
+    /^\/repos\/[^/]+\/[^/]+\/actions\/jobs\/(\d+)\/logs$/,
+    (s, [id]) => {
+      const run = (s.checkRuns ?? []).find((r) => r.id === Number(id));
+      // GitHub と同じくログの保存先へリダイレクトする
+      return run?.log !== undefined
+        ? { status: 302, headers: { Location: `/_logs/${id}` }, body: "" }
+        : notFound();
+    },
+  ],
+  [
+    "GET",
+    /^\/_logs\/(\d+)$/,
+    (s, [id]) => {
+      const run = (s.checkRuns ?? []).find((r) => r.id === Number(id));
+      return run?.log !== undefined
+        ? { headers: { "Content-Type": "text/plain" }, body: run.log }
+        : notFound();
+    },
+  ],
+  [
+    "POST",
+    /^\/repos\/[^/]+\/[^/]+\/issues\/(\d+)\/comments$/,
+    (_s, [n], body) => {
+      const text = (body as { body?: string }).body ?? "";
+      console.log(`\n💬 #${n} へのコメント:\n${text}\n`);
+      return { status: 201, body: { id: nextCommentId++, body: text } };
+    },
+  ],
+  [
+    "POST",
+    /^\/repos\/[^/]+\/[^/]+\/issues\/(\d+)\/labels$/,
+    (s, [n], body) => {
+      const current = labelsOf(s, Number(n));
+      for (const label of (body as { labels?: string[] }).labels ?? []) {
+        current.add(label);
+        console.log(`🏷️  #${n} にラベル ${label} を追加`);
+      }
+      return { body: [...current].map((name) => ({ name })) };
+    },
+  ],
+  [
+    "DELETE",
+    /^\/repos\/[^/]+\/[^/]+\/issues\/(\d+)\/labels\/([^/]+)$/,
+    (s, [n, name]) => {
+      const label = decodeURIComponent(name!);
+      if (!labelsOf(s, Number(n)).delete(label)) return notFound();
+      console.log(`🏷️  #${n} からラベル ${label} を削除`);
+      return { body: [] };
+    },
+  ],
+];
+
+async function main(): Promise<void> {
+  const file = process.argv[2];
+  if (!file) {
+    throw new Error("シナリオファイルを指定してください");
+  }
+  const port = Number(process.env["FAKE_GITHUB_PORT"] ?? "4010");
+
+  const server = createServer((req, res) => {
+    void handleRequest(file, req).then(
+      ({ status = 200, headers = {}, body }) => {
+        const text = typeof body === "string" ? body : JSON.stringify(body);
+        res.writeHead(status, {
+          "Content-Type": "application/json",
+          ...headers,
+        });
+        res.end(text);
+      },
+      (err: unknown) => {
+        console.error(err instanceof Error ? err.message : err);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ message: String(err) }));
+      }
+    );
+  });
+  server.listen(port, () => {
+    console.log(
+      `偽の GitHub API を起動しました: http://localhost:${port}（シナリオ: ${file}）`
+    );
+  });
+
+  const stop = () => server.close(() => process.exit(0));
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+async function handleRequest(
+  file: string,
+  req: IncomingMessage
+): Promise<Response> {
+  const scenario = JSON.parse(await readFile(file, "utf-8")) as Scenario;
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const method = req.method ?? "GET";
+
+  for (const [routeMethod, pattern, handle] of routes) {
+    const match = routeMethod === method ? pattern.exec(pathname) : null;
+    if (match) {
+      return handle(scenario, match.slice(1), await readBody(req));
+    }
+  }
+
+  console.log(`（未対応の API: ${method} ${pathname}）`);
+  return method === "GET" ? { body: [] } : notFound();
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? (JSON.parse(text) as unknown) : {};
+}
+
+function pullRequest(pr: Scenario["pullRequests"][number]): unknown {
+  return {
+    number: pr.number,
+    state: "open",
+    head: { ref: pr.branch, sha: pr.headSha },
+    base: { ref: "main", sha: pr.baseSha ?? "0".repeat(40) },
+    mergeable_state: pr.mergeableState ?? "clean",
+    labels: [...labels.get(pr.number) ?? pr.labels ?? []].map((name) => ({
+      name,
+    })),
+  };
+}
+
+/** ブランチ名で指定されたチェックの対象を PR の先頭のコミットに読み替える */
+function resolveRef(scenario: Scenario, ref: string): string {
+  const name = decodeURIComponent(ref);
+  return (
+    scenario.pullRequests.find((pr) => pr.branch === name)?.headSha ?? name
+  );
+}
+
+function labelsOf(scenario: Scenario, prNumber: number): Set<string> {
+  let current = labels.get(prNumber);
+  if (!current) {
+    const pr = scenario.pullRequests.find((p) => p.number === prNumber);
+    current = new Set(pr?.labels ?? []);
+    labels.set(prNumber, current);
+  }
+  return current;
+}
+
+function notFound(): Response {
+  return { status: 404, body: { message: "Not Found" } };
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,700 @@
+import { execFileSync } from "node:child_process";
+import { once } from "node:events";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { PermissionLevel } from "./types.js";
+
+/**
+ * E2E テスト用の、1つのリポジトリの GitHub API の偽物（同じプロセスの中で動かす）。
+ * GitHubClient が使う Issue・ラベル・コメント・PR・レビューコメント・レビュースレッドの API を、メモリ上の状態で再現する。
+ *
+ * API 経由の書き込みはトークンの持ち主（Bot）の操作として記録し、人の操作はテストから createIssue・addReviewComment などで再現する。
+ * PR の先頭のコミットは originPath のベアリポジトリのブランチから読む。
+ * 対応していない API は 404 を返し、unhandled に記録する（テストで呼び出しの漏れを検出する）。
+ */
+export class FakeGitHub {
+  /** トークンの持ち主のユーザー名 */
+  readonly login: string;
+  /** 対応していない API の呼び出し（"GET /path" 形式） */
+  readonly unhandled: string[] = [];
+  private owner: string;
+  private repo: string;
+  private originPath: string | undefined;
+  private server: Server | null = null;
+  private url = "";
+  private users: Map<string, FakeUser> = new Map();
+  /** Issue・PR（番号は共通） */
+  private issues: Map<number, FakeIssue> = new Map();
+  private comments: FakeComment[] = [];
+  private reviewComments: FakeReviewComment[] = [];
+  /** 解決済みのレビュースレッドの最初のコメントのID */
+  private resolvedThreads: Set<number> = new Set();
+  private nextNumber = 1;
+  private nextCommentId = 1001;
+  private nextReviewCommentId = 5001;
+
+  constructor(options: {
+    owner: string;
+    repo: string;
+    /** PR のブランチを読むベアリポジトリ */
+    originPath?: string;
+    login?: string;
+  }) {
+    this.owner = options.owner;
+    this.repo = options.repo;
+    this.originPath = options.originPath;
+    this.login = options.login ?? "orchestrator-bot";
+    this.users.set(this.login, { type: "Bot" });
+  }
+
+  /** 空いているポートで起動し、API の URL を返す */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      void this.handleRequest(req).then(
+        ({ status = 200, body }) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(body === undefined ? "" : JSON.stringify(body));
+        },
+        (err: unknown) => {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ message: String(err) }));
+        }
+      );
+    });
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    // octokit は接続を使い回すため、待たずに閉じる
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** リポジトリの利用者を登録する（権限を省略するとコラボレーターでない利用者になる） */
+  addUser(login: string, permission?: PermissionLevel): void {
+    this.users.set(login, { type: "User", permission });
+  }
+
+  /** 利用者が Issue を作成し、ラベルを付けた状態にする（Issue番号を返す） */
+  createIssue(params: {
+    title: string;
+    body?: string;
+    author: string;
+    labels?: string[];
+  }): number {
+    const number = this.nextNumber++;
+    this.issues.set(number, {
+      number,
+      title: params.title,
+      body: params.body ?? "",
+      author: params.author,
+      state: "open",
+      labels: new Set(),
+      events: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    for (const label of params.labels ?? []) {
+      this.label(number, label, params.author);
+    }
+    return number;
+  }
+
+  /** 利用者が Issue・PR にラベルを付ける */
+  label(issueNumber: number, label: string, actor: string): void {
+    const issue = this.issue(issueNumber);
+    issue.labels.add(label);
+    issue.events.push({ event: "labeled", label, actor });
+    touch(issue);
+  }
+
+  /** 利用者が Issue・PR の会話タブにコメントする（コメントIDを返す） */
+  comment(issueNumber: number, user: string, body: string): number {
+    return this.addComment(issueNumber, user, body).id;
+  }
+
+  /** 利用者が PR の差分の行にコメントする（inReplyToId を省略すると新しいスレッドになる） */
+  addReviewComment(
+    prNumber: number,
+    params: {
+      user: string;
+      body: string;
+      path: string;
+      line: number;
+      inReplyToId?: number;
+      /** 省略すると連番で割り当てる */
+      id?: number;
+    }
+  ): number {
+    const id = params.id ?? this.nextReviewCommentId;
+    this.nextReviewCommentId = Math.max(this.nextReviewCommentId, id + 1);
+    this.reviewComments.push({
+      id,
+      prNumber,
+      user: params.user,
+      body: params.body,
+      path: params.path,
+      line: params.line,
+      diffHunk: `@@ -${params.line},1 +${params.line},1 @@`,
+      inReplyToId: params.inReplyToId,
+      createdAt: new Date().toISOString(),
+    });
+    touch(this.issue(prNumber));
+    return id;
+  }
+
+  labelsOf(issueNumber: number): string[] {
+    return [...this.issue(issueNumber).labels];
+  }
+
+  /** Issue・PR の会話タブのコメント（古い順） */
+  commentsOn(issueNumber: number): FakeComment[] {
+    return this.comments.filter((c) => c.issueNumber === issueNumber);
+  }
+
+  /** レビュースレッドのコメント（threadRootId はスレッドの最初のコメント） */
+  threadComments(threadRootId: number): FakeReviewComment[] {
+    return this.reviewComments.filter(
+      (c) => c.id === threadRootId || c.inReplyToId === threadRootId
+    );
+  }
+
+  isThreadResolved(threadRootId: number): boolean {
+    return this.resolvedThreads.has(threadRootId);
+  }
+
+  pullRequests(): FakePullRequest[] {
+    return [...this.issues.values()]
+      .filter((i) => i.pull)
+      .map((i) => ({
+        number: i.number,
+        title: i.title,
+        body: i.body,
+        head: i.pull!.head,
+        base: i.pull!.base,
+        state: i.state,
+      }));
+  }
+
+  private async handleRequest(req: IncomingMessage): Promise<Response> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const body = await readBody(req);
+
+    for (const [routeMethod, pattern, handle] of this.routes()) {
+      const match = routeMethod === method ? pattern.exec(url.pathname) : null;
+      if (match) return handle(match.slice(1), url.searchParams, body);
+    }
+
+    this.unhandled.push(`${method} ${url.pathname}`);
+    return notFound();
+  }
+
+  private routes(): Route[] {
+    const repo = `/repos/${this.owner}/${this.repo}`;
+    const path = (pattern: string) => new RegExp(`^${repo}${pattern}$`);
+
+    return [
+      ["GET", /^\/user$/, () => ({ body: this.userJson(this.login) })],
+      [
+        "GET",
+        path("/issues"),
+        (_p, query) => {
+          const state = query.get("state") ?? "open";
+          const labels = (query.get("labels") ?? "").split(",").filter(Boolean);
+          return {
+            body: [...this.issues.values()]
+              .filter((i) => state === "all" || i.state === state)
+              .filter((i) => labels.every((l) => i.labels.has(l)))
+              .map((i) => this.issueJson(i)),
+          };
+        },
+      ],
+      [
+        "GET",
+        path("/issues/comments"),
+        (_p, query) => ({
+          body: this.comments
+            .filter((c) => isSince(c.createdAt, query))
+            .map((c) => this.commentJson(c)),
+        }),
+      ],
+      [
+        "PATCH",
+        path("/issues/comments/(\\d+)"),
+        ([id], _q, body) => {
+          const comment = this.comments.find((c) => c.id === Number(id));
+          if (!comment) return notFound();
+          comment.body = (body as { body: string }).body;
+          touch(this.issue(comment.issueNumber));
+          return { body: this.commentJson(comment) };
+        },
+      ],
+      ["GET", path("/issues/comments/(\\d+)/reactions"), () => ({ body: [] })],
+      [
+        "GET",
+        path("/issues/(\\d+)"),
+        ([n]) => this.withIssue(n!, (i) => ({ body: this.issueJson(i) })),
+      ],
+      [
+        "PATCH",
+        path("/issues/(\\d+)"),
+        ([n], _q, body) =>
+          this.withIssue(n!, (i) => {
+            const { state } = body as { state?: "open" | "closed" };
+            if (state) i.state = state;
+            touch(i);
+            return { body: this.issueJson(i) };
+          }),
+      ],
+      [
+        "GET",
+        path("/issues/(\\d+)/comments"),
+        ([n], query) => ({
+          body: this.commentsOn(Number(n))
+            .filter((c) => isSince(c.createdAt, query))
+            .map((c) => this.commentJson(c)),
+        }),
+      ],
+      [
+        "POST",
+        path("/issues/(\\d+)/comments"),
+        ([n], _q, body) =>
+          this.withIssue(n!, (i) => ({
+            status: 201,
+            body: this.commentJson(
+              this.addComment(i.number, this.login, (body as { body: string }).body)
+            ),
+          })),
+      ],
+      [
+        "GET",
+        path("/issues/(\\d+)/events"),
+        ([n]) =>
+          this.withIssue(n!, (i) => ({
+            body: i.events.map((e) => ({
+              event: e.event,
+              label: { name: e.label },
+              actor: this.userJson(e.actor),
+            })),
+          })),
+      ],
+      [
+        "POST",
+        path("/issues/(\\d+)/labels"),
+        ([n], _q, body) =>
+          this.withIssue(n!, (i) => {
+            for (const label of (body as { labels: string[] }).labels) {
+              this.label(i.number, label, this.login);
+            }
+            return { body: [...i.labels].map((name) => ({ name })) };
+          }),
+      ],
+      [
+        "DELETE",
+        path("/issues/(\\d+)/labels/([^/]+)"),
+        ([n, name]) =>
+          this.withIssue(n!, (i) => {
+            if (!i.labels.delete(decodeURIComponent(name!))) return notFound();
+            touch(i);
+            return { body: [...i.labels].map((label) => ({ name: label })) };
+          }),
+      ],
+      [
+        "GET",
+        path("/collaborators/([^/]+)/permission"),
+        ([login]) => {
+          const permission = this.users.get(login!)?.permission;
+          return permission
+            ? {
+                body: {
+                  permission,
+                  role_name: permission,
+                  user: this.userJson(login!),
+                },
+              }
+            : notFound();
+        },
+      ],
+      [
+        "GET",
+        path("/pulls"),
+        (_p, query) => {
+          const state = query.get("state") ?? "open";
+          const head = query.get("head");
+          return {
+            body: this.pullRequests()
+              .filter((pr) => state === "all" || pr.state === state)
+              .filter(
+                (pr) => !head || head === `${this.owner}:${pr.head}`
+              )
+              .map((pr) => this.pullJson(pr.number)),
+          };
+        },
+      ],
+      [
+        "POST",
+        path("/pulls"),
+        (_p, _q, body) => {
+          const params = body as {
+            title: string;
+            body?: string;
+            head: string;
+            base: string;
+          };
+          if (!this.branchSha(params.head)) {
+            return validationFailed(`ブランチ ${params.head} がありません`);
+          }
+          if (
+            this.pullRequests().some(
+              (pr) => pr.state === "open" && pr.head === params.head
+            )
+          ) {
+            return validationFailed(
+              `A pull request already exists for ${this.owner}:${params.head}.`
+            );
+          }
+          const number = this.nextNumber++;
+          this.issues.set(number, {
+            number,
+            title: params.title,
+            body: params.body ?? "",
+            author: this.login,
+            state: "open",
+            labels: new Set(),
+            events: [],
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            pull: { head: params.head, base: params.base },
+          });
+          return { status: 201, body: this.pullJson(number) };
+        },
+      ],
+      [
+        "GET",
+        path("/pulls/(\\d+)"),
+        ([n]) =>
+          this.issues.get(Number(n))?.pull
+            ? { body: this.pullJson(Number(n)) }
+            : notFound(),
+      ],
+      [
+        "GET",
+        path("/pulls/(\\d+)/comments"),
+        ([n], query) => ({
+          body: this.reviewComments
+            .filter((c) => c.prNumber === Number(n))
+            .filter((c) => isSince(c.createdAt, query))
+            .map((c) => this.reviewCommentJson(c)),
+        }),
+      ],
+      [
+        "POST",
+        path("/pulls/(\\d+)/comments/(\\d+)/replies"),
+        ([n, id], _q, body) => {
+          const root = this.reviewComments.find((c) => c.id === Number(id));
+          if (!root) return notFound();
+          const reply = this.addReviewComment(Number(n), {
+            user: this.login,
+            body: (body as { body: string }).body,
+            path: root.path,
+            line: root.line,
+            inReplyToId: root.inReplyToId ?? root.id,
+          });
+          return {
+            status: 201,
+            body: this.reviewCommentJson(
+              this.reviewComments.find((c) => c.id === reply)!
+            ),
+          };
+        },
+      ],
+      [
+        "POST",
+        /^\/graphql$/,
+        (_p, _q, body) => this.graphql(body as GraphQLRequest),
+      ],
+    ];
+  }
+
+  /** GitHubClient が使う GraphQL のクエリ（レビュースレッドの取得・解決）だけに応答する */
+  private graphql({ query, variables }: GraphQLRequest): Response {
+    if (query.includes("resolveReviewThread")) {
+      const threadId = String(variables["threadId"]);
+      this.resolvedThreads.add(Number(threadId.replace(/^PRRT_/, "")));
+      return {
+        body: { data: { resolveReviewThread: { thread: { id: threadId } } } },
+      };
+    }
+
+    if (query.includes("reviewThreads")) {
+      const prNumber = Number(variables["number"]);
+      const nodes = this.reviewComments
+        .filter((c) => c.prNumber === prNumber && c.inReplyToId === undefined)
+        .map((root) => ({
+          id: `PRRT_${root.id}`,
+          isResolved: this.resolvedThreads.has(root.id),
+          path: root.path,
+          line: root.line,
+          startLine: null,
+          diffSide: "RIGHT",
+          comments: {
+            nodes: this.threadComments(root.id).map((c) => ({
+              databaseId: c.id,
+              body: c.body,
+              diffHunk: c.diffHunk,
+              author: { login: c.user },
+            })),
+          },
+        }));
+      return {
+        body: {
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes,
+                },
+              },
+            },
+          },
+        },
+      };
+    }
+
+    // レビュー本文は再現しない（行へのコメントと会話タブのコメントだけを扱う）
+    if (query.includes("reviews(")) {
+      return {
+        body: {
+          data: {
+            repository: {
+              pullRequest: {
+                reviews: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes: [],
+                },
+              },
+            },
+          },
+        },
+      };
+    }
+
+    this.unhandled.push(`POST /graphql ${query.trim().split("\n")[0]}`);
+    return { body: { errors: [{ message: "対応していないクエリです" }] } };
+  }
+
+  private issue(issueNumber: number): FakeIssue {
+    const issue = this.issues.get(issueNumber);
+    if (!issue) throw new Error(`Issue #${issueNumber} がありません`);
+    return issue;
+  }
+
+  private withIssue(
+    issueNumber: string,
+    handle: (issue: FakeIssue) => Response
+  ): Response {
+    const issue = this.issues.get(Number(issueNumber));
+    return issue ? handle(issue) : notFound();
+  }
+
+  private addComment(
+    issueNumber: number,
+    user: string,
+    body: string
+  ): FakeComment {
+    const comment: FakeComment = {
+      id: this.nextCommentId++,
+      issueNumber,
+      user,
+      body,
+      createdAt: new Date().toISOString(),
+    };
+    this.comments.push(comment);
+    touch(this.issue(issueNumber));
+    return comment;
+  }
+
+  /** origin のブランチの先頭のコミット（ブランチがなければ undefined） */
+  private branchSha(branch: string): string | undefined {
+    if (!this.originPath) return "0".repeat(40);
+    try {
+      return execFileSync(
+        "git",
+        ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`],
+        { cwd: this.originPath, encoding: "utf-8" }
+      ).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private userJson(login: string): unknown {
+    return { login, type: this.users.get(login)?.type ?? "User" };
+  }
+
+  private issueJson(issue: FakeIssue): unknown {
+    const kind = issue.pull ? "pull" : "issues";
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      state: issue.state,
+      user: this.userJson(issue.author),
+      labels: [...issue.labels].map((name) => ({ name })),
+      html_url: `https://github.com/${this.owner}/${this.repo}/${kind}/${issue.number}`,
+      pull_request: issue.pull ? { url: "" } : undefined,
+      created_at: issue.createdAt,
+      updated_at: issue.updatedAt,
+    };
+  }
+
+  private pullJson(prNumber: number): unknown {
+    const issue = this.issue(prNumber);
+    const { head, base } = issue.pull!;
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      state: issue.state,
+      user: this.userJson(issue.author),
+      head: { ref: head, sha: this.branchSha(head) ?? "0".repeat(40) },
+      base: { ref: base, sha: this.branchSha(base) ?? "0".repeat(40) },
+      mergeable_state: "clean",
+      labels: [...issue.labels].map((name) => ({ name })),
+      created_at: issue.createdAt,
+      updated_at: issue.updatedAt,
+    };
+  }
+
+  private commentJson(comment: FakeComment): unknown {
+    const kind = this.issues.get(comment.issueNumber)?.pull ? "pull" : "issues";
+    return {
+      id: comment.id,
+      body: comment.body,
+      user: this.userJson(comment.user),
+      issue_url: `${this.url}/repos/${this.owner}/${this.repo}/issues/${comment.issueNumber}`,
+      html_url: `https://github.com/${this.owner}/${this.repo}/${kind}/${comment.issueNumber}#issuecomment-${comment.id}`,
+      created_at: comment.createdAt,
+      updated_at: comment.createdAt,
+    };
+  }
+
+  private reviewCommentJson(comment: FakeReviewComment): unknown {
+    return {
+      id: comment.id,
+      body: comment.body,
+      user: this.userJson(comment.user),
+      path: comment.path,
+      line: comment.line,
+      start_line: null,
+      side: "RIGHT",
+      diff_hunk: comment.diffHunk,
+      in_reply_to_id: comment.inReplyToId,
+      created_at: comment.createdAt,
+      updated_at: comment.createdAt,
+    };
+  }
+}
+
+export interface FakeComment {
+  id: number;
+  issueNumber: number;
+  user: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface FakeReviewComment {
+  id: number;
+  prNumber: number;
+  user: string;
+  body: string;
+  path: string;
+  line: number;
+  diffHunk: string;
+  inReplyToId?: number;
+  createdAt: string;
+}
+
+export interface FakePullRequest {
+  number: number;
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  state: "open" | "closed";
+}
+
+interface FakeUser {
+  type: "User" | "Bot";
+  permission?: PermissionLevel;
+}
+
+interface FakeIssue {
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  state: "open" | "closed";
+  labels: Set<string>;
+  events: Array<{ event: "labeled"; label: string; actor: string }>;
+  createdAt: string;
+  /** コメント・ラベル・状態の変更で更新する */
+  updatedAt: string;
+  /** PR の場合のブランチ */
+  pull?: { head: string; base: string };
+}
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+type Route = [
+  method: string,
+  pattern: RegExp,
+  handle: (params: string[], query: URLSearchParams, body: unknown) => Response,
+];
+
+interface Response {
+  status?: number;
+  body: unknown;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? (JSON.parse(text) as unknown) : {};
+}
+
+/** GitHub と同じく、since 以降に更新されたものだけを返す */
+function touch(issue: FakeIssue): void {
+  issue.updatedAt = new Date().toISOString();
+}
+
+function isSince(createdAt: string, query: URLSearchParams): boolean {
+  const since = query.get("since");
+  return !since || new Date(createdAt) >= new Date(since);
+}
+
+function notFound(): Response {
+  return { status: 404, body: { message: "Not Found" } };
+}
+
+function validationFailed(message: string): Response {
+  return { status: 422, body: { message: "Validation Failed", errors: [{ message }] } };
+}
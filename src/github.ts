@@ -1,26 +1,130 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { Octokit } from "@octokit/rest";
 import { retry } from "@octokit/plugin-retry";
 import { createChildLogger } from "./logger.js";
-import type { Config, TrackedIssue, ReviewComment } from "./types.js";
+import { metrics } from "./metrics.js";
+import { isCommand } from "./commands.js";
+import type {
+  RepoConfig,
+  TrackedIssue,
+  ReviewComment,
+  ReviewThread,
+  CommandComment,
+  IssueComment,
+  PermissionLevel,
+  PullRequestState,
+  PullRequestActivity,
+  CiCheck,
+} from "./types.js";
 
 const log = createChildLogger("github");
 
 const RetryOctokit = Octokit.plugin(retry);
 
+/** 存在しなければ結果で表す（404 を想定した）呼び出しの中か。Octokit のリクエストログの振り分けに使う */
+const expectingNotFound = new AsyncLocalStorage<boolean>();
+
+/** Octokit が失敗したリクエストを記録するメッセージの形式（"GET /path - 404 with id ..."） */
+const NOT_FOUND_REQUEST_LOG = / - 404 with id /;
+
+/** 失敗として扱うチェックランの conclusion（cancelled・skipped などは修正の対象にしない） */
+const FAILED_CONCLUSIONS: ReadonlySet<string> = new Set([
+  "failure",
+  "timed_out",
+  "startup_failure",
+]);
+
+const PERMISSION_LEVELS: ReadonlySet<PermissionLevel> = new Set([
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin",
+]);
+
+/** 1つのリポジトリに対する GitHub API 操作（リポジトリごとにインスタンスを作る） */
 export class GitHubClient {
   private octokit: Octokit;
   private owner: string;
   private repo: string;
+  /** ベースブランチ・ブランチ接頭辞は設定の再読み込みで変わるため、参照を保持する */
+  private repoConfig: RepoConfig;
+  private log: typeof log;
+  /** 最後の API 呼び出しで GitHub に接続できたか（まだ呼び出していなければ undefined） */
+  private lastReachable: boolean | undefined;
+
+  constructor(token: string, repo: RepoConfig, apiUrl?: string) {
+    this.log = log.child({ repo: repo.fullName });
+    // Octokit は失敗したリクエストを console に出すため、ロガーに流す。
+    // 404 を想定した呼び出しの 404 だけは、呼び出し側で扱うため debug にする
+    this.octokit = new RetryOctokit({
+      auth: token,
+      baseUrl: apiUrl,
+      log: {
+        debug: (message: string) => this.log.debug(message),
+        info: (message: string) => this.log.debug(message),
+        warn: (message: string) => this.log.warn(message),
+        error: (message: string) => {
+          if (
+            expectingNotFound.getStore() &&
+            NOT_FOUND_REQUEST_LOG.test(message)
+          ) {
+            this.log.debug(message);
+          } else {
+            this.log.warn(message);
+          }
+        },
+      },
+    });
+    this.owner = repo.owner;
+    this.repo = repo.repo;
+    this.repoConfig = repo;
+
+    // 呼び出し回数・レート制限をメトリクスに、接続できたかを死活監視に記録する
+    this.octokit.hook.after("request", (response) => {
+      this.recordResponse(response.status, response.headers);
+    });
+    this.octokit.hook.error("request", (error) => {
+      const { status, response } = error as {
+        status?: number;
+        response?: { headers?: Record<string, string | number | undefined> };
+      };
+      this.recordResponse(status, response?.headers);
+      throw error;
+    });
+  }
+
+  /** 最後の API 呼び出しで GitHub に接続できたか（まだ呼び出していなければ undefined） */
+  get reachable(): boolean | undefined {
+    return this.lastReachable;
+  }
 
-  constructor(config: Config) {
-    this.octokit = new RetryOctokit({ auth: config.github.token });
-    this.owner = config.github.owner;
-    this.repo = config.github.repo;
+  /** API の応答（接続できなかった場合は status なし）を記録する */
+  private recordResponse(
+    status: number | undefined,
+    headers: Record<string, string | number | undefined> | undefined
+  ): void {
+    const repo = this.repoConfig.fullName;
+    metrics.githubRequests.inc({
+      repo,
+      status: status ? String(status) : "error",
+    });
+    // 4xx は GitHub までは届いている（権限・存在しないリソースなどの個別のエラー）
+    this.lastReachable = status !== undefined && status < 500;
+
+    const remaining = headers?.["x-ratelimit-remaining"];
+    if (remaining !== undefined) {
+      metrics.githubRateLimitRemaining.set({ repo }, Number(remaining));
+    }
+    const reset = headers?.["x-ratelimit-reset"];
+    if (reset !== undefined) {
+      metrics.githubRateLimitReset.set({ repo }, Number(reset));
+    }
   }
 
   /** auto-implement ラベル付きのオープンIssueを取得 */
   async fetchLabeledIssues(label: string): Promise<TrackedIssue[]> {
-    log.debug({ label }, "ラベル付きIssueを取得中");
+    this.log.debug({ label }, "ラベル付きIssueを取得中");
     const { data } = await this.octokit.issues.listForRepo({
       owner: this.owner,
       repo: this.repo,
@@ -36,77 +140,281 @@ export class GitHubClient {
         number: issue.number,
         title: issue.title,
         body: issue.body ?? "",
+        author: issue.user?.login,
         labels: issue.labels
           .map((l) => (typeof l === "string" ? l : l.name ?? ""))
           .filter(Boolean),
       }));
   }
 
-  /** 指定日時以降のレビューコメントがある auto/ ブランチのPRを取得 */
-  async fetchReviewComments(since: string): Promise<ReviewComment[]> {
-    log.debug({ since }, "レビューコメントを取得中");
-    const { data: prs } = await this.octokit.pulls.list({
+  /** オーケストレータが作ったブランチのオープンな PR と、その最終更新日時を取得 */
+  async fetchAgentPullRequestActivity(): Promise<PullRequestActivity[]> {
+    this.log.debug("PRの更新日時を取得中");
+    const prs = await this.octokit.paginate(this.octokit.pulls.list, {
       owner: this.owner,
       repo: this.repo,
       state: "open",
-      per_page: 30,
+      per_page: 100,
     });
 
-    const autoPRs = prs.filter((pr) => pr.head.ref.startsWith("auto/"));
+    return prs
+      .filter((pr) => pr.head.ref.startsWith(this.repoConfig.branchPrefix))
+      .map((pr) => ({
+        number: pr.number,
+        createdAt: pr.created_at,
+        updatedAt: pr.updated_at,
+      }));
+  }
+
+  /** PR への指定日時以降に投稿・編集されたレビューコメント・レビュー本文・会話タブのコメントを取得 */
+  async fetchReviewComments(
+    prNumber: number,
+    since: string
+  ): Promise<ReviewComment[]> {
+    this.log.debug({ prNumber, since }, "レビューコメントを取得中");
     const comments: ReviewComment[] = [];
 
-    for (const pr of autoPRs) {
-      const { data: reviewComments } =
-        await this.octokit.pulls.listReviewComments({
-          owner: this.owner,
-          repo: this.repo,
-          pull_number: pr.number,
-          since,
-          per_page: 100,
-        });
+    const reviewComments = await this.octokit.paginate(
+      this.octokit.pulls.listReviewComments,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: prNumber,
+        since,
+        per_page: 100,
+      }
+    );
 
-      // bot自身のコメントは除外
-      const humanComments = reviewComments.filter(
-        (c) => c.user?.type !== "Bot"
-      );
+    // bot自身のコメントは除外
+    const humanComments = reviewComments.filter((c) => c.user?.type !== "Bot");
 
-      for (const c of humanComments) {
-        comments.push({
-          id: c.id,
-          prNumber: pr.number,
-          body: c.body,
-          user: c.user?.login ?? "unknown",
-          path: c.path,
-          line: c.line ?? undefined,
-          createdAt: c.created_at,
-        });
-      }
+    for (const c of humanComments) {
+      comments.push({
+        id: c.id,
+        prNumber,
+        kind: "line",
+        body: c.body,
+        user: c.user?.login ?? "unknown",
+        path: c.path,
+        line: c.line ?? undefined,
+        startLine: c.start_line ?? undefined,
+        side: c.side,
+        diffHunk: c.diff_hunk,
+        inReplyToId: c.in_reply_to_id,
+        createdAt: c.created_at,
+      });
+    }
+
+    // レビュー本文（行コメントは上で取得済み。承認と本文のないレビューは除外）
+    for (const r of await this.fetchReviews(prNumber)) {
+      if (!r.body || !r.submittedAt || r.author?.__typename === "Bot") continue;
+      if (r.state === "APPROVED") continue;
+      if (new Date(r.updatedAt) < new Date(since)) continue;
+      comments.push({
+        id: r.databaseId,
+        prNumber,
+        kind: "review",
+        body: r.body,
+        user: r.author?.login ?? "unknown",
+        reviewState: r.state,
+        createdAt: r.submittedAt,
+      });
+    }
 
-      // Issue コメント（PR の会話タブ）も取得
-      const { data: issueComments } = await this.octokit.issues.listComments({
+    // Issue コメント（PR の会話タブ）も取得
+    const issueComments = await this.octokit.paginate(
+      this.octokit.issues.listComments,
+      {
         owner: this.owner,
         repo: this.repo,
-        issue_number: pr.number,
+        issue_number: prNumber,
         since,
         per_page: 100,
+      }
+    );
+
+    const humanIssueComments = issueComments.filter(
+      (c) => c.user?.type !== "Bot"
+    );
+
+    for (const c of humanIssueComments) {
+      comments.push({
+        id: c.id,
+        prNumber,
+        kind: "conversation",
+        body: c.body ?? "",
+        user: c.user?.login ?? "unknown",
+        createdAt: c.created_at,
       });
+    }
 
-      const humanIssueComments = issueComments.filter(
-        (c) => c.user?.type !== "Bot"
-      );
+    return comments;
+  }
 
-      for (const c of humanIssueComments) {
-        comments.push({
-          id: c.id,
-          prNumber: pr.number,
-          body: c.body ?? "",
-          user: c.user?.login ?? "unknown",
-          createdAt: c.created_at,
-        });
+  /**
+   * 指定日時以降に Issue・PR の会話タブへ投稿・編集された `/auto` コマンドを取得。
+   * 次回の取得開始時刻に使えるよう、取得したコメント（コマンド以外も含む）の最新の更新日時も返す。
+   */
+  async fetchCommandComments(
+    since: string
+  ): Promise<{ comments: CommandComment[]; latestUpdatedAt?: string }> {
+    this.log.debug({ since }, "コマンドコメントを取得中");
+    const data = await this.octokit.paginate(
+      this.octokit.issues.listCommentsForRepo,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        since,
+        sort: "updated",
+        direction: "asc",
+        per_page: 100,
       }
+    );
+
+    const comments = data
+      .filter((c) => c.user?.type !== "Bot" && isCommand(c.body ?? ""))
+      .map((c) => ({
+        id: c.id,
+        issueNumber: Number(c.issue_url.split("/").pop()),
+        isPullRequest: c.html_url.includes("/pull/"),
+        body: c.body ?? "",
+        user: c.user?.login ?? "unknown",
+        createdAt: c.created_at,
+      }));
+    return { comments, latestUpdatedAt: data.at(-1)?.updated_at };
+  }
+
+  /** Issue・PR の会話タブのコメントのうち、指定日時以降のもの（Bot を除く、古い順） */
+  async fetchIssueComments(
+    issueNumber: number,
+    since: string
+  ): Promise<IssueComment[]> {
+    const comments = await this.octokit.paginate(
+      this.octokit.issues.listComments,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber,
+        since,
+        per_page: 100,
+      }
+    );
+    return comments
+      .filter((c) => c.user?.type !== "Bot")
+      .map((c) => ({
+        id: c.id,
+        body: c.body ?? "",
+        user: c.user?.login ?? "unknown",
+        createdAt: c.created_at,
+      }));
+  }
+
+  /** Issue を1件取得（PR の場合も Issue として返る） */
+  async getIssue(issueNumber: number): Promise<TrackedIssue> {
+    const { data } = await this.octokit.issues.get({
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: issueNumber,
+    });
+    return {
+      number: data.number,
+      title: data.title,
+      body: data.body ?? "",
+      author: data.user?.login,
+      labels: data.labels
+        .map((l) => (typeof l === "string" ? l : l.name ?? ""))
+        .filter(Boolean),
+    };
+  }
+
+  /**
+   * トークンの持ち主のユーザー名（GitHub App のインストールトークンなど、取得できない場合は undefined）。
+   * オーケストレータ自身が付けたラベルを見分けるのに使う。
+   */
+  async getAuthenticatedLogin(): Promise<string | undefined> {
+    try {
+      const { data } = await this.octokit.users.getAuthenticated();
+      return data.login;
+    } catch (err) {
+      this.log.debug({ err }, "トークンのユーザー名を取得できません");
+      return undefined;
     }
+  }
 
-    return comments;
+  /** Issue・PR へのコメントに 👍 のリアクションを付けた利用者（Bot を除く） */
+  async fetchThumbsUpUsers(commentId: number): Promise<string[]> {
+    const reactions = await this.octokit.paginate(
+      this.octokit.reactions.listForIssueComment,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+        content: "+1",
+        per_page: 100,
+      }
+    );
+    return reactions
+      .filter((r) => r.user && r.user.type !== "Bot")
+      .map((r) => r.user!.login);
+  }
+
+  /** Issue に指定のラベルを最後に付けた利用者（イベントが見つからなければ undefined） */
+  async getLabelActor(
+    issueNumber: number,
+    label: string
+  ): Promise<string | undefined> {
+    const events = await this.octokit.paginate(this.octokit.issues.listEvents, {
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: issueNumber,
+      per_page: 100,
+    });
+    const labeled = events.filter(
+      (e) => e.event === "labeled" && "label" in e && e.label?.name === label
+    );
+    return labeled[labeled.length - 1]?.actor?.login;
+  }
+
+  /**
+   * 利用者のリポジトリ権限（コラボレーターでなければ undefined）。
+   * カスタムロールの場合は、その基になった権限（admin / write / read）を返す。
+   */
+  async getPermissionLevel(
+    user: string
+  ): Promise<PermissionLevel | undefined> {
+    try {
+      const { data } = await allowNotFound(() =>
+        this.octokit.repos.getCollaboratorPermissionLevel({
+          owner: this.owner,
+          repo: this.repo,
+          username: user,
+        })
+      );
+      return [data.role_name, data.permission].find(
+        (p): p is PermissionLevel => PERMISSION_LEVELS.has(p as PermissionLevel)
+      );
+    } catch (err: unknown) {
+      if (isNotFound(err)) return undefined;
+      throw err;
+    }
+  }
+
+  /** 利用者がチーム（"org/team-slug"）のメンバーか（招待中は含めない） */
+  async isTeamMember(team: string, user: string): Promise<boolean> {
+    const [org, teamSlug] = team.split("/") as [string, string];
+    try {
+      const { data } = await allowNotFound(() =>
+        this.octokit.teams.getMembershipForUserInOrg({
+          org,
+          team_slug: teamSlug,
+          username: user,
+        })
+      );
+      return data.state === "active";
+    } catch (err: unknown) {
+      if (isNotFound(err)) return false;
+      throw err;
+    }
   }
 
   /** PRを作成 */
@@ -116,33 +424,45 @@ export class GitHubClient {
     head: string;
     base?: string;
   }): Promise<number> {
-    log.info({ head: params.head }, "PRを作成中");
+    this.log.info({ head: params.head }, "PRを作成中");
     const { data } = await this.octokit.pulls.create({
       owner: this.owner,
       repo: this.repo,
       title: params.title,
       body: params.body,
       head: params.head,
-      base: params.base ?? "main",
+      base: params.base ?? this.repoConfig.baseBranch,
     });
-    log.info({ prNumber: data.number }, "PR作成完了");
+    this.log.info({ prNumber: data.number }, "PR作成完了");
     return data.number;
   }
 
-  /** Issueまたは PR にコメントを投稿 */
-  async postComment(issueNumber: number, body: string): Promise<void> {
-    log.debug({ issueNumber }, "コメントを投稿中");
-    await this.octokit.issues.createComment({
+  /** Issueまたは PR にコメントを投稿し、コメントIDを返す */
+  async postComment(issueNumber: number, body: string): Promise<number> {
+    this.log.debug({ issueNumber }, "コメントを投稿中");
+    const { data } = await this.octokit.issues.createComment({
       owner: this.owner,
       repo: this.repo,
       issue_number: issueNumber,
       body,
     });
+    return data.id;
+  }
+
+  /** 投稿済みのコメントを書き換える */
+  async updateComment(commentId: number, body: string): Promise<void> {
+    this.log.debug({ commentId }, "コメントを更新中");
+    await this.octokit.issues.updateComment({
+      owner: this.owner,
+      repo: this.repo,
+      comment_id: commentId,
+      body,
+    });
   }
 
   /** ラベルを追加 */
   async addLabel(issueNumber: number, label: string): Promise<void> {
-    log.debug({ issueNumber, label }, "ラベルを追加中");
+    this.log.debug({ issueNumber, label }, "ラベルを追加中");
     await this.octokit.issues.addLabels({
       owner: this.owner,
       repo: this.repo,
@@ -153,18 +473,20 @@ export class GitHubClient {
 
   /** ラベルを削除 */
   async removeLabel(issueNumber: number, label: string): Promise<void> {
-    log.debug({ issueNumber, label }, "ラベルを削除中");
+    this.log.debug({ issueNumber, label }, "ラベルを削除中");
     try {
-      await this.octokit.issues.removeLabel({
-        owner: this.owner,
-        repo: this.repo,
-        issue_number: issueNumber,
-        name: label,
-      });
+      await allowNotFound(() =>
+        this.octokit.issues.removeLabel({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: issueNumber,
+          name: label,
+        })
+      );
     } catch (err: unknown) {
       // ラベルが存在しない場合は無視
-      if (err instanceof Error && "status" in err && (err as { status: number }).status === 404) {
-        log.debug({ issueNumber, label }, "ラベルが存在しないため削除をスキップ");
+      if (isNotFound(err)) {
+        this.log.debug({ issueNumber, label }, "ラベルが存在しないため削除をスキップ");
         return;
       }
       throw err;
@@ -173,7 +495,7 @@ export class GitHubClient {
 
   /** Issue をクローズ */
   async closeIssue(issueNumber: number): Promise<void> {
-    log.debug({ issueNumber }, "Issueをクローズ中");
+    this.log.debug({ issueNumber }, "Issueをクローズ中");
     await this.octokit.issues.update({
       owner: this.owner,
       repo: this.repo,
@@ -182,6 +504,119 @@ export class GitHubClient {
     });
   }
 
+  /** 指定ブランチを head とするオープンPRの番号を取得（なければ undefined） */
+  async findOpenPullRequest(branchName: string): Promise<number | undefined> {
+    const { data } = await this.octokit.pulls.list({
+      owner: this.owner,
+      repo: this.repo,
+      state: "open",
+      head: `${this.owner}:${branchName}`,
+      per_page: 1,
+    });
+    return data[0]?.number;
+  }
+
+  /** オーケストレータが作ったブランチのオープンPRと、そのマージ可能性を取得 */
+  async fetchAgentPullRequests(): Promise<PullRequestState[]> {
+    this.log.debug("PRの状態を取得中");
+    const prs = await this.octokit.paginate(this.octokit.pulls.list, {
+      owner: this.owner,
+      repo: this.repo,
+      state: "open",
+      per_page: 100,
+    });
+
+    const states: PullRequestState[] = [];
+    for (const pr of prs) {
+      if (!pr.head.ref.startsWith(this.repoConfig.branchPrefix)) continue;
+      // mergeable_state は一覧には含まれないため、PR ごとに取得する
+      const { data } = await this.octokit.pulls.get({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pr.number,
+      });
+      states.push({
+        number: data.number,
+        branchName: data.head.ref,
+        headSha: data.head.sha,
+        baseSha: data.base.sha,
+        mergeableState: data.mergeable_state,
+        labels: data.labels.map((l) => l.name),
+      });
+    }
+    return states;
+  }
+
+  /** コミットに対する CI のチェック（チェックランとコミットステータス）を取得 */
+  async fetchChecks(ref: string): Promise<CiCheck[]> {
+    this.log.debug({ ref }, "CI のチェックを取得中");
+    const checks: CiCheck[] = [];
+
+    const runs = await this.octokit.paginate(this.octokit.checks.listForRef, {
+      owner: this.owner,
+      repo: this.repo,
+      ref,
+      filter: "latest",
+      per_page: 100,
+    });
+    for (const run of runs) {
+      const output = [run.output.title, run.output.summary, run.output.text]
+        .filter(Boolean)
+        .join("\n\n");
+      checks.push({
+        name: run.name,
+        source: "check-run",
+        state:
+          run.status !== "completed"
+            ? "pending"
+            : FAILED_CONCLUSIONS.has(run.conclusion ?? "")
+              ? "failure"
+              : "success",
+        conclusion: run.conclusion ?? undefined,
+        detailsUrl: run.details_url ?? undefined,
+        // GitHub Actions のチェックランのIDはジョブIDと同じ
+        jobId: run.app?.slug === "github-actions" ? run.id : undefined,
+        summary: output || undefined,
+      });
+    }
+
+    const { data: combined } =
+      await this.octokit.repos.getCombinedStatusForRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref,
+        per_page: 100,
+      });
+    for (const status of combined.statuses) {
+      checks.push({
+        name: status.context,
+        source: "status",
+        state:
+          status.state === "pending"
+            ? "pending"
+            : status.state === "success"
+              ? "success"
+              : "failure",
+        conclusion: status.state,
+        detailsUrl: status.target_url ?? undefined,
+        summary: status.description ?? undefined,
+      });
+    }
+    return checks;
+  }
+
+  /** GitHub Actions のジョブのログを取得 */
+  async fetchJobLog(jobId: number): Promise<string> {
+    this.log.debug({ jobId }, "ジョブのログを取得中");
+    // ログの保存先へのリダイレクトは octokit が追従し、本文がテキストで返る
+    const { data } = await this.octokit.actions.downloadJobLogsForWorkflowRun({
+      owner: this.owner,
+      repo: this.repo,
+      job_id: jobId,
+    });
+    return typeof data === "string" ? data : String(data);
+  }
+
   /** PRのブランチ名を取得 */
   async getPRBranch(prNumber: number): Promise<string> {
     const { data } = await this.octokit.pulls.get({
@@ -191,4 +626,192 @@ export class GitHubClient {
     });
     return data.head.ref;
   }
+
+  /** PR のレビューを取得（REST API のレビューには編集日時がないため GraphQL を使う） */
+  private async fetchReviews(prNumber: number): Promise<ReviewNode[]> {
+    const reviews: ReviewNode[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const data: ReviewsQuery = await this.octokit.graphql(REVIEWS_QUERY, {
+        owner: this.owner,
+        repo: this.repo,
+        number: prNumber,
+        cursor,
+      });
+      const page = data.repository.pullRequest.reviews;
+      reviews.push(...page.nodes);
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return reviews;
+  }
+
+  /** PR のレビュースレッド（解決済みかどうか・スレッド内のコメント）を取得 */
+  async fetchReviewThreads(prNumber: number): Promise<ReviewThread[]> {
+    this.log.debug({ prNumber }, "レビュースレッドを取得中");
+    const threads: ReviewThread[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const data: ReviewThreadsQuery = await this.octokit.graphql(
+        REVIEW_THREADS_QUERY,
+        { owner: this.owner, repo: this.repo, number: prNumber, cursor }
+      );
+      const page = data.repository.pullRequest.reviewThreads;
+
+      for (const t of page.nodes) {
+        const comments = t.comments.nodes;
+        threads.push({
+          id: t.id,
+          isResolved: t.isResolved,
+          path: t.path,
+          line: t.line ?? undefined,
+          startLine: t.startLine ?? undefined,
+          side: t.diffSide,
+          diffHunk: comments[0]?.diffHunk ?? "",
+          comments: comments.map((c) => ({
+            id: c.databaseId,
+            user: c.author?.login ?? "unknown",
+            body: c.body,
+          })),
+        });
+      }
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  /** レビュースレッドに返信（commentId はスレッドの最初のコメント） */
+  async replyToReviewComment(
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<void> {
+    this.log.debug({ prNumber, commentId }, "レビュースレッドに返信中");
+    await this.octokit.pulls.createReplyForReviewComment({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      comment_id: commentId,
+      body,
+    });
+  }
+
+  /** レビュースレッドを解決済みにする */
+  async resolveReviewThread(threadId: string): Promise<void> {
+    this.log.debug({ threadId }, "レビュースレッドを解決中");
+    await this.octokit.graphql(
+      `mutation($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) {
+          thread { id }
+        }
+      }`,
+      { threadId }
+    );
+  }
+}
+
+const REVIEWS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviews(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            databaseId
+            body
+            state
+            submittedAt
+            updatedAt
+            author { login __typename }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface ReviewNode {
+  databaseId: number;
+  body: string;
+  state: string;
+  submittedAt: string | null;
+  updatedAt: string;
+  author: { login: string; __typename: string } | null;
+}
+
+interface ReviewsQuery {
+  repository: {
+    pullRequest: {
+      reviews: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: ReviewNode[];
+      };
+    };
+  };
+}
+
+/** スレッドの解決状態は REST API で取得できないため GraphQL を使う */
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            path
+            line
+            startLine
+            diffSide
+            comments(first: 100) {
+              nodes { databaseId body diffHunk author { login } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface ReviewThreadsQuery {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: Array<{
+          id: string;
+          isResolved: boolean;
+          path: string;
+          line: number | null;
+          startLine: number | null;
+          diffSide: "LEFT" | "RIGHT";
+          comments: {
+            nodes: Array<{
+              databaseId: number;
+              body: string;
+              diffHunk: string;
+              author: { login: string } | null;
+            }>;
+          };
+        }>;
+      };
+    };
+  };
+}
+
+/** 404 を想定したリクエストを実行する（その 404 はリクエストログで警告にしない） */
+function allowNotFound<T>(request: () => Promise<T>): Promise<T> {
+  return expectingNotFound.run(true, request);
+}
+
+function isNotFound(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    "status" in err &&
+    (err as { status: number }).status === 404
+  );
 }
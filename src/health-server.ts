@@ -0,0 +1,150 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { createChildLogger } from "./logger.js";
+import { renderMetrics } from "./metrics.js";
+import type { Poller } from "./poller.js";
+import type { RepoRuntime } from "./repository.js";
+import type { Config } from "./types.js";
+
+const log = createChildLogger("health");
+
+/** 最後にポーリングが成功してから、ポーリング間隔の何倍まで正常とみなすか */
+const STALE_POLL_INTERVALS = 3;
+
+/** /healthz の応答 */
+interface HealthReport {
+  status: "ok" | "unhealthy";
+  poller: { running: boolean };
+  /** リポジトリごとの状態 */
+  repositories: Record<
+    string,
+    {
+      /** 最後にポーリングが成功してからの秒数（未成功ならポーリングの開始から） */
+      lastSuccessfulPollAgeSeconds: number;
+      pollHealthy: boolean;
+      /** GitHub API に届いたか（まだリクエストしていなければ null） */
+      githubReachable: boolean | null;
+    }
+  >;
+}
+
+interface HttpResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * 死活監視・メトリクスの HTTP エンドポイントを提供する。
+ * - `/healthz`: Poller が動いていて、全リポジトリのポーリングが最近成功し、GitHub に届くなら 200
+ * - `/readyz`: 起動時の整合性チェックが終わってポーリングを始めたら 200（シャットダウン中は 503）
+ * - `/metrics`: Prometheus のテキスト形式のメトリクス
+ */
+export class HealthServer {
+  private runtimes: RepoRuntime[];
+  private poller: Poller;
+  private config: Config;
+  private server: Server | null = null;
+  private ready = false;
+
+  constructor(runtimes: RepoRuntime[], poller: Poller, config: Config) {
+    this.runtimes = runtimes;
+    this.poller = poller;
+    this.config = config;
+  }
+
+  /** HTTP サーバーを起動 */
+  async start(): Promise<void> {
+    const { port } = this.config.monitoring;
+
+    this.server = createServer((req, res) => {
+      try {
+        const { status, contentType, body } = this.handleRequest(req);
+        res.writeHead(status, { "Content-Type": contentType }).end(body);
+      } catch (err) {
+        log.error({ err }, "監視リクエストの処理に失敗");
+        res.writeHead(500).end();
+      }
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server!.listen(port, resolve);
+    });
+    log.info({ port }, "監視サーバーを起動");
+  }
+
+  /** HTTP サーバーを停止 */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    log.info("監視サーバーを停止");
+  }
+
+  /** タスクを受け付けられる状態になった（/readyz が 200 を返す） */
+  markReady(): void {
+    this.ready = true;
+  }
+
+  /** シャットダウンを始めた（/readyz が 503 を返す） */
+  markNotReady(): void {
+    this.ready = false;
+  }
+
+  private handleRequest(req: IncomingMessage): HttpResponse {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return { status: 405, contentType: "text/plain", body: "" };
+    }
+
+    switch (new URL(req.url ?? "/", "http://localhost").pathname) {
+      case "/healthz": {
+        const report = this.health();
+        return {
+          status: report.status === "ok" ? 200 : 503,
+          contentType: "application/json",
+          body: JSON.stringify(report),
+        };
+      }
+      case "/readyz":
+        return {
+          status: this.ready ? 200 : 503,
+          contentType: "text/plain",
+          body: this.ready ? "ready\n" : "not ready\n",
+        };
+      case "/metrics":
+        return {
+          status: 200,
+          contentType: "text/plain; version=0.0.4; charset=utf-8",
+          body: renderMetrics(),
+        };
+      default:
+        return { status: 404, contentType: "text/plain", body: "" };
+    }
+  }
+
+  private health(): HealthReport {
+    const maxAgeMs = this.config.polling.intervalMs * STALE_POLL_INTERVALS;
+    const ages = this.poller.pollAges();
+    const running = this.poller.running;
+
+    const repositories: HealthReport["repositories"] = {};
+    let healthy = running;
+    for (const { repo, github } of this.runtimes) {
+      const ageMs = ages.get(repo.fullName) ?? 0;
+      const pollHealthy = ageMs <= maxAgeMs;
+      const githubReachable = github.reachable ?? null;
+      repositories[repo.fullName] = {
+        lastSuccessfulPollAgeSeconds: Math.round(ageMs / 1000),
+        pollHealthy,
+        githubReachable,
+      };
+      if (!pollHealthy || githubReachable === false) healthy = false;
+    }
+
+    return {
+      status: healthy ? "ok" : "unhealthy",
+      poller: { running },
+      repositories,
+    };
+  }
+}
@@ -1,12 +1,16 @@
 import "dotenv/config";
-import { resolve } from "node:path";
-import { loadConfig } from "./config.js";
+import { loadConfig, applyConfig } from "./config.js";
 import { logger, createChildLogger } from "./logger.js";
-import { GitHubClient } from "./github.js";
+import { createStateStore } from "./state-store.js";
+import { BudgetTracker } from "./budget.js";
+import { Verifier } from "./verifier.js";
 import { WorkerPool } from "./worker-pool.js";
-import { TaskHandler } from "./task-handler.js";
-import { ReviewHandler } from "./review-handler.js";
 import { Poller } from "./poller.js";
+import { WebhookServer } from "./webhook-server.js";
+import { HealthServer } from "./health-server.js";
+import { Recovery } from "./recovery.js";
+import { createRepoRuntime } from "./runtime.js";
+import { ensureLocalClone, type RepoRuntime } from "./repository.js";
 
 const log = createChildLogger("main");
 
@@ -17,28 +21,50 @@ async function main(): Promise<void> {
   const config = loadConfig();
   log.info(
     {
-      repo: `${config.github.owner}/${config.github.repo}`,
+      repositories: config.repositories.map((r) => r.fullName),
+      agents: Object.fromEntries(
+        config.repositories.map((r) => [r.fullName, r.agent.runner])
+      ),
       pollingInterval: config.polling.intervalMs,
       maxConcurrency: config.worker.maxConcurrency,
+      maxQueueDepth: config.worker.maxQueueDepth,
     },
     "設定を読み込み完了"
   );
 
-  // リポジトリのルートパスを特定
-  const repoRoot = resolve(process.cwd());
-
-  // コンポーネントを初期化
-  const github = new GitHubClient(config);
-  const workerPool = new WorkerPool(config.worker.maxConcurrency);
-  const taskHandler = new TaskHandler(github, config, repoRoot);
-  const reviewHandler = new ReviewHandler(github, config, repoRoot);
-  const poller = new Poller(
-    github,
-    workerPool,
-    taskHandler,
-    reviewHandler,
-    config
+  // 永続化された状態を読み込み
+  const store = createStateStore(config);
+  await store.load();
+
+  // 全リポジトリで共有するコンポーネントを初期化
+  const repoConcurrency = () =>
+    new Map(config.repositories.map((r) => [r.fullName, r.maxConcurrency]));
+  const workerPool = new WorkerPool(
+    config.worker.maxConcurrency,
+    config.worker.maxQueueDepth,
+    store,
+    repoConcurrency()
   );
+  await workerPool.restore();
+  const budget = new BudgetTracker(config, store);
+  const verifier = new Verifier(config);
+
+  // リポジトリごとのコンポーネントを初期化（クローンがなければ作成）
+  const runtimes: RepoRuntime[] = [];
+  for (const repo of config.repositories) {
+    await ensureLocalClone(repo, config.github);
+    runtimes.push(
+      createRepoRuntime(config, repo, { store, workerPool, budget, verifier })
+    );
+  }
+
+  const poller = new Poller(runtimes, config, store);
+  const webhookServer = config.webhook.enabled
+    ? new WebhookServer(runtimes, config)
+    : null;
+  const healthServer = config.monitoring.enabled
+    ? new HealthServer(runtimes, poller, config)
+    : null;
 
   // Graceful shutdown のセットアップ
   let shuttingDown = false;
@@ -49,12 +75,15 @@ async function main(): Promise<void> {
 
     log.info({ signal }, "シャットダウンシグナルを受信");
 
-    // ポーリングを停止
-    poller.stop();
+    // ポーリング・Webhook 受信を停止（監視サーバーはタスクの完了まで応答を続ける）
+    healthServer?.markNotReady();
+    await poller.stop();
+    await webhookServer?.stop();
 
     // 実行中のタスクの完了を待つ（最大30秒）
     log.info("実行中のタスクの完了を待機中...");
     await workerPool.waitForAll(30_000);
+    await healthServer?.stop();
 
     log.info("シャットダウン完了");
     process.exit(0);
@@ -63,8 +92,52 @@ async function main(): Promise<void> {
   process.on("SIGTERM", () => void shutdown("SIGTERM"));
   process.on("SIGINT", () => void shutdown("SIGINT"));
 
-  // ポーリングを開始
+  // SIGHUP で設定を再読み込み（実行中のタスクは止めず、次のタスクから新しい設定を使う）
+  process.on("SIGHUP", () => {
+    log.info("設定を再読み込み中");
+    try {
+      const restartRequired = applyConfig(config, loadConfig());
+      workerPool.updateLimits(
+        config.worker.maxConcurrency,
+        config.worker.maxQueueDepth,
+        repoConcurrency()
+      );
+      poller.reschedule();
+
+      if (restartRequired.length > 0) {
+        log.warn(
+          { keys: restartRequired },
+          "再起動するまで反映されない設定の変更があります"
+        );
+      }
+      log.info("設定を再読み込みしました");
+    } catch (err) {
+      log.error({ err }, "設定の再読み込みに失敗。現在の設定で稼働を続けます");
+    }
+  });
+
+  // 監視サーバーは整合性チェックの間も応答する（/readyz はポーリング開始まで 503）
+  await healthServer?.start();
+
+  // 前回の異常終了で残った Issue・worktree を整理
+  for (const { repo, github, taskHandler } of runtimes) {
+    const recovery = new Recovery(
+      github,
+      config,
+      workerPool,
+      taskHandler,
+      store,
+      repo
+    );
+    await recovery.run().catch((err) => {
+      log.error({ err, repo: repo.fullName }, "起動時の整合性チェックに失敗");
+    });
+  }
+
+  // ポーリングを開始（Webhook 有効時は取りこぼしの補完として動く）
   poller.start();
+  await webhookServer?.start();
+  healthServer?.markReady();
 
   log.info("オーケストレータが稼働中です");
 }
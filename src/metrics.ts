@@ -0,0 +1,199 @@
+/** ラベルの名前 → 値 */
+type LabelValues = Record<string, string>;
+
+/** 実行時間のヒストグラムのバケット（秒。タスクは数秒〜1時間程度） */
+const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+/** 待ち時間のヒストグラムのバケット（秒） */
+const WAIT_BUCKETS = [0.1, 1, 5, 30, 60, 300, 900, 1800, 3600];
+
+/** ラベルの組ごとの値を持つメトリクス（Prometheus のテキスト形式で出力する） */
+abstract class Metric<T> {
+  readonly name: string;
+  private help: string;
+  private type: string;
+  protected series: Map<string, { labels: LabelValues; value: T }> = new Map();
+
+  constructor(name: string, help: string, type: string) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: LabelValues, value: T): string[];
+
+  /** ラベルの組の値（なければ初期値で作る） */
+  protected get(labels: LabelValues, initial: () => T): { value: T } {
+    const key = JSON.stringify(
+      Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+    );
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: LabelValues = {}, value = 1): void {
+    this.get(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: LabelValues, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: LabelValues, value: number): void {
+    this.get(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: LabelValues, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  /** バケットごとの件数（累積しない） */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric<HistogramValue> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, "histogram");
+    this.buckets = buckets;
+  }
+
+  observe(labels: LabelValues, value: number): void {
+    const entry = this.get(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    const index = this.buckets.findIndex((le) => value <= le);
+    if (index !== -1) entry.counts[index]!++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected renderSeries(labels: LabelValues, value: HistogramValue): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((le, i) => {
+      cumulative += value.counts[i]!;
+      return `${this.name}_bucket${formatLabels({ ...labels, le: String(le) })} ${cumulative}`;
+    });
+    return [
+      ...lines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * オーケストレータのメトリクス（プロセスで1つ）。
+ * 各コンポーネントが直接記録し、HealthServer の `/metrics` が Prometheus のテキスト形式で出力する。
+ */
+export const metrics = {
+  tasks: new Counter(
+    "orchestrator_tasks_total",
+    "終了したタスクの数（type: issue / review / rebase / ci-fix、status: completed / failed / cancelled / interrupted）"
+  ),
+  taskDuration: new Histogram(
+    "orchestrator_task_duration_seconds",
+    "タスクの開始から終了までの時間",
+    DURATION_BUCKETS
+  ),
+  taskWait: new Histogram(
+    "orchestrator_task_wait_seconds",
+    "タスクが実行待ちキューで待った時間",
+    WAIT_BUCKETS
+  ),
+  activeTasks: new Gauge(
+    "orchestrator_active_tasks",
+    "実行中のタスクの数"
+  ),
+  queueDepth: new Gauge(
+    "orchestrator_queue_depth",
+    "実行待ちキューのタスクの数"
+  ),
+  claudeRuns: new Counter(
+    "orchestrator_claude_runs_total",
+    "Claude Code CLI の実行回数（exit_code: 終了コード、起動できなければ spawn-error）"
+  ),
+  claudeRunDuration: new Histogram(
+    "orchestrator_claude_run_duration_seconds",
+    "Claude Code CLI 1回の実行時間",
+    DURATION_BUCKETS
+  ),
+  agentCost: new Counter(
+    "orchestrator_agent_cost_usd_total",
+    "エージェントの実行コストの累計（USD。tasks_total で割るとタスクあたりのコスト）"
+  ),
+  githubRequests: new Counter(
+    "orchestrator_github_requests_total",
+    "GitHub API のリクエスト数（status: HTTP ステータス、接続できなければ error）"
+  ),
+  githubRateLimitRemaining: new Gauge(
+    "orchestrator_github_rate_limit_remaining",
+    "GitHub API のレート制限の残り回数（最後の応答の値）"
+  ),
+  githubRateLimitReset: new Gauge(
+    "orchestrator_github_rate_limit_reset_timestamp_seconds",
+    "GitHub API のレート制限がリセットされる時刻（UNIX 時刻）"
+  ),
+  polls: new Counter(
+    "orchestrator_polls_total",
+    "リポジトリごとのポーリングの回数（result: success / error）"
+  ),
+  lastPollSuccess: new Gauge(
+    "orchestrator_last_successful_poll_timestamp_seconds",
+    "最後に成功したポーリングの時刻（UNIX 時刻）"
+  ),
+};
+
+/** 全メトリクスを Prometheus のテキスト形式（0.0.4）にする */
+export function renderMetrics(): string {
+  return (
+    Object.values(metrics)
+      .flatMap((metric) => metric.render())
+      .join("\n") + "\n"
+  );
+}
+
+function formatLabels(labels: LabelValues): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const pairs = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
@@ -0,0 +1,160 @@
+import { createChildLogger } from "./logger.js";
+import type { GitHubClient } from "./github.js";
+import type { Dispatcher } from "./dispatcher.js";
+import type { Authorizer } from "./authorization.js";
+import type { StateStore } from "./state-store.js";
+import type { RepoConfig } from "./types.js";
+
+const log = createChildLogger("plan-approvals");
+
+/**
+ * 実装計画の承認を確認し、承認された Issue の実装を投入する（リポジトリごとに1つ）。
+ * 承認は計画のコメントへの 👍・`/auto approve` コメント・approved ラベルのいずれかで、
+ * 権限のある利用者によるものだけを受け付ける。承認状態は StateStore に保存し、再起動後も引き継ぐ。
+ */
+export class PlanApprovals {
+  private github: GitHubClient;
+  private dispatcher: Dispatcher;
+  private authorizer: Authorizer;
+  private store: StateStore;
+  private repo: RepoConfig;
+  /** 権限がなかったリアクション（"コメントID:ユーザー名"）。毎回のポーリングで判定し直さない */
+  private rejectedReactions: Set<string> = new Set();
+
+  constructor(
+    github: GitHubClient,
+    dispatcher: Dispatcher,
+    authorizer: Authorizer,
+    store: StateStore,
+    repo: RepoConfig
+  ) {
+    this.github = github;
+    this.dispatcher = dispatcher;
+    this.authorizer = authorizer;
+    this.store = store;
+    this.repo = repo;
+  }
+
+  /** Issue の計画が承認待ちか */
+  isAwaiting(issueNumber: number): boolean {
+    return (
+      this.store.getPlan(this.repo.fullName, issueNumber)?.status ===
+      "awaiting-approval"
+    );
+  }
+
+  /** 承認待ちの計画ごとに、approved ラベルと 👍 のリアクションを確認する */
+  async poll(): Promise<void> {
+    const awaiting = this.store
+      .getPlans(this.repo.fullName)
+      .filter((p) => p.status === "awaiting-approval");
+
+    for (const plan of awaiting) {
+      const issue = await this.github.getIssue(plan.issueNumber);
+      if (issue.labels.includes(this.repo.labels.approved)) {
+        await this.handleApprovedLabel(plan.issueNumber);
+        continue;
+      }
+
+      const users = await this.github.fetchThumbsUpUsers(plan.commentId);
+      for (const user of users) {
+        const key = `${plan.commentId}:${user.toLowerCase()}`;
+        if (this.rejectedReactions.has(key)) continue;
+
+        const allowed = await this.authorizer.authorize(
+          user,
+          "approve",
+          plan.issueNumber
+        );
+        if (allowed) {
+          await this.approve(plan.issueNumber, user);
+          break;
+        }
+        this.rejectedReactions.add(key);
+      }
+    }
+  }
+
+  /**
+   * approved ラベルが付いた Issue の計画を承認する。
+   * ラベルを付けた利用者に権限がなければラベルを外す。
+   */
+  async handleApprovedLabel(
+    issueNumber: number,
+    labeledBy?: string
+  ): Promise<void> {
+    if (!this.isAwaiting(issueNumber)) return;
+
+    const { approved } = this.repo.labels;
+    const actor =
+      labeledBy ?? (await this.github.getLabelActor(issueNumber, approved));
+    if (
+      actor &&
+      (await this.authorizer.authorize(actor, "approve", issueNumber))
+    ) {
+      await this.approve(issueNumber, actor);
+      return;
+    }
+
+    log.warn(
+      { repo: this.repo.fullName, issueNumber, actor },
+      "承認ラベルを付けた利用者に権限がないためラベルを外す"
+    );
+    await this.github.removeLabel(issueNumber, approved);
+  }
+
+  /**
+   * 計画を承認済みにして実装を投入する（承認待ちの計画がなければ false）。
+   * 呼び出し側で承認者の権限を確認しておくこと。
+   */
+  async approve(issueNumber: number, approvedBy: string): Promise<boolean> {
+    const plan = this.store.getPlan(this.repo.fullName, issueNumber);
+    if (plan?.status !== "awaiting-approval") return false;
+
+    await this.store.setPlan(this.repo.fullName, {
+      ...plan,
+      status: "approved",
+      approvedBy,
+    });
+    log.info(
+      { repo: this.repo.fullName, issueNumber, approvedBy },
+      "実装計画が承認された"
+    );
+
+    const { labels } = this.repo;
+    await this.github.removeLabel(issueNumber, labels.awaitingApproval);
+    await this.github.addLabel(issueNumber, labels.approved);
+    // 投入できなかった場合もラベルが残るので次回のポーリングで投入される
+    await this.github.addLabel(issueNumber, labels.trigger);
+    await this.github.postComment(
+      issueNumber,
+      `✅ @${approvedBy} が実装計画を承認しました。計画に沿って実装を開始します。`
+    );
+
+    const issue = await this.github.getIssue(issueNumber);
+    await this.dispatcher.dispatchIssues([{ ...issue, labeledBy: approvedBy }]);
+    return true;
+  }
+
+  /**
+   * 計画を作り直す（まだ計画がなければ新しく作る）。
+   * 以前の計画と承認は破棄し、plan ラベルと trigger ラベルを付けて投入する。
+   */
+  async requestPlan(
+    issueNumber: number,
+    requestedBy: string
+  ): Promise<boolean> {
+    await this.store.deletePlan(this.repo.fullName, issueNumber);
+
+    const { labels } = this.repo;
+    await this.github.removeLabel(issueNumber, labels.awaitingApproval);
+    await this.github.removeLabel(issueNumber, labels.approved);
+    await this.github.addLabel(issueNumber, labels.plan);
+    await this.github.addLabel(issueNumber, labels.trigger);
+
+    const issue = await this.github.getIssue(issueNumber);
+    return this.dispatcher.dispatchIssues([
+      { ...issue, labeledBy: requestedBy },
+    ]);
+  }
+}
@@ -1,139 +1,248 @@
 import { createChildLogger } from "./logger.js";
-import { GitHubClient } from "./github.js";
-import { WorkerPool } from "./worker-pool.js";
-import { TaskHandler } from "./task-handler.js";
-import { ReviewHandler } from "./review-handler.js";
+import { metrics } from "./metrics.js";
+import type { RepoRuntime } from "./repository.js";
+import type { StateStore } from "./state-store.js";
 import type { Config } from "./types.js";
 
 const log = createChildLogger("poller");
 
+/**
+ * PR の最終更新からこの時間が経つまでは、更新日時が変わらなくてもレビューコメントを取得し直す。
+ * 更新日時は秒単位のため、取得の直後に同じ秒に投稿されたコメントや API の反映の遅れを取りこぼさないようにする
+ * （重なったコメントは処理済みの記録 ProcessedComments で除く）。
+ */
+const ACTIVITY_SETTLE_MS = 60_000;
+
+/** 全リポジトリを順にポーリングし、各リポジトリの Dispatcher に投入する */
 export class Poller {
-  private github: GitHubClient;
-  private workerPool: WorkerPool;
-  private taskHandler: TaskHandler;
-  private reviewHandler: ReviewHandler;
+  private runtimes: RepoRuntime[];
   private config: Config;
-  private timer: ReturnType<typeof setInterval> | null = null;
-  private lastPollTime: string;
-
-  constructor(
-    github: GitHubClient,
-    workerPool: WorkerPool,
-    taskHandler: TaskHandler,
-    reviewHandler: ReviewHandler,
-    config: Config
-  ) {
-    this.github = github;
-    this.workerPool = workerPool;
-    this.taskHandler = taskHandler;
-    this.reviewHandler = reviewHandler;
+  private store: StateStore;
+  /** 次のポーリングの予約（ポーリング中は null） */
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+  /** 実行中のポーリングサイクル */
+  private cycle: Promise<void> = Promise.resolve();
+  /** リポジトリ → 取得済みのコマンドコメントの最新の更新日時 */
+  private commandCursors: Map<string, string> = new Map();
+  /** リポジトリ → 最後にポーリングが成功した時刻（死活監視用。まだ成功していなければない） */
+  private lastSuccessAt: Map<string, number> = new Map();
+  /** ポーリングを開始した時刻（開始前は undefined） */
+  private startedAt: number | undefined;
+
+  constructor(runtimes: RepoRuntime[], config: Config, store: StateStore) {
+    this.runtimes = runtimes;
     this.config = config;
-    this.lastPollTime = new Date().toISOString();
+    this.store = store;
+    // 前回のカーソルがあればそこから再開し、停止中のコメントを取りこぼさない
+    const now = new Date().toISOString();
+    for (const { repo } of runtimes) {
+      this.commandCursors.set(
+        repo.fullName,
+        store.getPollCursor(repo.fullName) ?? now
+      );
+    }
   }
 
   /** ポーリングを開始 */
   start(): void {
     log.info(
-      { intervalMs: this.config.polling.intervalMs },
+      {
+        intervalMs: this.config.polling.intervalMs,
+        since: Object.fromEntries(this.commandCursors),
+      },
       "ポーリングを開始"
     );
 
     // 初回は即時実行
-    void this.poll();
-
-    this.timer = setInterval(() => {
-      void this.poll();
-    }, this.config.polling.intervalMs);
+    this.startedAt = Date.now();
+    this.active = true;
+    this.runCycle();
   }
 
-  /** ポーリングを停止 */
-  stop(): void {
+  /** 現在の設定のインターバルで次のポーリングを予約し直す（設定の再読み込み用） */
+  reschedule(): void {
+    if (!this.active) return;
+    // ポーリング中なら、終わったときに新しいインターバルで予約される
     if (this.timer) {
-      clearInterval(this.timer);
+      clearTimeout(this.timer);
+      this.schedule();
+    }
+    log.info(
+      { intervalMs: this.config.polling.intervalMs },
+      "ポーリング間隔を更新"
+    );
+  }
+
+  /** ポーリングを停止し、実行中のサイクルの終了を待つ */
+  async stop(): Promise<void> {
+    if (this.active) {
+      this.active = false;
+      if (this.timer) clearTimeout(this.timer);
       this.timer = null;
       log.info("ポーリングを停止");
     }
+    await this.cycle;
   }
 
-  /** 1回のポーリングサイクル */
+  /** ポーリングが動いているか（start から stop まで） */
+  get running(): boolean {
+    return this.active;
+  }
+
+  /**
+   * リポジトリごとの、最後にポーリングが成功してからの経過時間。
+   * まだ成功していないリポジトリはポーリングの開始からの経過時間を返す。
+   */
+  pollAges(): Map<string, number> {
+    const now = Date.now();
+    return new Map(
+      this.runtimes.map(({ repo }) => [
+        repo.fullName,
+        now - (this.lastSuccessAt.get(repo.fullName) ?? this.startedAt ?? now),
+      ])
+    );
+  }
+
+  /** ポーリングを1回実行し、終わってから次を予約する（遅いポーリングに次のポーリングを重ねない） */
+  private runCycle(): void {
+    this.timer = null;
+    this.cycle = this.poll().finally(() => {
+      if (this.active) this.schedule();
+    });
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(
+      () => this.runCycle(),
+      this.config.polling.intervalMs
+    );
+  }
+
+  /** 1回のポーリングサイクル（1つのリポジトリのエラーは他のリポジトリに影響させない） */
   private async poll(): Promise<void> {
     log.debug("ポーリングサイクルを開始");
 
-    try {
-      await this.pollIssues();
-      await this.pollReviewComments();
-      this.lastPollTime = new Date().toISOString();
-    } catch (err) {
-      log.error({ err }, "ポーリングサイクルでエラーが発生");
+    for (const runtime of this.runtimes) {
+      const repo = runtime.repo.fullName;
+      try {
+        await this.pollRepository(runtime);
+        this.lastSuccessAt.set(repo, Date.now());
+        metrics.polls.inc({ repo, result: "success" });
+        metrics.lastPollSuccess.set({ repo }, Date.now() / 1000);
+      } catch (err) {
+        metrics.polls.inc({ repo, result: "error" });
+        log.error(
+          { err, repo: runtime.repo.fullName },
+          "ポーリングサイクルでエラーが発生"
+        );
+      }
     }
   }
 
-  /** auto-implement ラベル付きIssueをポーリング */
-  private async pollIssues(): Promise<void> {
-    const issues = await this.github.fetchLabeledIssues("auto-implement");
+  private async pollRepository(runtime: RepoRuntime): Promise<void> {
+    await this.pollIssues(runtime);
+    await this.pollCommands(runtime);
+    await runtime.approvals.poll();
+    await runtime.clarifications.poll();
+    await this.pollReviewComments(runtime);
+    await this.pollPullRequests(runtime);
+  }
+
+  /** trigger ラベル付きIssueをポーリング */
+  private async pollIssues({
+    repo,
+    github,
+    dispatcher,
+  }: RepoRuntime): Promise<void> {
+    const issues = await github.fetchLabeledIssues(repo.labels.trigger);
 
     if (issues.length === 0) {
-      log.debug("新しいIssueはありません");
+      log.debug({ repo: repo.fullName }, "新しいIssueはありません");
       return;
     }
 
-    log.info({ count: issues.length }, "auto-implement Issueを検知");
-
-    for (const issue of issues) {
-      const taskId = `issue-${issue.number}`;
-
-      if (this.workerPool.has(taskId)) {
-        log.debug({ taskId }, "タスクは既に処理中");
-        continue;
-      }
-
-      if (!this.workerPool.canAccept) {
-        log.warn("ワーカープールが満杯。次のサイクルでリトライ");
-        break;
-      }
-
-      await this.workerPool.submit(
-        taskId,
-        "issue",
-        issue.number,
-        (abortSignal) => this.taskHandler.handle(issue, abortSignal)
+    log.info(
+      { repo: repo.fullName, count: issues.length },
+      "auto-implement Issueを検知"
+    );
+    if (!(await dispatcher.dispatchIssues(issues))) {
+      // ラベルが残るので、次回のポーリングで取得し直して再投入する
+      log.info(
+        { repo: repo.fullName },
+        "投入できなかったIssueは次のサイクルで再投入"
       );
     }
   }
 
-  /** PRのレビューコメントをポーリング */
-  private async pollReviewComments(): Promise<void> {
-    const comments = await this.github.fetchReviewComments(this.lastPollTime);
-
-    if (comments.length === 0) {
-      log.debug("新しいレビューコメントはありません");
-      return;
-    }
+  /**
+   * Issue・PR へのコメントで届いた `/auto` コマンドをポーリング。
+   * 取得したコメントの最新の更新日時（GitHub の時刻）から次回の取得を始める。
+   */
+  private async pollCommands({
+    repo,
+    github,
+    commands,
+  }: RepoRuntime): Promise<void> {
+    const { comments, latestUpdatedAt } = await github.fetchCommandComments(
+      this.commandCursors.get(repo.fullName)!
+    );
 
-    // PR番号ごとにグループ化
-    const byPR = new Map<number, typeof comments>();
     for (const comment of comments) {
-      const existing = byPR.get(comment.prNumber) ?? [];
-      existing.push(comment);
-      byPR.set(comment.prNumber, existing);
+      await commands.handle(comment);
     }
 
-    for (const [prNumber, prComments] of byPR) {
-      const taskId = `review-${prNumber}-${Date.now()}`;
+    if (latestUpdatedAt) {
+      this.commandCursors.set(repo.fullName, latestUpdatedAt);
+      await this.store.setPollCursor(repo.fullName, latestUpdatedAt);
+    }
+  }
 
-      if (!this.workerPool.canAccept) {
-        log.warn("ワーカープールが満杯。次のサイクルでリトライ");
-        break;
+  /**
+   * PRのレビューコメントをポーリング。
+   * 前回取得したときから更新された PR だけを、前回の PR の更新日時以降について取得する。
+   * キューに入りきらなかった PR と、レビュー対応を終えていないコメントのある PR は
+   * 更新日時を進めず、次回も取得し直す（処理中のコメントは二重に投入されない）。
+   */
+  private async pollReviewComments({
+    repo,
+    github,
+    dispatcher,
+  }: RepoRuntime): Promise<void> {
+    const prs = await github.fetchAgentPullRequestActivity();
+    const cursors = new Map<number, string>();
+
+    for (const pr of prs) {
+      // 初めて見る PR は作成時から取得する
+      const since =
+        this.store.getReviewCursor(repo.fullName, pr.number) ?? pr.createdAt;
+      const settled =
+        Date.now() - new Date(pr.updatedAt).getTime() >= ACTIVITY_SETTLE_MS;
+      cursors.set(pr.number, since);
+      if (settled && new Date(pr.updatedAt) <= new Date(since)) continue;
+
+      const comments = await github.fetchReviewComments(pr.number, since);
+      const allQueued =
+        comments.length === 0 ||
+        (await dispatcher.dispatchReviewComments(comments));
+      if (allQueued && settled && !dispatcher.hasUnfinishedReview(pr.number)) {
+        cursors.set(pr.number, pr.updatedAt);
       }
-
-      await this.workerPool.submit(
-        taskId,
-        "review",
-        prComments[0]!.prNumber,
-        (abortSignal) =>
-          this.reviewHandler.handle(prNumber, prComments, abortSignal),
-        prNumber
-      );
     }
+
+    await this.store.setReviewCursors(repo.fullName, cursors);
+  }
+
+  /** オーケストレータが作った PR の、ベースブランチへの追従と CI の結果をポーリング */
+  private async pollPullRequests({
+    repo,
+    github,
+    dispatcher,
+    ciMonitor,
+  }: RepoRuntime): Promise<void> {
+    if (repo.autoRebase === "off" && repo.ciFixMaxAttempts === 0) return;
+    const prs = await github.fetchAgentPullRequests();
+    await dispatcher.dispatchStalePullRequests(prs);
+    await ciMonitor.poll(prs);
   }
 }
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import type { StateStore } from "./state-store.js";
+import type { RepoConfig } from "./types.js";
+
+/** 処理済みのコメントの記録を残す期間（ポーリングのカーソルの巻き戻し幅より十分長く取る） */
+const RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+/**
+ * コメントをIDで一度だけ処理するための記録（リポジトリごとに1つ）。
+ * 処理済みのコメントは StateStore に保存し、再起動後やポーリングの取得範囲が重なっても二度処理しない。
+ * 本文のハッシュも記録し、処理済みのコメントが編集された場合は別の依頼として扱う。
+ */
+export class ProcessedComments {
+  private store: StateStore;
+  private repo: RepoConfig;
+  /** 処理中のコメント（"番号#キー"）。Poller と WebhookServer から同時に届いても一方だけが処理する */
+  private inFlight: Set<string> = new Set();
+
+  constructor(store: StateStore, repo: RepoConfig) {
+    this.store = store;
+    this.repo = repo;
+  }
+
+  /**
+   * 未処理のコメントを処理中にする。
+   * 処理済み（本文も同じ）か処理中なら undefined、そうでなければ初めてか編集されたものかを返す。
+   * body を省略すると ID だけで判定する（編集されても処理し直さない）。
+   */
+  claim(
+    issueNumber: number,
+    commentKey: string,
+    body = ""
+  ): "new" | "edited" | undefined {
+    const key = `${issueNumber}#${commentKey}`;
+    if (this.inFlight.has(key)) return undefined;
+
+    const processed = this.store.getProcessedComment(
+      this.repo.fullName,
+      issueNumber,
+      commentKey
+    );
+    const version = hash(body);
+    if (processed?.version === version) return undefined;
+
+    this.inFlight.add(key);
+    return processed ? "edited" : "new";
+  }
+
+  /** 処理しなかったコメントを処理中から外す（次回また受け付ける） */
+  release(issueNumber: number, commentKey: string): void {
+    this.inFlight.delete(`${issueNumber}#${commentKey}`);
+  }
+
+  /** コメントを処理済みとして記録する */
+  async complete(
+    issueNumber: number,
+    commentKey: string,
+    body = ""
+  ): Promise<void> {
+    try {
+      await this.store.markCommentProcessed(
+        this.repo.fullName,
+        issueNumber,
+        commentKey,
+        hash(body),
+        new Date(Date.now() - RETENTION_MS)
+      );
+    } finally {
+      this.release(issueNumber, commentKey);
+    }
+  }
+}
+
+function hash(body: string): string {
+  return createHash("sha256").update(body).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,183 @@
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import { GitHubClient } from "./github.js";
+import type { ClaudeStreamEvent } from "./types.js";
+
+const log = createChildLogger("progress-reporter");
+
+/** ファイルを書き換えるツール（変更ファイル一覧の集計対象） */
+const EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+/** コメントに表示する現在のステップの最大文字数 */
+const MAX_STEP_LENGTH = 120;
+
+export interface ProgressReporterOptions {
+  issueNumber: number;
+  /** 実行中にコメント冒頭に表示する見出し */
+  headline: string;
+  /** 変更ファイルのパスをこのディレクトリからの相対パスで表示する */
+  cwd: string;
+  /** コメントを更新する間隔 */
+  intervalMs: number;
+}
+
+/**
+ * 実行中のタスクの進捗を Issue 上の1つのコメントにまとめて表示する。
+ * コメントは一定間隔で書き換え、変化がなければ更新しない。
+ */
+export class ProgressReporter {
+  private github: GitHubClient;
+  private options: ProgressReporterOptions;
+  private headline: string;
+  private commentId: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = Date.now();
+  private currentStep = "準備中";
+  private toolUseCount = 0;
+  private filesTouched: Set<string> = new Set();
+  private costUsd: number | undefined;
+  private dirty = false;
+  private updating: Promise<void> = Promise.resolve();
+
+  constructor(github: GitHubClient, options: ProgressReporterOptions) {
+    this.github = github;
+    this.options = options;
+    this.headline = options.headline;
+  }
+
+  /** 進捗コメントを投稿し、定期更新を開始 */
+  async start(): Promise<void> {
+    this.startedAt = Date.now();
+    this.commentId = await this.github.postComment(
+      this.options.issueNumber,
+      this.render()
+    );
+
+    this.timer = setInterval(() => {
+      if (this.dirty) void this.flush();
+    }, this.options.intervalMs);
+  }
+
+  /** 現在のステップ（`/auto status` の応答用） */
+  get step(): string {
+    return this.currentStep;
+  }
+
+  /** オーケストレータ側の処理段階を記録 */
+  setStep(step: string): void {
+    this.currentStep = step;
+    this.dirty = true;
+  }
+
+  /** Claude のストリームイベントを進捗に反映 */
+  handleEvent(event: ClaudeStreamEvent): void {
+    switch (event.type) {
+      case "tool-use":
+        this.toolUseCount++;
+        this.currentStep = describeToolUse(event.name, event.input);
+        if (EDIT_TOOLS.has(event.name)) {
+          const file = event.input["file_path"] ?? event.input["notebook_path"];
+          if (typeof file === "string") {
+            this.filesTouched.add(path.relative(this.options.cwd, file));
+          }
+        }
+        break;
+      case "text": {
+        const firstLine = event.text.trim().split("\n")[0];
+        if (firstLine) this.currentStep = firstLine;
+        break;
+      }
+      case "result":
+        this.costUsd = event.costUsd;
+        break;
+      case "init":
+      case "usage":
+        return;
+    }
+    this.dirty = true;
+  }
+
+  /** 定期更新を止め、見出しを結果に差し替えてコメントを書き換える */
+  async finish(headline: string): Promise<void> {
+    this.stop();
+    this.headline = headline;
+    await this.flush();
+  }
+
+  /** 定期更新を止める（コメントは書き換えない） */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** コメントを現在の状態で書き換える（更新は直列に行う） */
+  private flush(): Promise<void> {
+    if (this.commentId === null) return Promise.resolve();
+    const commentId = this.commentId;
+    this.dirty = false;
+
+    this.updating = this.updating.then(() =>
+      this.github.updateComment(commentId, this.render()).catch((err) => {
+        log.warn(
+          { err, issueNumber: this.options.issueNumber },
+          "進捗コメントの更新に失敗"
+        );
+      })
+    );
+    return this.updating;
+  }
+
+  private render(): string {
+    const files = [...this.filesTouched];
+    const lines = [
+      this.headline,
+      "",
+      `**経過時間:** ${formatDuration(Date.now() - this.startedAt)}`,
+      `**現在のステップ:** ${truncate(this.currentStep, MAX_STEP_LENGTH)}`,
+      `**ツール実行回数:** ${this.toolUseCount}`,
+    ];
+
+    if (this.costUsd !== undefined) {
+      lines.push(`**コスト:** $${this.costUsd.toFixed(2)}`);
+    }
+
+    if (files.length > 0) {
+      lines.push(
+        "",
+        `<details><summary>変更したファイル（${files.length}）</summary>`,
+        "",
+        ...files.map((f) => `- \`${f}\``),
+        "",
+        "</details>"
+      );
+    }
+
+    return lines.join("\n");
+  }
+}
+
+/** ツール呼び出しを1行の説明にする */
+function describeToolUse(name: string, input: Record<string, unknown>): string {
+  const target =
+    input["file_path"] ??
+    input["notebook_path"] ??
+    input["command"] ??
+    input["pattern"] ??
+    input["url"];
+  return typeof target === "string"
+    ? `\`${name}\` ${target.split("\n")[0]}`
+    : `\`${name}\``;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}分${seconds}秒` : `${seconds}秒`;
+}
@@ -0,0 +1,467 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import { GitHubClient } from "./github.js";
+import { threadsForAgent, type ReviewRequest } from "./review-threads.js";
+import type {
+  CiFailure,
+  RepoConfig,
+  ReviewComment,
+  TrackedIssue,
+} from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("prompts");
+
+/** 対象リポジトリ内でテンプレートを探すディレクトリ */
+export const PROMPTS_DIR = ".orchestrator/prompts";
+
+/** プロンプトに含める差分・コンテキストファイルの最大文字数 */
+const MAX_SECTION_LENGTH = 20_000;
+
+/** Issue 本文から辿る関連 Issue の最大件数 */
+const MAX_LINKED_ISSUES = 5;
+
+/** プロンプトに表示するレビューの状態 */
+const REVIEW_STATES: Record<string, string> = {
+  CHANGES_REQUESTED: "変更を要求",
+  COMMENTED: "コメント",
+};
+
+export type PromptName = "implement" | "plan" | "review" | "conflict" | "ci";
+
+const DEFAULT_TEMPLATES: Record<PromptName, string> = {
+  implement: `あなたは GitHub Issue の内容に基づいてコードを実装するエージェントです。
+
+## 実装対象の Issue
+
+**タイトル:** {{issue.title}}
+**Issue番号:** #{{issue.number}}
+
+**内容:**
+{{issue.body}}
+
+## 関連 Issue
+
+{{linkedIssues}}
+
+## 参考情報
+
+{{contextFiles}}
+
+## 承認済みの実装計画
+
+{{plan}}
+
+## 指示
+
+1. Issue の内容を分析し、必要な実装を行ってください（承認済みの実装計画がある場合はそれに沿ってください）
+2. CLAUDE.md が存在する場合はその指示に従ってください
+3. テストが必要な場合はテストも作成してください
+4. 実装完了後、変更を git commit してください（git push は不要）
+5. コミットメッセージは日本語で、適切な prefix をつけてください
+
+## 情報が不足している場合
+
+Issue の内容だけでは何を実装すべきか判断できない場合は、推測で実装せず、コードを変更しないまま
+最後の応答に以下の形式で質問を1行ずつ含めてください（Issue に投稿され、回答を受けてこのセッションを再開します）:
+[NEEDS_CLARIFICATION] 質問内容
+
+## 判断ポイント
+
+実装中に迷った点や代替案がある場合は、最後の応答に以下の形式で1行ずつ含めてください:
+[DECISION_POINT] 迷った内容の説明 | 採用した選択肢 | 見送った選択肢
+
+最後の応答には、実装内容の簡潔な要約も含めてください（PR本文に掲載されます）。`,
+
+  plan: `あなたは GitHub Issue の内容に基づいて実装計画を立てるエージェントです。
+この段階ではコードを変更せず、計画の作成だけを行ってください。計画が承認されると、同じセッションで実装を依頼します。
+
+## 対象の Issue
+
+**タイトル:** {{issue.title}}
+**Issue番号:** #{{issue.number}}
+
+**内容:**
+{{issue.body}}
+
+## 関連 Issue
+
+{{linkedIssues}}
+
+## 参考情報
+
+{{contextFiles}}
+
+## 指示
+
+1. リポジトリのコードを読み、Issue の実装に必要な変更を調査してください
+2. CLAUDE.md が存在する場合はその指示に従ってください
+3. 最後の応答に、次の内容を Markdown で簡潔にまとめてください（Issue にそのまま掲載されます）
+   - 変更方針の概要
+   - 変更・追加するファイルとその内容
+   - テストの方針
+   - 判断に迷った点・確認したい点`,
+
+  review: `あなたはPRのレビューコメントに基づいてコードを修正するエージェントです。
+
+## レビューコメント
+
+{{comments}}
+
+## 指示
+
+1. 各レビューコメントの内容を理解し、適切な修正を行ってください
+2. CLAUDE.md が存在する場合はその指示に従ってください
+3. 修正完了後、変更を git commit してください（git push は不要）
+4. コミットメッセージは日本語で、\`fix:\` prefix をつけてください
+5. レビュアーの意図が不明な場合は、最も合理的な解釈で実装してください
+6. 「提案を適用済み」のコメントの提案はコミット済みです。提案以外の指示があればそれに対応してください
+7. 「編集済み」のコメントは、以前に対応したコメントをレビュアーが書き直したものです。書き直された内容に合わせて修正してください
+
+## スレッドへの返信
+
+レビュースレッドごとに、最後の応答に以下の形式で1行ずつ対応内容を含めてください（スレッドに返信として投稿され、対応済みのスレッドは解決済みになります）:
+[THREAD_REPLY] スレッドID | 対応済み または 未対応 | 返信内容（何をどう変更したか。未対応ならその理由）`,
+
+  conflict: `あなたはPRのブランチにベースブランチをマージした際のコンフリクトを解消するエージェントです。
+
+## 状況
+
+PR #{{pr.number}}（ブランチ \`{{pr.branch}}\`）に \`origin/{{baseBranch}}\` をマージしたところ、次のファイルでコンフリクトが発生しました。
+
+{{conflicts}}
+
+## 参考情報
+
+{{contextFiles}}
+
+## 指示
+
+1. コンフリクトしたファイルのマーカー（<<<<<<< / ======= / >>>>>>>）を解消してください
+2. ベースブランチの変更を取り込みつつ、PR の変更の意図を保ってください
+3. CLAUDE.md が存在する場合はその指示に従ってください
+4. 解消したファイルを git add し、\`git commit --no-edit\` でマージコミットを作成してください（git push は不要）
+5. マージ以外の変更（リファクタリングなど）は行わないでください`,
+
+  ci: `あなたはPRの CI の失敗を修正するエージェントです。
+
+## 状況
+
+PR #{{pr.number}}（ブランチ \`{{pr.branch}}\`）の先頭のコミットで、次の CI のチェックが失敗しました。
+
+{{failures}}
+
+## PR の変更内容
+
+{{diff}}
+
+## 参考情報
+
+{{contextFiles}}
+
+## 指示
+
+1. ログから失敗の原因を特定し、修正してください
+2. CLAUDE.md が存在する場合はその指示に従ってください
+3. 可能であれば、失敗したチェックと同じコマンドをローカルで実行して修正を確認してください
+4. 修正完了後、変更を git commit してください（git push は不要）
+5. コミットメッセージは日本語で、\`fix:\` prefix をつけてください
+6. テストを削除・スキップするなど、チェックを通すためだけの変更は行わないでください
+7. CI の設定や外部サービスの問題などコードでは直せない失敗の場合は、変更せずにその理由を最後の応答で説明してください`,
+};
+
+/**
+ * Claude Code に渡すプロンプトをテンプレートから組み立てる。
+ * テンプレートは対象リポジトリの `.orchestrator/prompts/<名前>.md` を優先し、なければ組み込みの既定を使う。
+ * テンプレート中の `{{変数名}}` を置き換え、未定義の変数があればエラーにする。
+ */
+export class PromptBuilder {
+  private github: GitHubClient;
+  private repo: RepoConfig;
+
+  constructor(github: GitHubClient, repo: RepoConfig) {
+    this.github = github;
+    this.repo = repo;
+  }
+
+  /**
+   * Issue 実装のプロンプト。
+   * 変数: repo, baseBranch, issue.number, issue.title, issue.body, issue.labels,
+   * linkedIssues, contextFiles, plan（承認済みの実装計画）
+   */
+  async buildImplementPrompt(
+    issue: TrackedIssue,
+    cwd: string,
+    approvedPlan?: string
+  ): Promise<string> {
+    return this.render("implement", cwd, {
+      ...(await this.issueVariables(issue, cwd)),
+      plan: approvedPlan ?? "（なし）",
+    });
+  }
+
+  /**
+   * 実装計画の作成のプロンプト。
+   * 変数: repo, baseBranch, issue.number, issue.title, issue.body, issue.labels,
+   * linkedIssues, contextFiles
+   */
+  async buildPlanPrompt(issue: TrackedIssue, cwd: string): Promise<string> {
+    return this.render("plan", cwd, await this.issueVariables(issue, cwd));
+  }
+
+  /**
+   * レビュー対応のプロンプト。
+   * 変数: repo, baseBranch, pr.number, pr.branch, comments（スレッドごとのコメント・レビュー本文）, diff, contextFiles
+   */
+  async buildReviewPrompt(
+    prNumber: number,
+    branchName: string,
+    request: ReviewRequest,
+    cwd: string
+  ): Promise<string> {
+    return this.render("review", cwd, {
+      repo: this.repo.fullName,
+      baseBranch: this.repo.baseBranch,
+      "pr.number": String(prNumber),
+      "pr.branch": branchName,
+      comments: renderReviewRequest(request),
+      diff: await this.renderDiff(cwd),
+      contextFiles: await this.renderContextFiles(cwd),
+    });
+  }
+
+  /**
+   * ベースブランチのマージで起きたコンフリクトの解消のプロンプト。
+   * 変数: repo, baseBranch, pr.number, pr.branch, conflicts（コンフリクトしたファイル）, contextFiles
+   */
+  async buildConflictPrompt(
+    prNumber: number,
+    branchName: string,
+    conflicts: string[],
+    cwd: string
+  ): Promise<string> {
+    return this.render("conflict", cwd, {
+      repo: this.repo.fullName,
+      baseBranch: this.repo.baseBranch,
+      "pr.number": String(prNumber),
+      "pr.branch": branchName,
+      conflicts: conflicts.map((f) => `- ${f}`).join("\n"),
+      contextFiles: await this.renderContextFiles(cwd),
+    });
+  }
+
+  /**
+   * CI の失敗の修正のプロンプト。
+   * 変数: repo, baseBranch, pr.number, pr.branch, failures（失敗したチェックとログ）, diff, contextFiles
+   */
+  async buildCiFixPrompt(
+    prNumber: number,
+    branchName: string,
+    failures: CiFailure[],
+    cwd: string
+  ): Promise<string> {
+    return this.render("ci", cwd, {
+      repo: this.repo.fullName,
+      baseBranch: this.repo.baseBranch,
+      "pr.number": String(prNumber),
+      "pr.branch": branchName,
+      failures: failures.map(renderCiFailure).join("\n\n"),
+      diff: await this.renderDiff(cwd),
+      contextFiles: await this.renderContextFiles(cwd),
+    });
+  }
+
+  private async issueVariables(
+    issue: TrackedIssue,
+    cwd: string
+  ): Promise<Record<string, string>> {
+    return {
+      repo: this.repo.fullName,
+      baseBranch: this.repo.baseBranch,
+      "issue.number": String(issue.number),
+      "issue.title": issue.title,
+      "issue.body": issue.body,
+      "issue.labels": issue.labels.join(", "),
+      linkedIssues: await this.renderLinkedIssues(issue),
+      contextFiles: await this.renderContextFiles(cwd),
+    };
+  }
+
+  private async render(
+    name: PromptName,
+    cwd: string,
+    variables: Record<string, string>
+  ): Promise<string> {
+    const templatePath = path.join(PROMPTS_DIR, `${name}.md`);
+    let template = DEFAULT_TEMPLATES[name];
+    let templateName = `（組み込み）${name}`;
+    try {
+      template = await readFile(path.join(cwd, templatePath), "utf-8");
+      templateName = templatePath;
+      log.debug(
+        { repo: this.repo.fullName, templatePath },
+        "リポジトリのテンプレートを使用"
+      );
+    } catch {
+      // テンプレートがなければ組み込みの既定を使う
+    }
+
+    return renderTemplate(template, variables, templateName);
+  }
+
+  /** Issue 本文中の `#番号` で参照された Issue の概要 */
+  private async renderLinkedIssues(issue: TrackedIssue): Promise<string> {
+    const referenced = [...issue.body.matchAll(/(?:^|[^\w&])#(\d+)\b/g)].map(
+      (m) => Number(m[1])
+    );
+    const numbers = [...new Set(referenced)]
+      .filter((n) => n !== issue.number)
+      .slice(0, MAX_LINKED_ISSUES);
+
+    const sections: string[] = [];
+    for (const n of numbers) {
+      const linked = await this.github.getIssue(n).catch((err) => {
+        log.warn({ err, issueNumber: n }, "関連Issueの取得に失敗");
+        return undefined;
+      });
+      if (!linked) continue;
+      const body = truncate(linked.body) || "（本文なし）";
+      sections.push(`### #${linked.number} ${linked.title}\n\n${body}`);
+    }
+    return sections.length > 0 ? sections.join("\n\n") : "（なし）";
+  }
+
+  /** 設定された参考ファイルの内容（存在しないファイルは飛ばす） */
+  private async renderContextFiles(cwd: string): Promise<string> {
+    const sections: string[] = [];
+    for (const file of this.repo.contextFiles) {
+      try {
+        const content = await readFile(path.join(cwd, file), "utf-8");
+        sections.push(`### ${file}\n\n\`\`\`\n${truncate(content.trimEnd())}\n\`\`\``);
+      } catch {
+        log.debug(
+          { repo: this.repo.fullName, file },
+          "参考ファイルがないためスキップ"
+        );
+      }
+    }
+    return sections.length > 0 ? sections.join("\n\n") : "（なし）";
+  }
+
+  /** ベースブランチからの差分 */
+  private async renderDiff(cwd: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["diff", `origin/${this.repo.baseBranch}...HEAD`],
+        { cwd, maxBuffer: 64 * 1024 * 1024 }
+      );
+      return `\`\`\`diff\n${truncate(stdout.trim())}\n\`\`\``;
+    } catch (err) {
+      log.warn({ err, cwd }, "差分の取得に失敗");
+      return "（差分を取得できませんでした）";
+    }
+  }
+}
+
+/** `{{変数名}}` を置き換える（未定義の変数が含まれていればエラー） */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+  templateName: string
+): string {
+  const unknown = new Set<string>();
+  const rendered = template.replace(
+    /\{\{\s*([\w.]+)\s*\}\}/g,
+    (placeholder, key: string) => {
+      const value = variables[key];
+      if (value === undefined) {
+        unknown.add(key);
+        return placeholder;
+      }
+      return value;
+    }
+  );
+
+  if (unknown.size > 0) {
+    const available = Object.keys(variables).join(", ");
+    throw new Error(
+      `プロンプトテンプレート ${templateName} に未定義の変数があります: ${[
+        ...unknown,
+      ].join(", ")}（使用できる変数: ${available}）`
+    );
+  }
+  return rendered;
+}
+
+/** レビューの依頼をプロンプト用の Markdown にする（スレッド → スレッドに属さないコメントの順） */
+function renderReviewRequest(request: ReviewRequest): string {
+  const applied = new Set(request.suggestions.map((c) => c.id));
+  const sections: string[] = [];
+
+  for (const { thread, comments } of threadsForAgent(request)) {
+    const newComments = new Map(comments.map((c) => [c.id, c]));
+    const loc = thread.line
+      ? `${thread.path}:${thread.line}`
+      : `${thread.path}（差分が古くなっています）`;
+    const history = thread.comments.map((c) => {
+      const comment = newComments.get(c.id);
+      const marks = [
+        comment ? (comment.edited ? "編集済み" : "新規") : "",
+        applied.has(c.id) ? "提案を適用済み" : "",
+      ].filter(Boolean);
+      const note = marks.length > 0 ? `（${marks.join("・")}）` : "";
+      return `#### @${c.user}${note}\n${c.body}`;
+    });
+    sections.push(
+      [
+        `### スレッドID: ${thread.comments[0]?.id}`,
+        `**ファイル:** ${loc}`,
+        `\`\`\`diff\n${truncate(thread.diffHunk)}\n\`\`\``,
+        ...history,
+      ].join("\n\n")
+    );
+  }
+
+  for (const c of request.comments) {
+    sections.push(renderComment(c));
+  }
+  return sections.join("\n\n---\n\n");
+}
+
+/** スレッドに属さないコメント */
+function renderComment(c: ReviewComment): string {
+  const edited = c.edited ? "（編集済み）" : "";
+  if (c.kind === "review") {
+    const state = REVIEW_STATES[c.reviewState ?? ""] ?? c.reviewState;
+    return `### @${c.user} のレビュー${state ? `（${state}）` : ""}${edited}\n${c.body}`;
+  }
+
+  let loc = "";
+  if (c.path) {
+    loc = `\n**ファイル:** ${c.path}`;
+    if (c.line) loc += `:${c.line}`;
+  }
+  const hunk = c.diffHunk
+    ? `\n\n\`\`\`diff\n${truncate(c.diffHunk)}\n\`\`\``
+    : "";
+  return `### @${c.user} のコメント${edited}${loc}${hunk}\n${c.body}`;
+}
+
+function renderCiFailure({ check, log }: CiFailure): string {
+  const conclusion = check.conclusion ? `（${check.conclusion}）` : "";
+  const details = check.detailsUrl ? `\n**詳細:** ${check.detailsUrl}` : "";
+  const output = log
+    ? `\n\n\`\`\`\n${truncate(log)}\n\`\`\``
+    : "\n\n（ログを取得できませんでした）";
+  return `### ${check.name}${conclusion}${details}${output}`;
+}
+
+function truncate(text: string, maxLength = MAX_SECTION_LENGTH): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n…（${text.length - maxLength}文字省略）`
+    : text;
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { parseConfig } from "./config.js";
+import { PushGuard, PushGuardError } from "./push-guard.js";
+import type { PushGuardConfig, RepoConfig } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+const BASE = "main";
+
+/** 検出される AWS のアクセスキーの形をした値 */
+const AWS_KEY = "AKIA" + "ABCDEFGHIJKLMNOP";
+
+function repoConfig(pushGuard: Partial<PushGuardConfig> = {}): RepoConfig {
+  return parseConfig({
+    github: { token: "token" },
+    repositories: [
+      {
+        repo: "owner/repo",
+        pushGuard: {
+          protectedPaths: [".github/workflows/", "package-lock.json"],
+          secretScanIgnore: ["fixtures/**"],
+          maxDiffLines: 0,
+          maxFiles: 0,
+          ...pushGuard,
+        },
+      },
+    ],
+  }).repositories[0]!;
+}
+
+describe("PushGuard", () => {
+  let dir: string;
+
+  async function git(...args: string[]): Promise<void> {
+    await execFileAsync(
+      "git",
+      ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+      { cwd: dir }
+    );
+  }
+
+  /** 作業ブランチにファイルを書いてコミットする */
+  async function commit(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await writeFile(path.join(dir, file), content);
+    }
+    await git("add", "-A");
+    await git("commit", "-m", "change");
+  }
+
+  /** 検査の結果（問題がなければ空） */
+  async function check(
+    config: RepoConfig = repoConfig(),
+    allowProtected = false
+  ): Promise<Array<{ check: string; detail: string }>> {
+    try {
+      await new PushGuard(config).check(dir, BASE, async () => allowProtected);
+      return [];
+    } catch (err) {
+      assert.ok(err instanceof PushGuardError);
+      assert.ok(!err.message.includes(AWS_KEY), "秘密情報は伏せる");
+      return err.violations;
+    }
+  }
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "push-guard-test-"));
+    await git("init", "-q", "-b", BASE);
+    await commit({ "README.md": "# sandbox\n" });
+  });
+
+  beforeEach(async () => {
+    await git("checkout", "-q", "-B", "work", BASE);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("問題のない差分は通す", async () => {
+    await commit({ "src/hello.ts": 'export const hello = "hello";\n' });
+
+    assert.deepEqual(await check(), []);
+  });
+
+  it("追加した秘密情報を伏せ字で報告する", async () => {
+    await commit({ "src/config.ts": `const key = "${AWS_KEY}";\n` });
+
+    assert.deepEqual(await check(), [
+      {
+        check: "秘密情報",
+        detail: "src/config.ts:1 AWS のアクセスキー（AKIA…20文字）",
+      },
+    ]);
+  });
+
+  it("secretScanIgnore に一致するファイルは秘密情報を検査しない", async () => {
+    await commit({ "fixtures/keys.txt": `${AWS_KEY}\n` });
+
+    assert.deepEqual(await check(), []);
+  });
+
+  it("保護されたパスの変更は許可されない限り拒否する", async () => {
+    await commit({
+      ".github/workflows/ci.yml": "on: push\n",
+      "web/package-lock.json": "{}\n",
+    });
+
+    assert.deepEqual(
+      (await check()).map((v) => v.detail),
+      [".github/workflows/ci.yml", "web/package-lock.json"]
+    );
+    assert.deepEqual(await check(repoConfig(), true), []);
+  });
+
+  it("差分の行数・ファイル数の上限を超えたら拒否する", async () => {
+    await commit({ "a.txt": "1\n2\n3\n", "b.txt": "1\n" });
+
+    assert.deepEqual(await check(repoConfig({ maxDiffLines: 3 })), [
+      { check: "差分の行数", detail: "4 行（上限 3 行）" },
+    ]);
+    assert.deepEqual(await check(repoConfig({ maxFiles: 1 })), [
+      { check: "変更したファイル数", detail: "2 件（上限 1 件）" },
+    ]);
+    assert.deepEqual(
+      await check(repoConfig({ maxDiffLines: 4, maxFiles: 2 })),
+      []
+    );
+  });
+});
@@ -0,0 +1,326 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { createChildLogger } from "./logger.js";
+import type { RepoConfig } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("push-guard");
+
+/** 差分の出力を受け取るバッファの上限 */
+const MAX_BUFFER_BYTES = 64 * 1024 * 1024;
+
+/** 報告に含める問題の最大件数（検査ごと） */
+const MAX_REPORTED = 20;
+
+/** 高エントロピーの文字列とみなす1文字あたりのエントロピー（ビット） */
+const HIGH_ENTROPY_BITS = 4.5;
+
+/** 高エントロピーの検査の対象にする文字列（base64・URL セーフな文字の32文字以上の並び） */
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_-]{32,}/g;
+
+interface SecretRule {
+  name: string;
+  /** g フラグ付きの正規表現 */
+  pattern: RegExp;
+  /** 一致した部分（グループがあれば最初のグループ）を秘密情報とみなすか */
+  accept?: (value: string) => boolean;
+}
+
+/** 秘密情報の検出ルール（上から順に調べ、1行につき最初に一致したものを報告する） */
+const SECRET_RULES: ReadonlyArray<SecretRule> = [
+  { name: "秘密鍵", pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----/g },
+  { name: "AWS のアクセスキー", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "GitHub のトークン",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+  },
+  { name: "Anthropic の API キー", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "OpenAI の API キー", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/g },
+  { name: "Slack のトークン", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "Google の API キー", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "Stripe のシークレットキー", pattern: /\b[rs]k_live_[0-9A-Za-z]{24,}/g },
+  {
+    // プレースホルダ（your-api-key など）を除くため、数字を含むランダムな値だけを対象にする
+    name: "パスワード・トークンの代入",
+    pattern:
+      /(?:password|passwd|secret|token|api[_-]?key|access[_-]?key)["']?\s*[:=]\s*["']([^"'\s]{12,})["']/gi,
+    accept: (value) => /\d/.test(value) && entropy(value) >= 3.5,
+  },
+  {
+    name: "高エントロピーの文字列",
+    pattern: TOKEN_PATTERN,
+    accept: (value) =>
+      /[a-z]/.test(value) &&
+      /[A-Z]/.test(value) &&
+      /\d/.test(value) &&
+      entropy(value) >= HIGH_ENTROPY_BITS,
+  },
+];
+
+export interface PushGuardViolation {
+  /** 問題の種類 */
+  check: string;
+  /** 報告する内容（秘密情報は伏せ字にする） */
+  detail: string;
+}
+
+/** push 前の検査で問題が見つかったことを表すエラー（メッセージは秘密情報を伏せた報告） */
+export class PushGuardError extends Error {
+  readonly violations: PushGuardViolation[];
+
+  constructor(violations: PushGuardViolation[]) {
+    super(formatViolations(violations));
+    this.name = "PushGuardError";
+    this.violations = violations;
+  }
+}
+
+/** 差分で追加された行 */
+interface AddedLine {
+  file: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * Claude Code のコミットを push する前に、base からの差分を検査する（リポジトリごとに1つ）。
+ * 秘密情報・高エントロピーの文字列の追加、保護されたパスの変更、差分の行数・ファイル数の上限を確認し、
+ * 問題があれば push させずに PushGuardError を投げる。設定は検査のたびに読む。
+ */
+export class PushGuard {
+  private repo: RepoConfig;
+
+  constructor(repo: RepoConfig) {
+    this.repo = repo;
+  }
+
+  /**
+   * worktree の HEAD を base（のマージベース）からの差分で検査する。
+   * allowProtected は保護されたパスを変更していた場合だけ呼び、true なら変更を許可する。
+   */
+  async check(
+    worktreePath: string,
+    base: string,
+    allowProtected: () => Promise<boolean>
+  ): Promise<void> {
+    const config = this.repo.pushGuard;
+    const files = await this.changedFiles(worktreePath, base);
+    const violations: PushGuardViolation[] = [];
+
+    const secrets = (await this.addedLines(worktreePath, base))
+      .filter(
+        (added) =>
+          !config.secretScanIgnore.some((p) => matchesPath(p, added.file))
+      )
+      .flatMap((added) => {
+        const finding = findSecret(added.text);
+        return finding
+          ? [
+              {
+                check: "秘密情報",
+                detail: `${added.file}:${added.line} ${finding.rule}（${redact(finding.value)}）`,
+              },
+            ]
+          : [];
+      });
+    violations.push(...secrets);
+
+    const protectedFiles = files
+      .map((f) => f.path)
+      .filter((file) =>
+        config.protectedPaths.some((p) => matchesPath(p, file))
+      );
+    if (protectedFiles.length > 0 && !(await allowProtected())) {
+      violations.push(
+        ...protectedFiles.map((file) => ({
+          check: `保護されたパス（${this.repo.labels.allowProtected} ラベルで許可）`,
+          detail: file,
+        }))
+      );
+    }
+
+    const lines = files.reduce((sum, f) => sum + f.lines, 0);
+    if (config.maxDiffLines > 0 && lines > config.maxDiffLines) {
+      violations.push({
+        check: "差分の行数",
+        detail: `${lines} 行（上限 ${config.maxDiffLines} 行）`,
+      });
+    }
+    if (config.maxFiles > 0 && files.length > config.maxFiles) {
+      violations.push({
+        check: "変更したファイル数",
+        detail: `${files.length} 件（上限 ${config.maxFiles} 件）`,
+      });
+    }
+
+    log.info(
+      {
+        repo: this.repo.fullName,
+        worktreePath,
+        base,
+        files: files.length,
+        lines,
+        violations: [...new Set(violations.map((v) => v.check))],
+      },
+      violations.length === 0
+        ? "push 前の検査に成功"
+        : "push 前の検査で問題を検出"
+    );
+    if (violations.length > 0) throw new PushGuardError(violations);
+  }
+
+  /** 変更したファイルと、ファイルごとの変更行数（追加＋削除。バイナリは 0） */
+  private async changedFiles(
+    worktreePath: string,
+    base: string
+  ): Promise<Array<{ path: string; lines: number }>> {
+    const { stdout } = await this.git(worktreePath, [
+      "diff",
+      "--numstat",
+      "-z",
+      "--no-renames",
+      `${base}...HEAD`,
+    ]);
+    return stdout
+      .split("\0")
+      .filter(Boolean)
+      .map((entry) => {
+        const [added, deleted, file] = entry.split("\t") as [
+          string,
+          string,
+          string,
+        ];
+        return {
+          path: file,
+          lines: (Number(added) || 0) + (Number(deleted) || 0),
+        };
+      });
+  }
+
+  /** 差分で追加された行を、ファイル名と行番号付きで取り出す */
+  private async addedLines(
+    worktreePath: string,
+    base: string
+  ): Promise<AddedLine[]> {
+    const { stdout } = await this.git(worktreePath, [
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "--no-renames",
+      "--no-color",
+      "--no-ext-diff",
+      "--unified=0",
+      `${base}...HEAD`,
+    ]);
+
+    const lines: AddedLine[] = [];
+    let file: string | undefined;
+    let lineNumber = 0;
+    // ファイルのヘッダ（---・+++）と、ハンクの中の行（先頭が - や + の内容）を区別する
+    let inHunk = false;
+    for (const line of stdout.split("\n")) {
+      if (line.startsWith("diff --git ")) {
+        inHunk = false;
+        file = undefined;
+      } else if (!inHunk && line.startsWith("+++ ")) {
+        file = line === "+++ /dev/null" ? undefined : line.slice(6);
+      } else if (line.startsWith("@@")) {
+        inHunk = true;
+        lineNumber = Number(/\+(\d+)/.exec(line)?.[1] ?? 0);
+      } else if (inHunk && file && line.startsWith("+")) {
+        lines.push({ file, line: lineNumber, text: line.slice(1) });
+        lineNumber++;
+      }
+    }
+    return lines;
+  }
+
+  private git(
+    cwd: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync("git", args, { cwd, maxBuffer: MAX_BUFFER_BYTES });
+  }
+}
+
+/**
+ * パスがパターンに一致するか。
+ * `/` で終わるパターンはそのディレクトリ以下、`/` を含まないパターンはどのディレクトリのファイル名にも一致する。
+ * `*` は `/` 以外の任意の文字列、`**` は任意の階層に一致する。
+ */
+function matchesPath(pattern: string, file: string): boolean {
+  if (pattern.endsWith("/")) {
+    return file.startsWith(pattern.replace(/^\//, ""));
+  }
+  if (!pattern.includes("/")) {
+    return globToRegExp(pattern).test(file.slice(file.lastIndexOf("/") + 1));
+  }
+  return globToRegExp(pattern.replace(/^\//, "")).test(file);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** 行に含まれる秘密情報を探す（最初に一致したルールと値） */
+function findSecret(text: string): { rule: string; value: string } | undefined {
+  for (const rule of SECRET_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[1] ?? match[0];
+      if (!rule.accept || rule.accept(value)) {
+        return { rule: rule.name, value };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** シャノンエントロピー（1文字あたりのビット数） */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/** 秘密情報を報告できる形に伏せる（先頭の4文字と長さだけを残す） */
+function redact(value: string): string {
+  return `${value.slice(0, 4)}…${value.length}文字`;
+}
+
+/** 検査の結果をコメント・ログ向けの報告にする（検査ごとにまとめ、多い場合は省略する） */
+function formatViolations(violations: PushGuardViolation[]): string {
+  const groups = new Map<string, string[]>();
+  for (const v of violations) {
+    groups.set(v.check, [...(groups.get(v.check) ?? []), v.detail]);
+  }
+  const sections = [...groups].map(([check, details]) => {
+    const shown = details.slice(0, MAX_REPORTED);
+    const omitted = details.length - shown.length;
+    return [
+      `[${check}]`,
+      ...shown,
+      ...(omitted > 0 ? [`…ほか ${omitted} 件`] : []),
+    ].join("\n");
+  });
+  return `push 前の検査で問題が見つかったため push を中止しました\n\n${sections.join("\n\n")}`;
+}
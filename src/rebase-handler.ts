@@ -0,0 +1,422 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import { assertClaudeSucceeded } from "./claude.js";
+import type { AgentRunner } from "./agent-runner.js";
+import { GitHubClient } from "./github.js";
+import {
+  BudgetTracker,
+  BudgetExceededError,
+  type TaskSpend,
+} from "./budget.js";
+import { PromptBuilder } from "./prompts.js";
+import { Verifier, formatFailures } from "./verifier.js";
+import { gitRemoteOptions, WITHOUT_HOOKS } from "./repository.js";
+import { Sandbox } from "./sandbox.js";
+import { isCancelled, isInterrupted } from "./worker-pool.js";
+import type { StateStore } from "./state-store.js";
+import type { Config, RepoConfig } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("rebase-handler");
+
+/** ベースブランチへの追従のしかた */
+type Integration = "up-to-date" | "rebase" | "merge" | "merge-with-conflicts";
+
+/**
+ * オーケストレータが作った PR をベースブランチに追従させる（リポジトリごとに1つ）。
+ * まずリベースし、コンフリクトした場合はリベースをやめてベースブランチをマージし、
+ * コンフリクトを Claude Code に解消させる（リベースではコミットごとに解消が必要になるため）。
+ * 検証が通ったら、取得時点のブランチの先頭を条件に force-with-lease で push する。
+ */
+export class RebaseHandler {
+  private github: GitHubClient;
+  private config: Config;
+  private repo: RepoConfig;
+  private repoRoot: string;
+  /** PR番号 → セッションID（レビュー対応と共有し、PR の経緯を引き継ぐ） */
+  private store: StateStore;
+  private budget: BudgetTracker;
+  private verifier: Verifier;
+  private prompts: PromptBuilder;
+  private sandbox: Sandbox;
+  private agent: AgentRunner;
+
+  constructor(
+    github: GitHubClient,
+    config: Config,
+    repo: RepoConfig,
+    store: StateStore,
+    budget: BudgetTracker,
+    verifier: Verifier,
+    agent: AgentRunner
+  ) {
+    this.github = github;
+    this.config = config;
+    this.repo = repo;
+    this.repoRoot = repo.localPath;
+    this.store = store;
+    this.budget = budget;
+    this.verifier = verifier;
+    this.prompts = new PromptBuilder(github, repo);
+    this.sandbox = new Sandbox(repo);
+    this.agent = agent;
+  }
+
+  /**
+   * PR をベースブランチに追従させる。
+   * requestedBy は `/auto rebase` を投稿した利用者（自動で実行した場合は undefined）。
+   */
+  async handle(
+    prNumber: number,
+    abortSignal: AbortSignal,
+    requestedBy?: string
+  ): Promise<void> {
+    log.info(
+      { repo: this.repo.fullName, prNumber, requestedBy },
+      "ベースブランチへの追従を開始"
+    );
+
+    const branchName = await this.github.getPRBranch(prNumber);
+    const worktreePath = path.join(
+      this.repoRoot,
+      ".worktrees",
+      `rebase-pr-${prNumber}`
+    );
+    const mention = requestedBy ? `@${requestedBy} ` : "";
+
+    try {
+      await this.createWorktree(worktreePath, branchName);
+      const { stdout: head } = await this.git(worktreePath, [
+        "rev-parse",
+        "HEAD",
+      ]);
+      const leaseSha = head.trim();
+
+      const spend: TaskSpend = {
+        taskId: `${this.repo.fullName}#rebase-${prNumber}`,
+        type: "rebase",
+      };
+      const integration = await this.integrate(
+        prNumber,
+        branchName,
+        worktreePath,
+        spend,
+        abortSignal
+      );
+      if (integration === "up-to-date") {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "既にベースブランチに追従済み"
+        );
+        if (requestedBy) {
+          await this.github.postComment(
+            prNumber,
+            `${mention}✅ このPRは既に \`${this.repo.baseBranch}\` に追従しています。`
+          );
+        }
+        return;
+      }
+
+      await this.verifyAndRepair(prNumber, worktreePath, spend, abortSignal);
+
+      // 取得後に誰かが push していたら上書きせずに失敗させる
+      await this.remoteGit(worktreePath, [
+        "push",
+        `--force-with-lease=${branchName}:${leaseSha}`,
+        "origin",
+        branchName,
+      ]);
+
+      const message: Record<Exclude<Integration, "up-to-date">, string> = {
+        rebase: `🔄 \`${this.repo.baseBranch}\` にリベースしました。`,
+        merge: `🔀 \`${this.repo.baseBranch}\` をマージしました（リベースではコンフリクトしたため）。`,
+        "merge-with-conflicts": `🔀 \`${this.repo.baseBranch}\` をマージし、コンフリクトを解消しました。内容をご確認ください。`,
+      };
+      await this.github.postComment(
+        prNumber,
+        `${mention}${message[integration]}`
+      );
+      await this.budget.resetTask(spend.taskId);
+      log.info(
+        { repo: this.repo.fullName, prNumber, integration },
+        "ベースブランチへの追従が完了"
+      );
+    } catch (err) {
+      // シャットダウンによる中断は失敗として報告しない
+      if (isInterrupted(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "リベースをシャットダウンにより中断"
+        );
+        return;
+      }
+
+      if (isCancelled(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "リベースをキャンセル"
+        );
+        await this.github
+          .postComment(
+            prNumber,
+            "🛑 `/auto cancel` によりベースブランチへの追従を中止しました。"
+          )
+          .catch(() => {});
+        return;
+      }
+
+      log.error(
+        { err, repo: this.repo.fullName, prNumber },
+        "ベースブランチへの追従に失敗"
+      );
+      const budgetExceeded = err instanceof BudgetExceededError;
+      if (budgetExceeded) {
+        await this.github
+          .addLabel(prNumber, this.repo.labels.budgetExceeded)
+          .catch(() => {});
+      }
+      await this.github
+        .postComment(
+          prNumber,
+          `${mention}${
+            budgetExceeded
+              ? "⏱️ 予算・時間の上限に達したためベースブランチへの追従を中止しました。"
+              : `❌ \`${this.repo.baseBranch}\` への追従に失敗しました。手動でリベースしてください。`
+          }\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
+        )
+        .catch(() => {});
+    } finally {
+      await this.removeWorktree(worktreePath).catch((err) => {
+        log.warn({ err, worktreePath }, "worktreeの削除に失敗");
+      });
+    }
+  }
+
+  /** ベースブランチをリベース（コンフリクトしたらマージ）で取り込む */
+  private async integrate(
+    prNumber: number,
+    branchName: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<Integration> {
+    const base = `origin/${this.repo.baseBranch}`;
+    const upToDate = await this.git(worktreePath, [
+      "merge-base",
+      "--is-ancestor",
+      base,
+      "HEAD",
+    ]).then(
+      () => true,
+      () => false
+    );
+    if (upToDate) return "up-to-date";
+
+    try {
+      await this.git(worktreePath, ["rebase", base]);
+      return "rebase";
+    } catch (err) {
+      log.info(
+        { err, repo: this.repo.fullName, prNumber },
+        "リベースでコンフリクトしたためマージに切り替える"
+      );
+      await this.git(worktreePath, ["rebase", "--abort"]);
+    }
+
+    try {
+      await this.git(worktreePath, ["merge", "--no-edit", base]);
+      return "merge";
+    } catch {
+      // コンフリクトしたファイルを Claude Code に解消させる
+    }
+
+    const conflicts = await this.conflictedFiles(worktreePath);
+    if (conflicts.length === 0) {
+      throw new Error(`${base} のマージに失敗しました`);
+    }
+    log.info(
+      { repo: this.repo.fullName, prNumber, conflicts },
+      "コンフリクトの解消を Claude に依頼"
+    );
+
+    const prompt = await this.prompts.buildConflictPrompt(
+      prNumber,
+      branchName,
+      conflicts,
+      worktreePath
+    );
+    await this.runAgent(prNumber, prompt, worktreePath, spend, abortSignal);
+
+    const remaining = await this.conflictedFiles(worktreePath);
+    const merging = await this.git(worktreePath, [
+      "rev-parse",
+      "-q",
+      "--verify",
+      "MERGE_HEAD",
+    ]).then(
+      () => true,
+      () => false
+    );
+    if (remaining.length > 0 || merging) {
+      throw new Error(
+        remaining.length > 0
+          ? `コンフリクトを解消できませんでした: ${remaining.join(", ")}`
+          : "コンフリクトを解消できませんでした（マージコミットがありません）"
+      );
+    }
+    return "merge-with-conflicts";
+  }
+
+  /**
+   * worktree を検証し、失敗したらエラー出力を渡して同じセッションで修正させる。
+   * 修正回数の上限を超えても通らなければ、最後の検証ログを含むエラーを投げる。
+   */
+  private async verifyAndRepair(
+    prNumber: number,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const { maxRepairAttempts } = this.config.verification;
+
+    for (let attempt = 0; ; attempt++) {
+      const verification = await this.verifier.verify(
+        worktreePath,
+        `origin/${this.repo.baseBranch}`,
+        abortSignal,
+        this.sandbox
+      );
+      if (verification.passed) return;
+
+      const failures = formatFailures(verification.failures);
+      if (attempt >= maxRepairAttempts) {
+        throw new Error(
+          `追従後の検証に失敗しました（修正 ${attempt} 回）\n\n${failures}`
+        );
+      }
+
+      log.info(
+        { repo: this.repo.fullName, prNumber, attempt: attempt + 1 },
+        "追従後の検証の失敗を Claude に修正させる"
+      );
+      await this.runAgent(
+        prNumber,
+        this.buildRepairPrompt(failures),
+        worktreePath,
+        spend,
+        abortSignal
+      );
+    }
+  }
+
+  /** PR のセッションを継続して Claude Code を実行し、セッションIDを保存する */
+  private async runAgent(
+    prNumber: number,
+    prompt: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const result = await this.budget.run(
+      spend,
+      abortSignal,
+      (signal, onEvent) =>
+        this.agent.run({
+          prompt,
+          cwd: worktreePath,
+          resumeSessionId: this.store.getSession(this.repo.fullName, prNumber),
+          allowedTools: this.config.claude.allowedTools.length > 0
+            ? this.config.claude.allowedTools
+            : undefined,
+          maxTurns: this.config.budget.maxTurns || undefined,
+          abortSignal: signal,
+          onEvent,
+        })
+    );
+    await this.store.setSession(this.repo.fullName, prNumber, result.sessionId);
+    assertClaudeSucceeded(result);
+  }
+
+  /** 検証の失敗を修正させる際のプロンプトを構築 */
+  private buildRepairPrompt(failures: string): string {
+    return `ベースブランチ \`${this.repo.baseBranch}\` に追従した後の検証に失敗しました。以下の出力を確認して問題を修正してください。
+
+\`\`\`
+${failures}
+\`\`\`
+
+修正が終わったら変更を git commit してください（git push は不要）。
+未コミットの変更が残っている場合も検証失敗として扱われます。`;
+  }
+
+  /** マージでコンフリクトしたままのファイル */
+  private async conflictedFiles(worktreePath: string): Promise<string[]> {
+    const { stdout } = await this.git(worktreePath, [
+      "diff",
+      "--name-only",
+      "--diff-filter=U",
+    ]);
+    return stdout.split("\n").filter(Boolean);
+  }
+
+  /** エージェントが置いたフックを実行しないよう、フックを無効にして git を実行 */
+  private git(
+    cwd: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync("git", [...WITHOUT_HOOKS, ...args], { cwd });
+  }
+
+  /** GitHub に接続する git コマンド（fetch / push）を認証ヘッダ付きで実行 */
+  private remoteGit(
+    cwd: string,
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync(
+      "git",
+      args,
+      gitRemoteOptions(this.config.github, cwd)
+    );
+  }
+
+  /** git worktree を作成（既存ブランチ用） */
+  private async createWorktree(
+    worktreePath: string,
+    branchName: string
+  ): Promise<void> {
+    log.debug({ worktreePath, branchName }, "worktreeを作成中");
+
+    await this.remoteGit(this.repoRoot, [
+      "fetch",
+      "origin",
+      branchName,
+      this.repo.baseBranch,
+    ]);
+    await this.git(this.repoRoot, [
+      "worktree",
+      "add",
+      worktreePath,
+      `origin/${branchName}`,
+    ]);
+    // ローカルブランチとして追跡
+    await this.git(worktreePath, [
+      "checkout",
+      "-B",
+      branchName,
+      `origin/${branchName}`,
+    ]);
+  }
+
+  /** git worktree を削除 */
+  private async removeWorktree(worktreePath: string): Promise<void> {
+    log.debug({ worktreePath }, "worktreeを削除中");
+    await this.git(this.repoRoot, [
+      "worktree",
+      "remove",
+      worktreePath,
+      "--force",
+    ]);
+  }
+}
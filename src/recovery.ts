@@ -0,0 +1,264 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { readdir, rm } from "node:fs/promises";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import { GitHubClient } from "./github.js";
+import {
+  WorkerPool,
+  TASK_PRIORITY,
+  FINISHED_TASK_RETENTION_MS,
+} from "./worker-pool.js";
+import { TaskHandler } from "./task-handler.js";
+import {
+  gitRemoteOptions,
+  issueBranchName,
+  issueTaskId,
+} from "./repository.js";
+import type { StateStore } from "./state-store.js";
+import type {
+  Config,
+  RepoConfig,
+  TaskStatus,
+  TrackedIssue,
+} from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("recovery");
+
+/** 中断からの自動復旧を試みる上限回数（超えたら auto-failed にする） */
+const MAX_RECOVERY_ATTEMPTS = 2;
+
+/** 1回の実行の終わりを表すステータス（中断はその後に再開するため含めない） */
+const RUN_ENDED: ReadonlySet<TaskStatus> = new Set([
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+type RecoveryAction = "completed" | "resume" | "requeue" | "failed";
+
+/**
+ * 起動時の整合性回復処理。
+ * 前回の異常終了で auto-in-progress のまま残った Issue と、
+ * `.worktrees/` 配下に取り残された worktree を検出して後始末する。
+ */
+export class Recovery {
+  private github: GitHubClient;
+  private config: Config;
+  private workerPool: WorkerPool;
+  private taskHandler: TaskHandler;
+  private store: StateStore;
+  private repo: RepoConfig;
+  private repoRoot: string;
+
+  constructor(
+    github: GitHubClient,
+    config: Config,
+    workerPool: WorkerPool,
+    taskHandler: TaskHandler,
+    store: StateStore,
+    repo: RepoConfig
+  ) {
+    this.github = github;
+    this.config = config;
+    this.workerPool = workerPool;
+    this.taskHandler = taskHandler;
+    this.store = store;
+    this.repo = repo;
+    this.repoRoot = repo.localPath;
+  }
+
+  /** 整合性回復を実行する（ポーリング開始前に1回呼ぶ） */
+  async run(): Promise<void> {
+    log.info({ repo: this.repo.fullName }, "起動時の整合性チェックを開始");
+
+    // push 済みブランチの有無を判定できるようリモートの最新を取得
+    await execFileAsync(
+      "git",
+      ["fetch", "origin", "--prune"],
+      gitRemoteOptions(this.config.github, this.repoRoot)
+    ).catch((err) => {
+      log.warn({ err }, "git fetch に失敗");
+    });
+
+    const issues = await this.github.fetchLabeledIssues(
+      this.repo.labels.inProgress
+    );
+    const decisions = new Map<number, RecoveryAction>();
+
+    for (const issue of issues) {
+      decisions.set(issue.number, await this.decide(issue));
+    }
+
+    // 再開する Issue の worktree は未コミットの変更を含みうるので残す
+    const keep = new Set(
+      [...decisions]
+        .filter(([, action]) => action === "resume")
+        .map(([issueNumber]) => `issue-${issueNumber}`)
+    );
+    await this.cleanupWorktrees(keep);
+
+    for (const issue of issues) {
+      await this.apply(issue, decisions.get(issue.number)!).catch((err) => {
+        log.error({ err, issueNumber: issue.number }, "Issueの復旧処理に失敗");
+      });
+    }
+
+    log.info(
+      { repo: this.repo.fullName, recovered: Object.fromEntries(decisions) },
+      "起動時の整合性チェックが完了"
+    );
+  }
+
+  /** auto-in-progress のまま残った Issue の扱いを決める */
+  private async decide(issue: TrackedIssue): Promise<RecoveryAction> {
+    const branchName = issueBranchName(this.repo, issue.number);
+
+    // PR 作成後・ラベル更新前に落ちた場合は完了扱い
+    const prNumber = await this.github.findOpenPullRequest(branchName);
+    if (prNumber !== undefined) {
+      return "completed";
+    }
+
+    const attempts = this.countInterruptions(
+      issueTaskId(this.repo, issue.number)
+    );
+    if (attempts > MAX_RECOVERY_ATTEMPTS) {
+      return "failed";
+    }
+
+    const sessionId = this.store.getIssueSession(
+      this.repo.fullName,
+      issue.number
+    );
+    if (sessionId && (await this.hasBranch(branchName))) {
+      return "resume";
+    }
+
+    return "requeue";
+  }
+
+  private async apply(
+    issue: TrackedIssue,
+    action: RecoveryAction
+  ): Promise<void> {
+    log.info(
+      { repo: this.repo.fullName, issueNumber: issue.number, action },
+      "中断されたIssueを復旧"
+    );
+    const { labels } = this.repo;
+
+    switch (action) {
+      case "completed":
+        await this.github.removeLabel(issue.number, labels.inProgress);
+        break;
+
+      case "resume": {
+        const resumeSessionId = this.store.getIssueSession(
+          this.repo.fullName,
+          issue.number
+        )!;
+        const taskId = issueTaskId(this.repo, issue.number);
+        await this.workerPool.submit(
+          taskId,
+          "issue",
+          this.repo.fullName,
+          issue.number,
+          (abortSignal) =>
+            this.taskHandler.handle(issue, abortSignal, { resumeSessionId }),
+          { priority: TASK_PRIORITY.high, exclusiveKey: taskId }
+        );
+        break;
+      }
+
+      case "requeue":
+        // trigger ラベルに戻し、通常のポーリングで最初からやり直す
+        await this.github.removeLabel(issue.number, labels.inProgress);
+        await this.github.addLabel(issue.number, labels.trigger);
+        await this.github.postComment(
+          issue.number,
+          "🔁 オーケストレータの再起動により実装が中断されたため、最初からやり直します。"
+        );
+        break;
+
+      case "failed":
+        // 次に依頼されたときは新しい実行として中断の回数を数え直す
+        await this.store.updateTaskStatus(
+          issueTaskId(this.repo, issue.number),
+          "failed",
+          new Date(Date.now() - FINISHED_TASK_RETENTION_MS)
+        );
+        await this.github.removeLabel(issue.number, labels.inProgress);
+        await this.github.addLabel(issue.number, labels.failed);
+        await this.github.postComment(
+          issue.number,
+          `❌ 自動実装の中断が上限（${MAX_RECOVERY_ATTEMPTS}回）を超えたため、自動復旧を中止しました。`
+        );
+        break;
+    }
+  }
+
+  /**
+   * 今回の実行が中断された回数を履歴から数える。
+   * 前回までの実行（最後に完了・失敗・キャンセルした時点まで）の中断は数えない。
+   */
+  private countInterruptions(taskId: string): number {
+    const task = this.store.getTask(taskId);
+    if (!task) return 0;
+    let count = 0;
+    for (const { status } of [...task.history].reverse()) {
+      if (RUN_ENDED.has(status)) break;
+      if (status === "interrupted") count++;
+    }
+    return count;
+  }
+
+  /** ローカルまたはリモートにブランチが存在するか */
+  private async hasBranch(branchName: string): Promise<boolean> {
+    for (const ref of [
+      `refs/heads/${branchName}`,
+      `refs/remotes/origin/${branchName}`,
+    ]) {
+      try {
+        await execFileAsync("git", ["rev-parse", "--verify", "--quiet", ref], {
+          cwd: this.repoRoot,
+        });
+        return true;
+      } catch {
+        continue;
+      }
+    }
+    return false;
+  }
+
+  /** `.worktrees/` 配下に残った worktree を削除し、git の管理情報を掃除する */
+  private async cleanupWorktrees(keep: Set<string>): Promise<void> {
+    const worktreesDir = path.join(this.repoRoot, ".worktrees");
+
+    let entries: string[] = [];
+    try {
+      entries = await readdir(worktreesDir);
+    } catch {
+      // .worktrees が存在しない場合は何もしない
+    }
+
+    for (const entry of entries) {
+      if (keep.has(entry)) continue;
+
+      const worktreePath = path.join(worktreesDir, entry);
+      log.info({ worktreePath }, "取り残されたworktreeを削除");
+      await execFileAsync(
+        "git",
+        ["worktree", "remove", worktreePath, "--force"],
+        { cwd: this.repoRoot }
+      ).catch(async (err) => {
+        // git の管理下にないディレクトリは直接削除する
+        log.warn({ err, worktreePath }, "git worktree remove に失敗。直接削除");
+        await rm(worktreePath, { recursive: true, force: true });
+      });
+    }
+
+    await execFileAsync("git", ["worktree", "prune"], { cwd: this.repoRoot });
+  }
+}
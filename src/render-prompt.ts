@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { loadConfig } from "./config.js";
+import { GitHubClient } from "./github.js";
+import { PromptBuilder } from "./prompts.js";
+
+/**
+ * Issue から実装用のプロンプトを組み立てて標準出力に表示する（Claude Code は実行しない）。
+ * 対象リポジトリの `.orchestrator/prompts/` のテンプレートを試すときに使う。
+ *
+ * 使い方: npm run prompt:render -- <Issue番号> [--repo owner/repo]
+ *
+ * テンプレートと参考ファイルはローカルのクローン（localPath）の現在の内容から読み込む。
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const repoIndex = args.indexOf("--repo");
+  const repoName = repoIndex === -1 ? undefined : args[repoIndex + 1];
+  const issueArg = args.find(
+    (a, i) => i !== repoIndex && i !== repoIndex + 1
+  );
+
+  const issueNumber = Number(issueArg);
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    throw new Error("プロンプトを表示する Issue 番号を指定してください");
+  }
+
+  const config = loadConfig();
+  const repo = repoName
+    ? config.repositories.find(
+        (r) => r.fullName.toLowerCase() === repoName.toLowerCase()
+      )
+    : config.repositories[0];
+  if (!repo) {
+    throw new Error(`リポジトリ ${repoName} は設定されていません`);
+  }
+
+  const github = new GitHubClient(
+    config.github.token,
+    repo,
+    config.github.apiUrl
+  );
+  const issue = await github.getIssue(issueNumber);
+  const prompt = await new PromptBuilder(github, repo).buildImplementPrompt(
+    issue,
+    repo.localPath
+  );
+
+  console.log(prompt);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+import "dotenv/config";
+import { readFile } from "node:fs/promises";
+import { createHmac, randomUUID } from "node:crypto";
+
+/**
+ * 記録済みの Webhook ペイロードを署名付きでローカルの WebhookServer に再送する。
+ *
+ * 使い方: npm run webhook:replay -- fixtures/webhooks/issues.labeled.json
+ *
+ * フィクスチャは `{ "event": "<X-GitHub-Event>", "payload": { ... } }` 形式。
+ */
+interface WebhookFixture {
+  event: string;
+  payload: unknown;
+}
+
+async function main(): Promise<void> {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    throw new Error("再送するフィクスチャファイルを指定してください");
+  }
+
+  const secret = process.env["WEBHOOK_SECRET"];
+  if (!secret) {
+    throw new Error("環境変数 WEBHOOK_SECRET が設定されていません");
+  }
+
+  const port = process.env["WEBHOOK_PORT"] ?? "3000";
+  const path = process.env["WEBHOOK_PATH"] ?? "/webhook";
+  const url = process.env["WEBHOOK_URL"] ?? `http://localhost:${port}${path}`;
+
+  for (const file of files) {
+    const fixture = JSON.parse(await readFile(file, "utf-8")) as WebhookFixture;
+    const body = JSON.stringify(fixture.payload);
+    const signature = `sha256=${createHmac("sha256", secret)
+      .update(body)
+      .digest("hex")}`;
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-GitHub-Event": fixture.event,
+        "X-GitHub-Delivery": randomUUID(),
+        "X-Hub-Signature-256": signature,
+      },
+      body,
+    });
+
+    console.log(`${file}: ${fixture.event} → ${res.status}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { access, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import type { GitHubClient } from "./github.js";
+import type { Dispatcher } from "./dispatcher.js";
+import type { TaskHandler } from "./task-handler.js";
+import type { CommandHandler } from "./commands.js";
+import type { PlanApprovals } from "./plan-approvals.js";
+import type { Clarifications } from "./clarifications.js";
+import type { CiMonitor } from "./ci-monitor.js";
+import type { Config, RepoConfig } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("repository");
+
+/** リポジトリごとに生成するコンポーネント一式 */
+export interface RepoRuntime {
+  repo: RepoConfig;
+  github: GitHubClient;
+  taskHandler: TaskHandler;
+  dispatcher: Dispatcher;
+  commands: CommandHandler;
+  approvals: PlanApprovals;
+  clarifications: Clarifications;
+  ciMonitor: CiMonitor;
+}
+
+/** Issue 実装タスクのID（リポジトリをまたいで一意） */
+export function issueTaskId(repo: RepoConfig, issueNumber: number): string {
+  return `${repo.fullName}#issue-${issueNumber}`;
+}
+
+/** Issue 実装用のブランチ名 */
+export function issueBranchName(repo: RepoConfig, issueNumber: number): string {
+  return `${repo.branchPrefix}issue-${issueNumber}`;
+}
+
+/**
+ * API の URL に対応する git のリモートの URL（末尾は /）。
+ * api.github.com なら github.com、GitHub Enterprise Server（https://<host>/api/v3）なら同じホストになる。
+ */
+function gitBaseUrl(apiUrl: string): string {
+  const url = new URL(apiUrl);
+  const host = url.host === "api.github.com" ? "github.com" : url.host;
+  return `${url.protocol}//${host}/`;
+}
+
+/**
+ * GitHub に接続する git コマンド（clone / fetch / push）の実行オプション。
+ * トークンはクローンの git 設定に保存せず、実行のたびに環境変数（GIT_CONFIG_*）で渡す。
+ * エージェントが書き換えうるフックにトークンが渡らないよう、この実行ではフックを無効にする。
+ */
+export function gitRemoteOptions(
+  github: Config["github"],
+  cwd?: string
+): { cwd?: string; env: NodeJS.ProcessEnv } {
+  const extraheader = `http.${gitBaseUrl(github.apiUrl)}.extraheader`;
+  const credentials = Buffer.from(`x-access-token:${github.token}`).toString(
+    "base64"
+  );
+  // 環境にすでにある GIT_CONFIG_* の設定は残し、その後ろに追加する
+  const offset = Number(process.env.GIT_CONFIG_COUNT) || 0;
+  return {
+    cwd,
+    env: {
+      ...process.env,
+      GIT_CONFIG_COUNT: String(offset + 2),
+      [`GIT_CONFIG_KEY_${offset}`]: extraheader,
+      [`GIT_CONFIG_VALUE_${offset}`]: `AUTHORIZATION: basic ${credentials}`,
+      [`GIT_CONFIG_KEY_${offset + 1}`]: "core.hooksPath",
+      [`GIT_CONFIG_VALUE_${offset + 1}`]: "/dev/null",
+    },
+  };
+}
+
+/**
+ * オーケストレータがコミットを作る git コマンド（rebase / merge / commit）の先頭に付ける引数。
+ * 認証情報を含む環境のまま、エージェントが置いたフックを実行しないようにフックを無効にする。
+ */
+export const WITHOUT_HOOKS = ["-c", "core.hooksPath=/dev/null"];
+
+/**
+ * ローカルのクローンがなければ作成する。
+ * 認証ヘッダはクローンの git 設定に残さない（エージェントが worktree から読めるため）。
+ */
+export async function ensureLocalClone(
+  repo: RepoConfig,
+  github: Config["github"]
+): Promise<void> {
+  try {
+    await access(path.join(repo.localPath, ".git"));
+  } catch {
+    log.info(
+      { repo: repo.fullName, localPath: repo.localPath },
+      "リポジトリをクローン中"
+    );
+    await mkdir(path.dirname(repo.localPath), { recursive: true });
+    await execFileAsync(
+      "git",
+      [
+        "clone",
+        `${gitBaseUrl(github.apiUrl)}${repo.fullName}.git`,
+        repo.localPath,
+      ],
+      gitRemoteOptions(github)
+    );
+  }
+}
@@ -3,135 +3,482 @@ import { promisify } from "node:util";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import { createChildLogger } from "./logger.js";
-import { runClaude } from "./claude.js";
+import { assertClaudeSucceeded } from "./claude.js";
+import type { AgentRunner } from "./agent-runner.js";
 import { GitHubClient } from "./github.js";
-import type { Config, ReviewComment } from "./types.js";
+import {
+  BudgetTracker,
+  BudgetExceededError,
+  type TaskSpend,
+} from "./budget.js";
+import { PromptBuilder } from "./prompts.js";
+import { PushGuard } from "./push-guard.js";
+import { gitRemoteOptions, WITHOUT_HOOKS } from "./repository.js";
+import { Sandbox } from "./sandbox.js";
+import { Verifier, formatFailures } from "./verifier.js";
+import { isCancelled, isInterrupted } from "./worker-pool.js";
+import {
+  applySuggestions,
+  groupReviewComments,
+  threadsForAgent,
+  type ReviewRequest,
+  type ThreadRequest,
+} from "./review-threads.js";
+import type { StateStore } from "./state-store.js";
+import type {
+  ClaudeResult,
+  Config,
+  RepoConfig,
+  ReviewComment,
+} from "./types.js";
 
 const execFileAsync = promisify(execFile);
 const log = createChildLogger("review-handler");
 
-/** PR番号 → セッションID のマッピング（レビュー反復用） */
-const sessionStore = new Map<number, string>();
-
 export class ReviewHandler {
   private github: GitHubClient;
   private config: Config;
+  private repo: RepoConfig;
   private repoRoot: string;
+  /** PR番号 → セッションID のマッピング（レビュー反復用）を保持 */
+  private store: StateStore;
+  private budget: BudgetTracker;
+  private verifier: Verifier;
+  private prompts: PromptBuilder;
+  private guard: PushGuard;
+  private sandbox: Sandbox;
+  private agent: AgentRunner;
 
-  constructor(github: GitHubClient, config: Config, repoRoot: string) {
+  constructor(
+    github: GitHubClient,
+    config: Config,
+    repo: RepoConfig,
+    store: StateStore,
+    budget: BudgetTracker,
+    verifier: Verifier,
+    agent: AgentRunner
+  ) {
     this.github = github;
     this.config = config;
-    this.repoRoot = repoRoot;
+    this.repo = repo;
+    this.repoRoot = repo.localPath;
+    this.store = store;
+    this.budget = budget;
+    this.verifier = verifier;
+    this.prompts = new PromptBuilder(github, repo);
+    this.guard = new PushGuard(repo);
+    this.sandbox = new Sandbox(repo);
+    this.agent = agent;
   }
 
-  /** PRのレビューコメントに基づいて修正を行う */
+  /**
+   * PRのレビューコメントに基づいて修正を行う。
+   * 行コメントはスレッドごとにまとめ、提案ブロックはそのまま適用する。
+   * 修正を検証してからプッシュし、各スレッドに対応内容を返信して対応済みのスレッドを解決する。
+   * コミットがなければプッシュせず、変更しなかったことを返信する。
+   */
   async handle(
     prNumber: number,
     comments: ReviewComment[],
     abortSignal: AbortSignal
   ): Promise<void> {
     log.info(
-      { prNumber, commentCount: comments.length },
+      { repo: this.repo.fullName, prNumber, commentCount: comments.length },
       "レビュー対応を開始"
     );
 
-    const branchName = await this.github.getPRBranch(prNumber);
     const worktreePath = path.join(
       this.repoRoot,
       ".worktrees",
       `review-pr-${prNumber}`
     );
+    const spend: TaskSpend = {
+      taskId: `${this.repo.fullName}#review-${prNumber}`,
+      type: "review",
+    };
 
+    let usesWorktree = false;
     try {
+      const branchName = await this.github.getPRBranch(prNumber);
+      const threads = await this.github.fetchReviewThreads(prNumber);
+      let request = groupReviewComments(comments, threads);
+      if (request.resolved.length > 0) {
+        log.info(
+          {
+            repo: this.repo.fullName,
+            prNumber,
+            commentIds: request.resolved.map((c) => c.id),
+          },
+          "解決済みのスレッドへのコメントは対応しない"
+        );
+      }
+      const commentCount = comments.length - request.resolved.length;
+      if (commentCount === 0) return;
+
       // worktree を作成（既存ブランチをチェックアウト）
+      usesWorktree = true;
       await this.createWorktree(worktreePath, branchName);
+      const headBefore = await this.head(worktreePath);
 
       // コメントを投稿して修正開始を通知
       await this.github.postComment(
         prNumber,
-        `🤖 レビューコメント（${comments.length}件）に基づいて修正を開始します。`
+        `🤖 レビューコメント（${commentCount}件）に基づいて修正を開始します。`
       );
 
-      // プロンプトを構築
-      const prompt = this.buildPrompt(comments);
-      const sessionId = sessionStore.get(prNumber);
-
-      // Claude Code で修正を実行
-      const result = await runClaude({
-        prompt,
-        cwd: worktreePath,
-        resumeSessionId: sessionId,
-        allowedTools: this.config.claude.allowedTools.length > 0
-          ? this.config.claude.allowedTools
-          : undefined,
-        abortSignal,
-      });
+      // 提案ブロックは Claude を使わずにそのまま適用する
+      request = await applySuggestions(worktreePath, request);
+      if (request.suggestions.length > 0) {
+        await this.commitSuggestions(worktreePath, request);
+      }
 
-      // セッションIDを保存（次回のレビュー対応用）
-      if (result.sessionId) {
-        sessionStore.set(prNumber, result.sessionId);
+      // 提案の適用だけで済まないコメントは Claude Code で修正
+      const agentThreads = threadsForAgent(request);
+      let result: ClaudeResult | undefined;
+      if (agentThreads.length > 0 || request.comments.length > 0) {
+        result = await this.runAgent(
+          prNumber,
+          await this.prompts.buildReviewPrompt(
+            prNumber,
+            branchName,
+            request,
+            worktreePath
+          ),
+          worktreePath,
+          spend,
+          abortSignal
+        );
       }
+      const summary = (result?.resultText ?? "")
+        .split("\n")
+        .filter((line) => !line.includes("[THREAD_REPLY]"))
+        .join("\n")
+        .trim();
 
-      if (result.exitCode !== 0) {
-        throw new Error(
-          `Claude Code がエラーコード ${result.exitCode} で終了しました`
+      // コミットがなければ push せず、変更しなかったことを返信する
+      if ((await this.head(worktreePath)) === headBefore) {
+        await this.replyToThreads(
+          prNumber,
+          request,
+          agentThreads,
+          result?.resultText ?? "",
+          undefined
+        );
+        await this.github.postComment(
+          prNumber,
+          `💬 レビューコメントを確認しましたが、コードは変更しませんでした（コミットはありません）。\n\n${summary}`.trim()
         );
+        await this.budget.resetTask(spend.taskId);
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "レビュー対応が完了（変更なし）"
+        );
+        return;
       }
 
+      // この対応で追加したコミットを検証・検査してから push する
+      await this.verifyAndRepair(
+        prNumber,
+        headBefore,
+        worktreePath,
+        spend,
+        abortSignal
+      );
+      await this.guard.check(worktreePath, `origin/${branchName}`, async () =>
+        (await this.github.getIssue(prNumber)).labels.includes(
+          this.repo.labels.allowProtected
+        )
+      );
+
       // git push
-      await execFileAsync("git", ["push", "origin", branchName], {
-        cwd: worktreePath,
-      });
+      await execFileAsync(
+        "git",
+        ["push", "origin", branchName],
+        gitRemoteOptions(this.config.github, worktreePath)
+      );
+      const { stdout: head } = await execFileAsync(
+        "git",
+        ["rev-parse", "--short", "HEAD"],
+        { cwd: worktreePath }
+      );
+
+      await this.replyToThreads(
+        prNumber,
+        request,
+        agentThreads,
+        result?.resultText ?? "",
+        head.trim()
+      );
 
       // 完了通知
       await this.github.postComment(
         prNumber,
-        "✅ レビューコメントに基づく修正をプッシュしました。再度ご確認ください。"
+        `✅ レビューコメントに基づく修正をプッシュしました。再度ご確認ください。\n\n${summary}`.trim()
       );
 
-      log.info({ prNumber }, "レビュー対応が完了");
+      await this.budget.resetTask(spend.taskId);
+      log.info({ repo: this.repo.fullName, prNumber }, "レビュー対応が完了");
     } catch (err) {
-      log.error({ err, prNumber }, "レビュー対応に失敗");
+      // シャットダウンによる中断は失敗として報告しない
+      if (isInterrupted(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, prNumber },
+          "レビュー対応をシャットダウンにより中断"
+        );
+        return;
+      }
+
+      if (isCancelled(abortSignal)) {
+        log.info({ repo: this.repo.fullName, prNumber }, "レビュー対応をキャンセル");
+        await this.github
+          .postComment(
+            prNumber,
+            "🛑 `/auto cancel` によりレビュー対応を中止しました。"
+          )
+          .catch(() => {});
+        return;
+      }
+
+      log.error(
+        { err, repo: this.repo.fullName, prNumber },
+        "レビュー対応に失敗"
+      );
 
+      const budgetExceeded = err instanceof BudgetExceededError;
+      if (budgetExceeded) {
+        await this.github
+          .addLabel(prNumber, this.repo.labels.budgetExceeded)
+          .catch(() => {});
+      }
       await this.github
         .postComment(
           prNumber,
-          `❌ レビュー対応に失敗しました。\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
+          `${
+            budgetExceeded
+              ? "⏱️ 予算・時間の上限に達したためレビュー対応を中止しました。"
+              : "❌ レビュー対応に失敗しました。"
+          }\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
         )
         .catch(() => {});
     } finally {
-      await this.removeWorktree(worktreePath).catch((err) => {
-        log.warn({ err, worktreePath }, "worktreeの削除に失敗");
-      });
+      if (usesWorktree) {
+        await this.removeWorktree(worktreePath).catch((err) => {
+          log.warn({ err, worktreePath }, "worktreeの削除に失敗");
+        });
+      }
     }
   }
 
-  /** レビューコメントをプロンプトに変換 */
-  private buildPrompt(comments: ReviewComment[]): string {
-    const commentSection = comments
-      .map((c) => {
-        let loc = "";
-        if (c.path) {
-          loc = `\n**ファイル:** ${c.path}`;
-          if (c.line) loc += `:${c.line}`;
-        }
-        return `### @${c.user} のコメント${loc}\n${c.body}`;
-      })
-      .join("\n\n---\n\n");
+  /**
+   * worktree を検証し、失敗したらエラー出力を渡して同じセッションで修正させる。
+   * 修正回数の上限を超えても通らなければ、最後の検証ログを含むエラーを投げる。
+   */
+  private async verifyAndRepair(
+    prNumber: number,
+    headBefore: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<void> {
+    const { maxRepairAttempts } = this.config.verification;
 
-    return `あなたはPRのレビューコメントに基づいてコードを修正するエージェントです。
+    for (let attempt = 0; ; attempt++) {
+      const verification = await this.verifier.verify(
+        worktreePath,
+        headBefore,
+        abortSignal,
+        this.sandbox
+      );
+      if (verification.passed) return;
 
-## レビューコメント
+      const failures = formatFailures(verification.failures);
+      if (attempt >= maxRepairAttempts) {
+        throw new Error(
+          `修正後の検証に失敗しました（修正 ${attempt} 回）\n\n${failures}`
+        );
+      }
 
-${commentSection}
+      log.info(
+        { repo: this.repo.fullName, prNumber, attempt: attempt + 1 },
+        "レビュー対応後の検証の失敗を Claude に修正させる"
+      );
+      await this.runAgent(
+        prNumber,
+        this.buildRepairPrompt(failures),
+        worktreePath,
+        spend,
+        abortSignal
+      );
+    }
+  }
 
-## 指示
+  /** Claude Code で修正を実行（セッションは前回のレビュー対応から継続する） */
+  private async runAgent(
+    prNumber: number,
+    prompt: string,
+    worktreePath: string,
+    spend: TaskSpend,
+    abortSignal: AbortSignal
+  ): Promise<ClaudeResult> {
+    const sessionId = this.store.getSession(this.repo.fullName, prNumber);
+    const result = await this.budget.run(
+      spend,
+      abortSignal,
+      (signal, onEvent) =>
+        this.agent.run({
+          prompt,
+          cwd: worktreePath,
+          resumeSessionId: sessionId,
+          allowedTools: this.config.claude.allowedTools.length > 0
+            ? this.config.claude.allowedTools
+            : undefined,
+          maxTurns: this.config.budget.maxTurns || undefined,
+          abortSignal: signal,
+          onEvent,
+        })
+    );
+
+    // セッションIDを保存（次回のレビュー対応用）
+    await this.store.setSession(this.repo.fullName, prNumber, result.sessionId);
+
+    assertClaudeSucceeded(result);
+    return result;
+  }
+
+  /** 検証の失敗を修正させる際のプロンプトを構築 */
+  private buildRepairPrompt(failures: string): string {
+    return `レビューコメントに基づく修正の後の検証に失敗しました。以下の出力を確認して問題を修正してください。
+
+\`\`\`
+${failures}
+\`\`\`
+
+修正が終わったら変更を git commit してください（git push は不要）。
+未コミットの変更が残っている場合も検証失敗として扱われます。`;
+  }
+
+  /** 現在のコミット */
+  private async head(worktreePath: string): Promise<string> {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "HEAD"], {
+      cwd: worktreePath,
+    });
+    return stdout.trim();
+  }
+
+  /**
+   * 適用した提案をまとめてコミット。
+   * 提案の内容がすでに反映されていて変更がなければコミットしない。
+   */
+  private async commitSuggestions(
+    worktreePath: string,
+    request: ReviewRequest
+  ): Promise<void> {
+    const lines = request.suggestions.map(
+      (c) => `- @${c.user} の提案（${c.path}${c.line ? `:${c.line}` : ""}）`
+    );
+    await execFileAsync("git", ["add", "-A"], { cwd: worktreePath });
+    const { stdout: staged } = await execFileAsync(
+      "git",
+      ["diff", "--cached", "--name-only"],
+      { cwd: worktreePath }
+    );
+    if (!staged.trim()) {
+      log.info(
+        {
+          repo: this.repo.fullName,
+          commentIds: request.suggestions.map((c) => c.id),
+        },
+        "提案の内容はすでに反映されているためコミットしない"
+      );
+      return;
+    }
+    await execFileAsync(
+      "git",
+      [
+        ...WITHOUT_HOOKS,
+        "commit",
+        "-m",
+        `fix: レビューの提案を適用\n\n${lines.join("\n")}`,
+      ],
+      { cwd: worktreePath }
+    );
+    log.info(
+      {
+        repo: this.repo.fullName,
+        commentIds: request.suggestions.map((c) => c.id),
+      },
+      "レビューの提案を適用"
+    );
+  }
+
+  /**
+   * 対応したスレッドに返信し、対応済みのスレッドを解決する。
+   * 提案の適用だけで済んだスレッドと、Claude が対応済みと報告したスレッドを解決する。
+   * commit が undefined なら、コミットせずに終わったことを返信する。
+   */
+  private async replyToThreads(
+    prNumber: number,
+    request: ReviewRequest,
+    agentThreads: ThreadRequest[],
+    resultText: string,
+    commit: string | undefined
+  ): Promise<void> {
+    const replies = this.extractThreadReplies(resultText);
+    const agentThreadIds = new Set(agentThreads.map((t) => t.thread.id));
+
+    for (const { thread } of request.threads) {
+      const rootId = thread.comments[0]?.id;
+      if (rootId === undefined) continue;
+
+      let body: string;
+      let resolve: boolean;
+      const reply = replies.get(rootId);
+      if (!agentThreadIds.has(thread.id)) {
+        // 提案の内容がすでに反映されていれば、コミットせずに終わる
+        body = commit
+          ? `✅ 提案を適用しました（${commit}）。`
+          : "💬 提案の内容はすでに反映されていたため、コードは変更しませんでした。";
+        resolve = true;
+      } else if (reply) {
+        const suffix = commit ? `（${commit}）` : "";
+        body = `${reply.resolved ? "✅" : "💬"} ${reply.body}${suffix}`;
+        resolve = reply.resolved;
+      } else if (!commit) {
+        body = "💬 このスレッドのコメントを確認しましたが、コードは変更しませんでした。";
+        resolve = false;
+      } else {
+        body = `🤖 このスレッドのコメントを踏まえて修正をプッシュしました（${commit}）。ご確認ください。`;
+        resolve = false;
+      }
+
+      try {
+        await this.github.replyToReviewComment(prNumber, rootId, body);
+        if (resolve) await this.github.resolveReviewThread(thread.id);
+      } catch (err) {
+        log.warn(
+          { err, repo: this.repo.fullName, prNumber, threadId: thread.id },
+          "レビュースレッドへの返信・解決に失敗"
+        );
+      }
+    }
+  }
+
+  /** Claude の最終応答からスレッドへの返信を抽出（スレッドID → 返信） */
+  private extractThreadReplies(
+    output: string
+  ): Map<number, { resolved: boolean; body: string }> {
+    const pattern = /\[THREAD_REPLY\]\s*(\d+)\s*\|\s*(.+?)\s*\|\s*(.+)/g;
+    const replies = new Map<number, { resolved: boolean; body: string }>();
+
+    let match;
+    while ((match = pattern.exec(output)) !== null) {
+      replies.set(Number(match[1]), {
+        resolved: match[2] === "対応済み",
+        body: match[3]!.trim(),
+      });
+    }
 
-1. 各レビューコメントの内容を理解し、適切な修正を行ってください
-2. CLAUDE.md が存在する場合はその指示に従ってください
-3. 修正完了後、変更を git commit してください（git push は不要）
-4. コミットメッセージは日本語で、\`fix:\` prefix をつけてください
-5. レビュアーの意図が不明な場合は、最も合理的な解釈で実装してください`;
+    return replies;
   }
 
   /** git worktree を作成（既存ブランチ用） */
@@ -141,10 +488,12 @@ ${commentSection}
   ): Promise<void> {
     log.debug({ worktreePath, branchName }, "worktreeを作成中");
 
-    // リモートの最新を取得
-    await execFileAsync("git", ["fetch", "origin", branchName], {
-      cwd: this.repoRoot,
-    });
+    // リモートの最新を取得（ベースブランチはプロンプトに含める差分の比較用）
+    await execFileAsync(
+      "git",
+      ["fetch", "origin", branchName, this.repo.baseBranch],
+      gitRemoteOptions(this.config.github, this.repoRoot)
+    );
 
     await execFileAsync(
       "git",
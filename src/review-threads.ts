@@ -0,0 +1,166 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import type { ReviewComment, ReviewThread } from "./types.js";
+
+const log = createChildLogger("review-threads");
+
+/** コメント中の ```suggestion ブロック（内容は閉じのフェンスの直前の改行まで） */
+const SUGGESTION_PATTERN = /^```suggestion[^\n]*\n([\s\S]*?)^```[ \t]*$/gm;
+
+/** レビュースレッドと、そのスレッドへの今回対応するコメント */
+export interface ThreadRequest {
+  thread: ReviewThread;
+  comments: ReviewComment[];
+}
+
+/** 1回のレビュー対応で扱うコメントを、スレッドごとにまとめたもの */
+export interface ReviewRequest {
+  threads: ThreadRequest[];
+  /** スレッドに属さないコメント（レビュー本文・会話タブのコメント・スレッドが見つからない行コメント） */
+  comments: ReviewComment[];
+  /** 解決済みのスレッドへのコメント（対応しない） */
+  resolved: ReviewComment[];
+  /** 提案ブロックを適用済みのコメント */
+  suggestions: ReviewComment[];
+}
+
+/** 行コメントを所属するスレッドごとにまとめる（解決済みのスレッドへのコメントは対応しない） */
+export function groupReviewComments(
+  comments: ReviewComment[],
+  threads: ReviewThread[]
+): ReviewRequest {
+  const threadOf = new Map<number, ReviewThread>();
+  for (const thread of threads) {
+    for (const c of thread.comments) threadOf.set(c.id, thread);
+  }
+
+  const request: ReviewRequest = {
+    threads: [],
+    comments: [],
+    resolved: [],
+    suggestions: [],
+  };
+  const byThread = new Map<string, ThreadRequest>();
+
+  for (const comment of comments) {
+    const thread =
+      comment.kind === "line" ? threadOf.get(comment.id) : undefined;
+    if (!thread) {
+      request.comments.push(comment);
+      continue;
+    }
+    if (thread.isResolved) {
+      request.resolved.push(comment);
+      continue;
+    }
+
+    let entry = byThread.get(thread.id);
+    if (!entry) {
+      entry = { thread, comments: [] };
+      byThread.set(thread.id, entry);
+      request.threads.push(entry);
+    }
+    entry.comments.push(comment);
+  }
+  return request;
+}
+
+/** コメント中の提案の内容（行ごと）。提案がちょうど1つのときだけ返す */
+export function extractSuggestion(body: string): string[] | undefined {
+  const matches = [...normalize(body).matchAll(SUGGESTION_PATTERN)];
+  if (matches.length !== 1) return undefined;
+
+  const content = matches[0]![1]!;
+  // 空の提案は行の削除
+  return content === "" ? [] : content.replace(/\n$/, "").split("\n");
+}
+
+/** 提案ブロックのほかに指示が書かれていないか */
+export function isSuggestionOnly(body: string): boolean {
+  return normalize(body).replace(SUGGESTION_PATTERN, "").trim() === "";
+}
+
+/**
+ * スレッドの最初のコメントの提案ブロックを worktree のファイルに適用し、
+ * 適用したコメントを suggestions に入れて返す。
+ * 行の位置はスレッドの現在の位置を使い、差分が古くなったスレッド・変更前の行への提案・
+ * 同じファイルで範囲が重なる提案・返信中の提案は適用せず Claude に任せる。
+ */
+export async function applySuggestions(
+  cwd: string,
+  request: ReviewRequest
+): Promise<ReviewRequest> {
+  const byPath = new Map<
+    string,
+    Array<{ comment: ReviewComment; start: number; end: number; lines: string[] }>
+  >();
+
+  for (const { thread, comments } of request.threads) {
+    const root = comments.find((c) => c.id === thread.comments[0]?.id);
+    if (!root || thread.line === undefined || thread.side !== "RIGHT") continue;
+    const lines = extractSuggestion(root.body);
+    if (!lines) continue;
+
+    const suggestions = byPath.get(thread.path) ?? [];
+    suggestions.push({
+      comment: root,
+      start: thread.startLine ?? thread.line,
+      end: thread.line,
+      lines,
+    });
+    byPath.set(thread.path, suggestions);
+  }
+
+  const applied: ReviewComment[] = [];
+  for (const [file, suggestions] of byPath) {
+    const filePath = path.resolve(cwd, file);
+    if (path.relative(cwd, filePath).startsWith("..")) {
+      log.warn({ file }, "worktree の外のファイルへの提案は適用しない");
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(filePath, "utf-8");
+    } catch (err) {
+      log.warn({ err, file }, "提案の対象ファイルを読み込めないためスキップ");
+      continue;
+    }
+    const fileLines = content.split("\n");
+
+    // 下の行から適用し、先に適用した提案で行番号がずれないようにする
+    suggestions.sort((a, b) => b.start - a.start);
+    let appliedFrom = Infinity;
+    for (const s of suggestions) {
+      if (s.end >= appliedFrom || s.end > fileLines.length) {
+        log.info(
+          { file, commentId: s.comment.id, start: s.start, end: s.end },
+          "提案の範囲が重なる・ファイルの範囲外のため Claude に任せる"
+        );
+        continue;
+      }
+      fileLines.splice(s.start - 1, s.end - s.start + 1, ...s.lines);
+      appliedFrom = s.start;
+      applied.push(s.comment);
+    }
+
+    if (appliedFrom !== Infinity) {
+      await writeFile(filePath, fileLines.join("\n"));
+    }
+  }
+
+  return { ...request, suggestions: [...request.suggestions, ...applied] };
+}
+
+/** Claude に対応を任せるスレッド（提案だけのコメントを適用し終えたスレッドを除く） */
+export function threadsForAgent(request: ReviewRequest): ThreadRequest[] {
+  const applied = new Set(request.suggestions.map((c) => c.id));
+  return request.threads.filter((t) =>
+    t.comments.some((c) => !applied.has(c.id) || !isSuggestionOnly(c.body))
+  );
+}
+
+function normalize(body: string): string {
+  return body.replace(/\r\n/g, "\n");
+}
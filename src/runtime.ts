@@ -0,0 +1,122 @@
+import { GitHubClient } from "./github.js";
+import { TaskHandler } from "./task-handler.js";
+import { ReviewHandler } from "./review-handler.js";
+import { RebaseHandler } from "./rebase-handler.js";
+import { CiFixHandler } from "./ci-fix-handler.js";
+import { Dispatcher } from "./dispatcher.js";
+import { CommandHandler } from "./commands.js";
+import { Authorizer } from "./authorization.js";
+import { ProcessedComments } from "./processed-comments.js";
+import { PlanApprovals } from "./plan-approvals.js";
+import { Clarifications } from "./clarifications.js";
+import { CiMonitor } from "./ci-monitor.js";
+import { createAgentRunner } from "./agent-runner.js";
+import type { BudgetTracker } from "./budget.js";
+import type { Verifier } from "./verifier.js";
+import type { WorkerPool } from "./worker-pool.js";
+import type { StateStore } from "./state-store.js";
+import type { RepoRuntime } from "./repository.js";
+import type { Config, RepoConfig } from "./types.js";
+
+/** 全リポジトリで共有するコンポーネント */
+export interface SharedComponents {
+  store: StateStore;
+  workerPool: WorkerPool;
+  budget: BudgetTracker;
+  verifier: Verifier;
+}
+
+/** リポジトリごとのコンポーネント一式を組み立てる（ローカルのクローンは作成済みであること） */
+export function createRepoRuntime(
+  config: Config,
+  repo: RepoConfig,
+  { store, workerPool, budget, verifier }: SharedComponents
+): RepoRuntime {
+  const agent = createAgentRunner(repo);
+  const github = new GitHubClient(
+    config.github.token,
+    repo,
+    config.github.apiUrl
+  );
+  const taskHandler = new TaskHandler(
+    github,
+    config,
+    repo,
+    store,
+    budget,
+    verifier,
+    agent
+  );
+  const reviewHandler = new ReviewHandler(
+    github,
+    config,
+    repo,
+    store,
+    budget,
+    verifier,
+    agent
+  );
+  const rebaseHandler = new RebaseHandler(
+    github,
+    config,
+    repo,
+    store,
+    budget,
+    verifier,
+    agent
+  );
+  const ciFixHandler = new CiFixHandler(
+    github,
+    config,
+    repo,
+    store,
+    budget,
+    verifier,
+    agent
+  );
+  const authorizer = new Authorizer(github, repo);
+  const processed = new ProcessedComments(store, repo);
+  const dispatcher = new Dispatcher(
+    workerPool,
+    repo,
+    taskHandler,
+    reviewHandler,
+    rebaseHandler,
+    ciFixHandler,
+    budget,
+    authorizer,
+    processed
+  );
+  const approvals = new PlanApprovals(
+    github,
+    dispatcher,
+    authorizer,
+    store,
+    repo
+  );
+  const clarifications = new Clarifications(github, dispatcher, store, repo);
+  const commands = new CommandHandler(
+    github,
+    workerPool,
+    dispatcher,
+    taskHandler,
+    budget,
+    repo,
+    authorizer,
+    approvals,
+    clarifications,
+    processed
+  );
+  const ciMonitor = new CiMonitor(github, dispatcher, store, repo);
+
+  return {
+    repo,
+    github,
+    taskHandler,
+    dispatcher,
+    commands,
+    approvals,
+    clarifications,
+    ciMonitor,
+  };
+}
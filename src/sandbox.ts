@@ -0,0 +1,426 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  mkdtemp,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import type { RepoConfig, SandboxConfig } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("sandbox");
+
+/** 設定によらずエージェントに渡す環境変数（末尾の `*` は前方一致） */
+const BASE_ENV_ALLOWLIST = [
+  "PATH",
+  "LANG",
+  "LANGUAGE",
+  "LC_*",
+  "TZ",
+  "TERM",
+  "TMPDIR",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "ANTHROPIC_*",
+  "CLAUDE_CODE_*",
+  "HTTP_PROXY",
+  "HTTPS_PROXY",
+  "NO_PROXY",
+  "http_proxy",
+  "https_proxy",
+  "no_proxy",
+  "NODE_EXTRA_CA_CERTS",
+  "SSL_CERT_FILE",
+  "SSL_CERT_DIR",
+  "GIT_AUTHOR_NAME",
+  "GIT_AUTHOR_EMAIL",
+  "GIT_COMMITTER_NAME",
+  "GIT_COMMITTER_EMAIL",
+];
+
+/** 許可リストに含めても渡さない環境変数（オーケストレータ自身の認証情報） */
+const SCRUBBED_ENV = new Set(["GITHUB_TOKEN", "GH_TOKEN", "WEBHOOK_SECRET"]);
+
+/** worktree でコミットするために書き込みを許す .git の中のディレクトリ */
+const GIT_WRITABLE_DIRS = ["objects", "refs", "logs"];
+
+/** ネットワークのフックの制限時間 */
+const HOOK_TIMEOUT_MS = 60_000;
+
+/** 隔離した環境で実行するコマンド */
+export interface SandboxedCommand {
+  command: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  /** 実行が終わったら呼ぶ（一時ディレクトリの削除・ネットワークのフックの終了処理） */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * エージェントの実行環境を隔離する（リポジトリごとに1つ）。
+ * 許可リストの環境変数だけを渡し、HOME は実行ごとの一時ディレクトリにする。
+ * mode が bubblewrap・container の場合は、worktree（と git のメタデータ）以外に書き込めない環境で実行する。
+ * 設定は実行のたびに読むため、設定の再読み込みは次の実行から反映される。
+ */
+export class Sandbox {
+  private repo: RepoConfig;
+
+  constructor(repo: RepoConfig) {
+    this.repo = repo;
+  }
+
+  /** cwd（worktree）で command を実行する準備をし、隔離用に組み立て直したコマンドを返す */
+  async prepare(
+    command: string,
+    args: string[],
+    cwd: string
+  ): Promise<SandboxedCommand> {
+    const config = this.repo.sandbox;
+    const name = `orchestrator-agent-${randomUUID().slice(0, 8)}`;
+    // HOME（エージェントが書き込める）と、エージェントに見せない作業用のファイルを分けて置く
+    const root = await mkdtemp(path.join(tmpdir(), "orchestrator-sandbox-"));
+    const home = path.join(root, "home");
+    const privateDir = path.join(root, "private");
+
+    const cleanups: Array<() => Promise<void>> = [
+      () => rm(root, { recursive: true, force: true }),
+    ];
+    const cleanup = async () => {
+      for (const fn of [...cleanups].reverse()) {
+        await fn().catch((err) => {
+          log.warn(
+            { err, repo: this.repo.fullName, name },
+            "隔離環境の後始末に失敗"
+          );
+        });
+      }
+    };
+
+    try {
+      await mkdir(home, { recursive: true });
+      await mkdir(privateDir, { recursive: true });
+      await mkdir(config.claudeConfigDir, { recursive: true });
+      await this.writeGitConfig(home, cwd);
+
+      const env: NodeJS.ProcessEnv = {
+        ...scrubEnv(process.env, config.envAllowlist),
+        HOME: home,
+        CLAUDE_CONFIG_DIR: config.claudeConfigDir,
+      };
+
+      let sandboxed: Omit<SandboxedCommand, "cleanup">;
+      switch (config.mode) {
+        case "none":
+          sandboxed = { command, args, env };
+          break;
+        case "bubblewrap":
+          sandboxed = {
+            command: "bwrap",
+            args: [
+              ...(await this.bubblewrapArgs(config, home, cwd)),
+              "--",
+              command,
+              ...args,
+            ],
+            env,
+          };
+          break;
+        case "container": {
+          sandboxed = {
+            command: config.containerCommand,
+            args: [
+              ...(await this.containerArgs(
+                config,
+                name,
+                home,
+                privateDir,
+                cwd,
+                env
+              )),
+              command,
+              ...args,
+            ],
+            // コンテナに渡す環境変数は env-file に書く。コンテナのコマンド自体には元の環境変数を渡す
+            env: { ...process.env },
+          };
+          // 実行中にキャンセルした場合もコンテナを残さない（終了済みなら何もしない）
+          cleanups.push(() =>
+            execFileAsync(config.containerCommand, ["rm", "-f", name]).then(
+              () => {},
+              () => {}
+            )
+          );
+          break;
+        }
+      }
+
+      if (config.networkHook) {
+        const hookEnv = {
+          SANDBOX_MODE: config.mode,
+          SANDBOX_NETWORK: config.network,
+          SANDBOX_NAME: name,
+          SANDBOX_WORKTREE: cwd,
+          SANDBOX_REPO: this.repo.fullName,
+        };
+        await this.runHook(config.networkHook, "start", hookEnv).catch(
+          (err: unknown) => {
+            throw new Error(
+              `ネットワークのフック（start）に失敗しました: ${err instanceof Error ? err.message : String(err)}`
+            );
+          }
+        );
+        cleanups.push(() => this.runHook(config.networkHook, "stop", hookEnv));
+      }
+
+      log.debug(
+        {
+          repo: this.repo.fullName,
+          name,
+          mode: config.mode,
+          network: config.network,
+          envNames: Object.keys(env),
+        },
+        "隔離環境を準備"
+      );
+      return { ...sandboxed, cleanup };
+    } catch (err) {
+      await cleanup();
+      throw err;
+    }
+  }
+
+  /**
+   * bubblewrap の引数を組み立てる。
+   * ルートを読み取り専用にし、HOME とオーケストレータの作業ディレクトリ（.env・状態ファイル）は空にして隠す。
+   * 書き込めるのは一時 HOME・Claude Code の設定ディレクトリ・worktree・git のメタデータだけ。
+   */
+  private async bubblewrapArgs(
+    config: SandboxConfig,
+    home: string,
+    cwd: string
+  ): Promise<string[]> {
+    const git = await this.gitMounts(cwd);
+    const hidden = [...new Set([homedir(), process.cwd()])]
+      .filter((dir) => dir !== "/")
+      .sort((a, b) => a.length - b.length);
+
+    const args = [
+      "--die-with-parent",
+      "--new-session",
+      "--unshare-all",
+      ...(config.network === "allow" ? ["--share-net"] : []),
+      "--ro-bind",
+      "/",
+      "/",
+      "--dev",
+      "/dev",
+      "--proc",
+      "/proc",
+      "--tmpfs",
+      "/tmp",
+    ];
+    for (const dir of hidden) args.push("--tmpfs", dir);
+    // 隠したディレクトリにインストールされたコマンド（nvm・~/.local/bin など）は bin の親ごと読み取り専用で戻す
+    for (const dir of commandDirsUnder(hidden)) {
+      args.push("--ro-bind-try", dir, dir);
+    }
+    args.push(
+      "--bind",
+      home,
+      home,
+      "--bind",
+      config.claudeConfigDir,
+      config.claudeConfigDir,
+      "--ro-bind",
+      git.commonDir,
+      git.commonDir
+    );
+    for (const dir of git.writable) args.push("--bind", dir, dir);
+    args.push("--bind", cwd, cwd);
+    for (const file of git.readonly) args.push("--ro-bind", file, file);
+    args.push("--chdir", cwd);
+    return args;
+  }
+
+  /**
+   * コンテナの実行引数を組み立てる（イメージ名の後にコマンドを続ける）。
+   * worktree などのディレクトリを同じパスにマウントし、オーケストレータと同じユーザーで実行する。
+   */
+  private async containerArgs(
+    config: SandboxConfig,
+    name: string,
+    home: string,
+    privateDir: string,
+    cwd: string,
+    env: NodeJS.ProcessEnv
+  ): Promise<string[]> {
+    const git = await this.gitMounts(cwd);
+
+    // 値をコマンドラインに出さないよう env-file で渡す。PATH はイメージのものを使う
+    const envFile = path.join(privateDir, "env");
+    const lines: string[] = [];
+    for (const [key, value] of Object.entries(env)) {
+      if (key === "PATH" || value === undefined) continue;
+      if (value.includes("\n")) {
+        log.warn(
+          { repo: this.repo.fullName, key },
+          "改行を含む環境変数はコンテナに渡せないため除外"
+        );
+        continue;
+      }
+      lines.push(`${key}=${value}`);
+    }
+    await writeFile(envFile, lines.join("\n") + "\n", { mode: 0o600 });
+
+    const volume = (dir: string, target = dir, readonly = false) => [
+      "--volume",
+      `${dir}:${target}${readonly ? ":ro" : ""}`,
+    ];
+    const args = [
+      "run",
+      "--rm",
+      "--name",
+      name,
+      ...(config.network === "deny" ? ["--network", "none"] : []),
+      ...(process.getuid && process.getgid
+        ? ["--user", `${process.getuid()}:${process.getgid()}`]
+        : []),
+      "--env-file",
+      envFile,
+      ...volume(home),
+      ...volume(config.claudeConfigDir),
+      ...volume(git.commonDir, git.commonDir, true),
+      ...git.writable.flatMap((dir) => volume(dir)),
+      ...volume(cwd),
+      ...git.readonly.flatMap((file) => volume(file, file, true)),
+      "--workdir",
+      cwd,
+      config.image,
+    ];
+    return args;
+  }
+
+  /**
+   * worktree から git を使うためのマウント対象を調べる。
+   * worktree のメタデータはクローンの .git にある。.git は読み取り専用にし、
+   * この worktree のメタデータ（.git/worktrees/<名前>）と、
+   * コミットに使うオブジェクト・参照だけを書き込めるようにする。
+   * .git を指す worktree の .git ファイルと commondir も読み取り専用にし、
+   * フックや設定を置いた別の場所へ向け直せないようにする。
+   * オーケストレータが後で実行する git に手を加えられないようにするため。
+   */
+  private async gitMounts(
+    cwd: string
+  ): Promise<{ commonDir: string; writable: string[]; readonly: string[] }> {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["rev-parse", "--path-format=absolute", "--git-common-dir", "--git-dir"],
+      { cwd }
+    );
+    const [commonDir = "", gitDir = ""] = stdout.trim().split("\n");
+
+    // 読み取り専用の .git の中には作れないため、まだなければ先に作っておく
+    const shared = GIT_WRITABLE_DIRS.map((dir) => path.join(commonDir, dir));
+    for (const dir of shared) await mkdir(dir, { recursive: true });
+    return {
+      commonDir,
+      writable: [gitDir, ...shared],
+      readonly: [path.join(cwd, ".git"), path.join(gitDir, "commondir")],
+    };
+  }
+
+  /**
+   * 一時 HOME に git の設定を作る。
+   * コミットの作成者と safe.directory だけをオーケストレータの設定から引き継ぐ。
+   */
+  private async writeGitConfig(home: string, cwd: string): Promise<void> {
+    const file = path.join(home, ".gitconfig");
+    const read = async (args: string[]): Promise<string[]> => {
+      try {
+        const { stdout } = await execFileAsync("git", ["config", ...args], {
+          cwd,
+        });
+        return stdout.split("\n").filter(Boolean);
+      } catch {
+        // 設定されていない
+        return [];
+      }
+    };
+
+    for (const key of ["user.name", "user.email"]) {
+      const [value] = await read(["--get", key]);
+      if (value) {
+        await execFileAsync("git", ["config", "--file", file, key, value]);
+      }
+    }
+    for (const dir of await read(["--get-all", "safe.directory"])) {
+      await execFileAsync("git", [
+        "config",
+        "--file",
+        file,
+        "--add",
+        "safe.directory",
+        dir,
+      ]);
+    }
+  }
+
+  private async runHook(
+    hook: string,
+    phase: "start" | "stop",
+    env: Record<string, string>
+  ): Promise<void> {
+    log.debug(
+      { repo: this.repo.fullName, phase, name: env.SANDBOX_NAME },
+      "ネットワークのフックを実行"
+    );
+    await execFileAsync("sh", ["-c", hook], {
+      env: { ...process.env, ...env, SANDBOX_PHASE: phase },
+      timeout: HOOK_TIMEOUT_MS,
+    });
+  }
+}
+
+/** 許可リストに一致する環境変数だけを残す */
+export function scrubEnv(
+  source: NodeJS.ProcessEnv,
+  allowlist: string[]
+): NodeJS.ProcessEnv {
+  const patterns = [...BASE_ENV_ALLOWLIST, ...allowlist];
+  const env: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined || SCRUBBED_ENV.has(key)) continue;
+    const allowed = patterns.some((pattern) =>
+      pattern.endsWith("*")
+        ? key.startsWith(pattern.slice(0, -1))
+        : key === pattern
+    );
+    if (allowed) env[key] = value;
+  }
+  return env;
+}
+
+/** PATH のうち隠すディレクトリの下にあるものを、bin の親ディレクトリにして返す */
+function commandDirsUnder(hidden: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const entry of (process.env["PATH"] ?? "").split(path.delimiter)) {
+    if (!entry || !path.isAbsolute(entry)) continue;
+    if (!hidden.some((dir) => entry.startsWith(dir + path.sep))) continue;
+    const parent = path.dirname(entry);
+    dirs.add(
+      path.basename(entry) === "bin" && !hidden.includes(parent)
+        ? parent
+        : entry
+    );
+  }
+  // 他のディレクトリに含まれるものは重ねてマウントしない
+  return [...dirs].filter(
+    (dir) => ![...dirs].some((other) => dir.startsWith(other + path.sep))
+  );
+}
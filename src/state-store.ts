@@ -0,0 +1,453 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createChildLogger } from "./logger.js";
+import type {
+  CiFixAttempts,
+  Clarification,
+  Config,
+  IssuePlan,
+  PersistedState,
+  ProcessedComment,
+  SpendEntry,
+  TaskRecord,
+  TaskStatus,
+} from "./types.js";
+
+const log = createChildLogger("state-store");
+
+/** タスクごとに残すステータスの履歴の件数（中断の回数を数えられる分より十分多く取る） */
+const MAX_TASK_HISTORY = 50;
+
+/**
+ * オーケストレータの状態（タスク・セッション・ポーリングカーソル）を保持するストア。
+ * 読み取りはメモリ上のスナップショットから同期的に行い、書き込みはバックエンドに永続化する。
+ */
+export interface StateStore {
+  /** バックエンドから状態を読み込む（起動時に1回呼ぶ） */
+  load(): Promise<void>;
+
+  getTasks(): TaskRecord[];
+  getTask(taskId: string): TaskRecord | undefined;
+  saveTask(
+    task: Omit<TaskRecord, "createdAt" | "updatedAt" | "history">
+  ): Promise<void>;
+  /** タスクのステータスを更新し、retainSince より前に終わったタスクの記録を削除する */
+  updateTaskStatus(
+    taskId: string,
+    status: TaskStatus,
+    retainSince: Date
+  ): Promise<void>;
+
+  getSession(repo: string, prNumber: number): string | undefined;
+  setSession(repo: string, prNumber: number, sessionId: string): Promise<void>;
+
+  getIssueSession(repo: string, issueNumber: number): string | undefined;
+  setIssueSession(
+    repo: string,
+    issueNumber: number,
+    sessionId: string
+  ): Promise<void>;
+
+  /** 指定時刻以降のコスト記録を取得 */
+  getSpendSince(since: Date): SpendEntry[];
+  /** コストを記録してタスクの累計に加え、retainSince より古い記録を削除する */
+  addSpend(entry: SpendEntry, retainSince: Date): Promise<void>;
+  /** タスクの累計コスト（記録がなければ 0） */
+  getTaskSpend(taskId: string): number;
+  /** タスクの累計コストを削除する（完了時・やり直し時） */
+  resetTaskSpend(taskId: string): Promise<void>;
+
+  getPollCursor(repo: string): string | undefined;
+  setPollCursor(repo: string, cursor: string): Promise<void>;
+
+  /** PR のレビューコメントを取得済みの更新日時（未取得なら undefined） */
+  getReviewCursor(repo: string, prNumber: number): string | undefined;
+  /** リポジトリの PR ごとの取得済みの更新日時を置き換える（含まれない PR の記録は削除する） */
+  setReviewCursors(repo: string, cursors: Map<number, string>): Promise<void>;
+
+  getPlans(repo: string): IssuePlan[];
+  getPlan(repo: string, issueNumber: number): IssuePlan | undefined;
+  setPlan(repo: string, plan: IssuePlan): Promise<void>;
+  deletePlan(repo: string, issueNumber: number): Promise<void>;
+
+  getClarifications(repo: string): Clarification[];
+  getClarification(
+    repo: string,
+    issueNumber: number
+  ): Clarification | undefined;
+  setClarification(repo: string, clarification: Clarification): Promise<void>;
+  deleteClarification(repo: string, issueNumber: number): Promise<void>;
+
+  /** 処理済みのコメントの記録（未処理なら undefined） */
+  getProcessedComment(
+    repo: string,
+    issueNumber: number,
+    commentKey: string
+  ): ProcessedComment | undefined;
+  /** コメントを処理済みとして記録し、retainSince より前に処理した記録を削除する */
+  markCommentProcessed(
+    repo: string,
+    issueNumber: number,
+    commentKey: string,
+    version: string,
+    retainSince: Date
+  ): Promise<void>;
+
+  getCiFix(repo: string, prNumber: number): CiFixAttempts | undefined;
+  setCiFix(repo: string, ciFix: CiFixAttempts): Promise<void>;
+  deleteCiFix(repo: string, prNumber: number): Promise<void>;
+}
+
+function emptyState(): PersistedState {
+  return {
+    version: 1,
+    tasks: {},
+    sessions: {},
+    issueSessions: {},
+    spend: [],
+    taskSpend: {},
+    pollCursors: {},
+    reviewCursors: {},
+    plans: {},
+    clarifications: {},
+    processedComments: {},
+    ciFixes: {},
+  };
+}
+
+/** セッションの保存キー（Issue・PR番号はリポジトリごとに重複するため） */
+function numberKey(repo: string, issueNumber: number): string {
+  return `${repo}#${issueNumber}`;
+}
+
+/** メモリ上のみで状態を保持するストア（永続化なし） */
+export class MemoryStateStore implements StateStore {
+  protected state: PersistedState = emptyState();
+
+  async load(): Promise<void> {
+    // 永続化先がないため何もしない
+  }
+
+  getTasks(): TaskRecord[] {
+    return Object.values(this.state.tasks);
+  }
+
+  getTask(taskId: string): TaskRecord | undefined {
+    return this.state.tasks[taskId];
+  }
+
+  async saveTask(
+    task: Omit<TaskRecord, "createdAt" | "updatedAt" | "history">
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const existing = this.state.tasks[task.id];
+    this.state.tasks[task.id] = {
+      ...task,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      history: [
+        ...(existing?.history ?? []),
+        { status: task.status, at: now },
+      ].slice(-MAX_TASK_HISTORY),
+    };
+    await this.persist();
+  }
+
+  async updateTaskStatus(
+    taskId: string,
+    status: TaskStatus,
+    retainSince: Date
+  ): Promise<void> {
+    // 実行中・実行待ちのタスクは古くても残す（再起動後に interrupted として記録する）
+    for (const [id, task] of Object.entries(this.state.tasks)) {
+      if (
+        task.status !== "pending" &&
+        task.status !== "in-progress" &&
+        new Date(task.updatedAt) < retainSince
+      ) {
+        delete this.state.tasks[id];
+      }
+    }
+
+    const task = this.state.tasks[taskId];
+    if (!task) {
+      log.warn({ taskId, status }, "未登録のタスクのステータス更新を無視");
+      return;
+    }
+    const now = new Date().toISOString();
+    task.status = status;
+    task.updatedAt = now;
+    task.history = [...task.history, { status, at: now }].slice(
+      -MAX_TASK_HISTORY
+    );
+    await this.persist();
+  }
+
+  getSession(repo: string, prNumber: number): string | undefined {
+    return this.state.sessions[numberKey(repo, prNumber)];
+  }
+
+  async setSession(
+    repo: string,
+    prNumber: number,
+    sessionId: string
+  ): Promise<void> {
+    this.state.sessions[numberKey(repo, prNumber)] = sessionId;
+    await this.persist();
+  }
+
+  getIssueSession(repo: string, issueNumber: number): string | undefined {
+    return this.state.issueSessions[numberKey(repo, issueNumber)];
+  }
+
+  async setIssueSession(
+    repo: string,
+    issueNumber: number,
+    sessionId: string
+  ): Promise<void> {
+    this.state.issueSessions[numberKey(repo, issueNumber)] = sessionId;
+    await this.persist();
+  }
+
+  getSpendSince(since: Date): SpendEntry[] {
+    return this.state.spend.filter((e) => new Date(e.at) >= since);
+  }
+
+  async addSpend(entry: SpendEntry, retainSince: Date): Promise<void> {
+    this.state.spend = [...this.getSpendSince(retainSince), entry];
+    this.state.taskSpend[entry.taskId] =
+      this.getTaskSpend(entry.taskId) + entry.costUsd;
+    await this.persist();
+  }
+
+  getTaskSpend(taskId: string): number {
+    return this.state.taskSpend[taskId] ?? 0;
+  }
+
+  async resetTaskSpend(taskId: string): Promise<void> {
+    if (!(taskId in this.state.taskSpend)) return;
+    delete this.state.taskSpend[taskId];
+    await this.persist();
+  }
+
+  getPollCursor(repo: string): string | undefined {
+    return this.state.pollCursors[repo];
+  }
+
+  async setPollCursor(repo: string, cursor: string): Promise<void> {
+    this.state.pollCursors[repo] = cursor;
+    await this.persist();
+  }
+
+  getReviewCursor(repo: string, prNumber: number): string | undefined {
+    return this.state.reviewCursors[numberKey(repo, prNumber)];
+  }
+
+  async setReviewCursors(
+    repo: string,
+    cursors: Map<number, string>
+  ): Promise<void> {
+    const others = Object.entries(this.state.reviewCursors).filter(
+      ([key]) => !key.startsWith(`${repo}#`)
+    );
+    this.state.reviewCursors = Object.fromEntries([
+      ...others,
+      ...[...cursors].map(([n, cursor]) => [numberKey(repo, n), cursor]),
+    ]);
+    await this.persist();
+  }
+
+  getPlans(repo: string): IssuePlan[] {
+    return Object.entries(this.state.plans)
+      .filter(([key]) => key.startsWith(`${repo}#`))
+      .map(([, plan]) => plan);
+  }
+
+  getPlan(repo: string, issueNumber: number): IssuePlan | undefined {
+    return this.state.plans[numberKey(repo, issueNumber)];
+  }
+
+  async setPlan(repo: string, plan: IssuePlan): Promise<void> {
+    this.state.plans[numberKey(repo, plan.issueNumber)] = plan;
+    await this.persist();
+  }
+
+  async deletePlan(repo: string, issueNumber: number): Promise<void> {
+    const key = numberKey(repo, issueNumber);
+    if (!(key in this.state.plans)) return;
+    delete this.state.plans[key];
+    await this.persist();
+  }
+
+  getClarifications(repo: string): Clarification[] {
+    return Object.entries(this.state.clarifications)
+      .filter(([key]) => key.startsWith(`${repo}#`))
+      .map(([, clarification]) => clarification);
+  }
+
+  getClarification(
+    repo: string,
+    issueNumber: number
+  ): Clarification | undefined {
+    return this.state.clarifications[numberKey(repo, issueNumber)];
+  }
+
+  async setClarification(
+    repo: string,
+    clarification: Clarification
+  ): Promise<void> {
+    this.state.clarifications[numberKey(repo, clarification.issueNumber)] =
+      clarification;
+    await this.persist();
+  }
+
+  async deleteClarification(repo: string, issueNumber: number): Promise<void> {
+    const key = numberKey(repo, issueNumber);
+    if (!(key in this.state.clarifications)) return;
+    delete this.state.clarifications[key];
+    await this.persist();
+  }
+
+  getProcessedComment(
+    repo: string,
+    issueNumber: number,
+    commentKey: string
+  ): ProcessedComment | undefined {
+    return this.state.processedComments[numberKey(repo, issueNumber)]?.[
+      commentKey
+    ];
+  }
+
+  async markCommentProcessed(
+    repo: string,
+    issueNumber: number,
+    commentKey: string,
+    version: string,
+    retainSince: Date
+  ): Promise<void> {
+    for (const [key, comments] of Object.entries(
+      this.state.processedComments
+    )) {
+      for (const [k, entry] of Object.entries(comments)) {
+        if (new Date(entry.processedAt) < retainSince) delete comments[k];
+      }
+      if (Object.keys(comments).length === 0) {
+        delete this.state.processedComments[key];
+      }
+    }
+
+    const key = numberKey(repo, issueNumber);
+    this.state.processedComments[key] = {
+      ...this.state.processedComments[key],
+      [commentKey]: { version, processedAt: new Date().toISOString() },
+    };
+    await this.persist();
+  }
+
+  getCiFix(repo: string, prNumber: number): CiFixAttempts | undefined {
+    return this.state.ciFixes[numberKey(repo, prNumber)];
+  }
+
+  async setCiFix(repo: string, ciFix: CiFixAttempts): Promise<void> {
+    this.state.ciFixes[numberKey(repo, ciFix.prNumber)] = ciFix;
+    await this.persist();
+  }
+
+  async deleteCiFix(repo: string, prNumber: number): Promise<void> {
+    const key = numberKey(repo, prNumber);
+    if (!(key in this.state.ciFixes)) return;
+    delete this.state.ciFixes[key];
+    await this.persist();
+  }
+
+  /** 変更をバックエンドに書き出す（サブクラスで実装） */
+  protected async persist(): Promise<void> {
+    // メモリストアでは何もしない
+  }
+}
+
+/**
+ * JSON ファイルに状態を永続化するストア。
+ * 書き込みは一時ファイル経由の rename で行い、途中でクラッシュしても壊れたファイルを残さない。
+ */
+export class JsonFileStateStore extends MemoryStateStore {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  override async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch (err: unknown) {
+      if (err instanceof Error && "code" in err && err.code === "ENOENT") {
+        log.info({ filePath: this.filePath }, "状態ファイルがないため新規作成");
+        return;
+      }
+      throw err;
+    }
+
+    const parsed = JSON.parse(raw) as { version?: number };
+    if (parsed.version === 1) {
+      const v1 = parsed as Partial<PersistedState>;
+      this.state = {
+        version: 1,
+        tasks: v1.tasks ?? {},
+        sessions: v1.sessions ?? {},
+        issueSessions: v1.issueSessions ?? {},
+        spend: v1.spend ?? [],
+        taskSpend: v1.taskSpend ?? {},
+        pollCursors: v1.pollCursors ?? {},
+        reviewCursors: v1.reviewCursors ?? {},
+        plans: v1.plans ?? {},
+        clarifications: v1.clarifications ?? {},
+        processedComments: v1.processedComments ?? {},
+        ciFixes: v1.ciFixes ?? {},
+      };
+    } else {
+      throw new Error(
+        `状態ファイル ${this.filePath} のバージョン ${String(parsed.version)} には対応していません`
+      );
+    }
+
+    log.info(
+      {
+        filePath: this.filePath,
+        taskCount: Object.keys(this.state.tasks).length,
+        sessionCount: Object.keys(this.state.sessions).length,
+        pollCursors: this.state.pollCursors,
+      },
+      "状態ファイルを読み込み完了"
+    );
+  }
+
+  /** 書き込みを直列化し、同時更新でファイルが競合しないようにする */
+  protected override persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.state, null, 2);
+    this.writeChain = this.writeChain
+      .catch(() => {})
+      .then(() => this.writeFile(snapshot));
+    return this.writeChain;
+  }
+
+  private async writeFile(content: string): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, content, "utf-8");
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+/** 設定に応じたストアを生成 */
+export function createStateStore(config: Config): StateStore {
+  switch (config.state.backend) {
+    case "memory":
+      return new MemoryStateStore();
+    case "json":
+      return new JsonFileStateStore(config.state.filePath);
+  }
+}
@@ -1,35 +1,123 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import { readFile } from "node:fs/promises";
+import { access } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
 import path from "node:path";
 import { createChildLogger } from "./logger.js";
-import { runClaude } from "./claude.js";
+import { SessionNotFoundError, assertClaudeSucceeded } from "./claude.js";
+import type { AgentRunner } from "./agent-runner.js";
 import { GitHubClient } from "./github.js";
-import type { Config, TrackedIssue, TaskContext } from "./types.js";
+import {
+  BudgetTracker,
+  BudgetExceededError,
+  type TaskSpend,
+} from "./budget.js";
+import { Verifier, formatFailures } from "./verifier.js";
+import { PushGuard } from "./push-guard.js";
+import { Sandbox } from "./sandbox.js";
+import {
+  gitRemoteOptions,
+  issueBranchName,
+  issueTaskId,
+} from "./repository.js";
+import { ProgressReporter } from "./progress-reporter.js";
+import { isCancelled, isInterrupted } from "./worker-pool.js";
+import { PromptBuilder } from "./prompts.js";
+import type { StateStore } from "./state-store.js";
+import type {
+  Clarification,
+  Config,
+  RepoConfig,
+  TrackedIssue,
+  TaskContext,
+  ClaudeResult,
+} from "./types.js";
 
 const execFileAsync = promisify(execFile);
 const log = createChildLogger("task-handler");
 
-const LABELS = {
-  trigger: "auto-implement",
-  inProgress: "auto-in-progress",
-  failed: "auto-failed",
-} as const;
+/** 中断された実装を新しいセッションでやり直すときに、実装のプロンプトに加える注意 */
+const RESUMED_WORKTREE_NOTE = `前回の実装はオーケストレータの再起動により途中で中断されました。
+worktree には中断前の変更が残っている場合があります。git status / git log で確認してから実装を続けてください。`;
+
+/** 実装計画の作成中に Claude に許可するツール（コードは変更させない） */
+const PLAN_ALLOWED_TOOLS = ["Read", "Glob", "Grep", "LS"];
+
+export interface TaskHandleOptions {
+  /** 中断された実装を再開する場合のセッションID */
+  resumeSessionId?: string;
+}
 
 export class TaskHandler {
   private github: GitHubClient;
   private config: Config;
+  private repo: RepoConfig;
   private repoRoot: string;
-
-  constructor(github: GitHubClient, config: Config, repoRoot: string) {
+  private store: StateStore;
+  private budget: BudgetTracker;
+  private verifier: Verifier;
+  private prompts: PromptBuilder;
+  private guard: PushGuard;
+  private sandbox: Sandbox;
+  private agent: AgentRunner;
+  /** Issue番号 → 実行中のタスクの進捗（`/auto status` の応答用） */
+  private activeProgress: Map<number, ProgressReporter> = new Map();
+
+  constructor(
+    github: GitHubClient,
+    config: Config,
+    repo: RepoConfig,
+    store: StateStore,
+    budget: BudgetTracker,
+    verifier: Verifier,
+    agent: AgentRunner
+  ) {
     this.github = github;
     this.config = config;
-    this.repoRoot = repoRoot;
+    this.repo = repo;
+    this.repoRoot = repo.localPath;
+    this.store = store;
+    this.budget = budget;
+    this.verifier = verifier;
+    this.prompts = new PromptBuilder(github, repo);
+    this.guard = new PushGuard(repo);
+    this.sandbox = new Sandbox(repo);
+    this.agent = agent;
   }
 
-  /** Issue を受け取り、実装 → PR作成 まで実行する */
-  async handle(issue: TrackedIssue, abortSignal: AbortSignal): Promise<void> {
-    const branchName = `auto/issue-${issue.number}`;
+  /** 実行中の Issue の現在のステップ（実行中でなければ undefined） */
+  currentStep(issueNumber: number): string | undefined {
+    return this.activeProgress.get(issueNumber)?.step;
+  }
+
+  /**
+   * Issue を受け取り、実装 → PR作成 まで実行する。
+   * plan ラベル付きで承認済みの計画がない Issue は、計画を作成して承認待ちにするところまで行う。
+   */
+  async handle(
+    issue: TrackedIssue,
+    abortSignal: AbortSignal,
+    options: TaskHandleOptions = {}
+  ): Promise<void> {
+    const { resumeSessionId } = options;
+    const labels = this.repo.labels;
+    const plan = this.store.getPlan(this.repo.fullName, issue.number);
+    const approvedPlan =
+      !resumeSessionId && plan?.status === "approved" ? plan : undefined;
+    const clarification = this.store.getClarification(
+      this.repo.fullName,
+      issue.number
+    );
+    const answered =
+      !resumeSessionId && clarification?.status === "answered"
+        ? clarification
+        : undefined;
+    const planning =
+      !resumeSessionId &&
+      !approvedPlan &&
+      !answered &&
+      issue.labels.includes(labels.plan);
+    const branchName = issueBranchName(this.repo, issue.number);
     const worktreePath = path.join(
       this.repoRoot,
       ".worktrees",
@@ -37,21 +125,44 @@ export class TaskHandler {
     );
 
     log.info(
-      { issueNumber: issue.number, title: issue.title },
-      "Issue実装を開始"
+      {
+        repo: this.repo.fullName,
+        issueNumber: issue.number,
+        title: issue.title,
+        resume: !!resumeSessionId,
+        planning,
+        approvedPlan: !!approvedPlan,
+        answered: !!answered,
+      },
+      planning ? "実装計画の作成を開始" : "Issue実装を開始"
     );
 
+    // 進捗は Issue 上の1つのコメントを書き換えて表示する
+    const progress = new ProgressReporter(this.github, {
+      issueNumber: issue.number,
+      headline: planning
+        ? "📝 実装計画を作成中です。承認後に実装を開始します。"
+        : resumeSessionId
+          ? "🤖 中断された自動実装を再開しました。完了後にPRを作成します。"
+          : "🤖 自動実装を実行中です。完了後にPRを作成します。",
+      cwd: worktreePath,
+      intervalMs: this.config.claude.progressIntervalMs,
+    });
+    this.activeProgress.set(issue.number, progress);
+
     try {
       // ラベルを変更して開始を通知
-      await this.github.removeLabel(issue.number, LABELS.trigger);
-      await this.github.addLabel(issue.number, LABELS.inProgress);
-      await this.github.postComment(
-        issue.number,
-        "🤖 自動実装を開始します。完了後にPRを作成します。"
-      );
-
-      // worktree を作成
-      await this.createWorktree(worktreePath, branchName);
+      await this.github.removeLabel(issue.number, labels.trigger);
+      await this.github.addLabel(issue.number, labels.inProgress);
+      await progress.start();
+
+      // worktree を作成（再開時は中断前の worktree が残っていれば再利用）
+      progress.setStep("worktree を作成中");
+      if (resumeSessionId && (await this.exists(worktreePath))) {
+        log.info({ worktreePath }, "中断前のworktreeを再利用");
+      } else {
+        await this.createWorktree(worktreePath, branchName);
+      }
 
       const context: TaskContext = {
         issueNumber: issue.number,
@@ -60,115 +171,529 @@ export class TaskHandler {
         abortSignal,
       };
 
+      const spend: TaskSpend = {
+        taskId: issueTaskId(this.repo, issue.number),
+        type: "issue",
+      };
+
+      if (planning) {
+        await this.createPlan(issue, context, spend, progress);
+        return;
+      }
+
+      // 中断時に再開できるよう、セッションIDを実行前に保存しておく
+      // （質問への回答・承認済みの計画があれば、そのセッションを再開する）
+      const continuedSessionId =
+        resumeSessionId ?? answered?.sessionId ?? approvedPlan?.sessionId;
+      const sessionId = continuedSessionId ?? randomUUID();
+      await this.store.setIssueSession(
+        this.repo.fullName,
+        issue.number,
+        sessionId
+      );
+
       // Claude Code で実装を実行
-      const prompt = await this.buildPrompt(issue);
-      const result = await runClaude({
-        prompt,
-        cwd: worktreePath,
-        allowedTools: this.config.claude.allowedTools.length > 0
-          ? this.config.claude.allowedTools
-          : undefined,
-        abortSignal,
-      });
+      progress.setStep("Claude Code を起動中");
+      let prompt: string;
+      if (resumeSessionId) {
+        prompt = this.buildResumePrompt();
+      } else if (answered) {
+        prompt = this.buildAnswerPrompt(answered);
+      } else {
+        prompt = await this.prompts.buildImplementPrompt(
+          issue,
+          worktreePath,
+          approvedPlan?.plan
+        );
+      }
+      const implementation = await this.runImplementation(
+        issue,
+        context,
+        { prompt, resumeSessionId: continuedSessionId, sessionId },
+        async () => {
+          // 会話を引き継げないため、Issue の指示から渡し直す
+          const implement = await this.prompts.buildImplementPrompt(
+            issue,
+            worktreePath,
+            plan?.status === "approved" ? plan.plan : undefined
+          );
+          if (resumeSessionId) {
+            return `${implement}\n\n${RESUMED_WORKTREE_NOTE}`;
+          }
+          if (answered) {
+            return `${implement}\n\n${this.buildAnswerPrompt(answered)}`;
+          }
+          return implement;
+        },
+        spend,
+        progress
+      );
 
-      if (result.exitCode !== 0) {
-        throw new Error(
-          `Claude Code がエラーコード ${result.exitCode} で終了しました`
+      assertClaudeSucceeded(implementation);
+
+      // 情報が足りず Claude が質問してきた場合は、Issue に投稿して回答を待つ
+      const questions = this.extractQuestions(implementation.resultText);
+      if (questions.length > 0) {
+        await this.askForClarification(
+          issue,
+          implementation,
+          questions,
+          progress
         );
+        return;
       }
 
+      // 検証に通るまで Claude に修正させる
+      const { result, repairAttempts } = await this.verifyAndRepair(
+        context,
+        implementation,
+        spend,
+        progress
+      );
+
+      // 秘密情報・保護されたパスなどを検査してから push する
+      progress.setStep("push 前の検査を実行中");
+      await this.guard.check(
+        worktreePath,
+        `origin/${this.repo.baseBranch}`,
+        async () =>
+          (await this.github.getIssue(issue.number)).labels.includes(
+            labels.allowProtected
+          )
+      );
+
       // git push
+      progress.setStep("git push を実行中");
       await this.gitPush(context);
 
       // PR を作成
-      const prBody = this.buildPRBody(issue, result.stdout, result.sessionId);
+      progress.setStep("PR を作成中");
+      const prBody = this.buildPRBody(issue, result, repairAttempts);
       const prNumber = await this.github.createPullRequest({
         title: `feat: #${issue.number} ${issue.title}`,
         body: prBody,
         head: branchName,
       });
 
+      // レビュー対応で同じセッションを継続できるよう保存
+      await this.store.setSession(
+        this.repo.fullName,
+        prNumber,
+        result.sessionId
+      );
+
+      await progress.finish(`✅ 自動実装が完了しました（PR #${prNumber}）。`);
+      await this.store.deletePlan(this.repo.fullName, issue.number);
+      await this.store.deleteClarification(this.repo.fullName, issue.number);
+
       // Issue にPRリンクをコメント
       await this.github.postComment(
         issue.number,
-        `✅ PRを作成しました: #${prNumber}\nセッションID: \`${result.sessionId ?? "N/A"}\``
+        `✅ PRを作成しました: #${prNumber}\nセッションID: \`${result.sessionId}\` / コスト: $${result.costUsd.toFixed(2)} / ${result.numTurns}ターン`
       );
 
       // 完了ラベルを設定
-      await this.github.removeLabel(issue.number, LABELS.inProgress);
+      await this.github.removeLabel(issue.number, labels.inProgress);
+      await this.budget.resetTask(spend.taskId);
 
       log.info(
-        { issueNumber: issue.number, prNumber },
+        { repo: this.repo.fullName, issueNumber: issue.number, prNumber },
         "Issue実装が完了"
       );
     } catch (err) {
-      log.error({ err, issueNumber: issue.number }, "Issue実装に失敗");
+      // シャットダウンによる中断は、再起動後に Recovery が再開できるようラベルと worktree を残す
+      if (isInterrupted(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, issueNumber: issue.number },
+          "Issue実装をシャットダウンにより中断"
+        );
+        await progress
+          .finish(
+            "⏸️ オーケストレータの停止により中断しました。再起動後に再開します。"
+          )
+          .catch(() => {});
+        return;
+      }
 
-      // エラー報告
-      await this.github.removeLabel(issue.number, LABELS.inProgress).catch(() => {});
-      await this.github.addLabel(issue.number, LABELS.failed).catch(() => {});
+      // `/auto cancel` による中止は失敗として扱わない
+      if (isCancelled(abortSignal)) {
+        log.info(
+          { repo: this.repo.fullName, issueNumber: issue.number },
+          "Issue実装をキャンセル"
+        );
+        await progress
+          .finish("🛑 `/auto cancel` により自動実装を中止しました。")
+          .catch(() => {});
+        await this.github.removeLabel(issue.number, labels.inProgress).catch(() => {});
+        return;
+      }
+
+      log.error(
+        { err, repo: this.repo.fullName, issueNumber: issue.number },
+        "Issue実装に失敗"
+      );
+
+      // エラー報告（予算・時間の上限による中止は別ラベルで区別する）
+      const budgetExceeded = err instanceof BudgetExceededError;
+      const headline = budgetExceeded
+        ? "⏱️ 予算・時間の上限に達したため自動実装を中止しました。"
+        : "❌ 自動実装に失敗しました。";
+      await progress.finish(headline).catch(() => {});
+      await this.github.removeLabel(issue.number, labels.inProgress).catch(() => {});
+      await this.github
+        .addLabel(
+          issue.number,
+          budgetExceeded ? labels.budgetExceeded : labels.failed
+        )
+        .catch(() => {});
       await this.github
         .postComment(
           issue.number,
-          `❌ 自動実装に失敗しました。\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
+          `${headline}\n\n\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``
         )
         .catch(() => {});
     } finally {
-      // worktree を削除
-      await this.removeWorktree(worktreePath).catch((err) => {
-        log.warn({ err, worktreePath }, "worktreeの削除に失敗");
-      });
+      progress.stop();
+      this.activeProgress.delete(issue.number);
+
+      // worktree を削除（シャットダウンで中断した場合は再開時に再利用する）
+      if (!isInterrupted(abortSignal)) {
+        await this.removeWorktree(worktreePath).catch((err) => {
+          log.warn({ err, worktreePath }, "worktreeの削除に失敗");
+        });
+      }
     }
   }
 
-  /** Claude Code に渡すプロンプトを構築 */
-  private async buildPrompt(issue: TrackedIssue): Promise<string> {
-    let todoContent = "";
-    try {
-      todoContent = await readFile(
-        path.join(this.repoRoot, "docs/todo/todo.md"),
-        "utf-8"
+  /**
+   * コードを変更させずに実装計画を作成させ、Issue に投稿して承認待ちにする。
+   * 承認の確認は PlanApprovals が行い、承認後の実装で同じセッションを再開する。
+   */
+  private async createPlan(
+    issue: TrackedIssue,
+    context: TaskContext,
+    spend: TaskSpend,
+    progress: ProgressReporter
+  ): Promise<void> {
+    const labels = this.repo.labels;
+
+    progress.setStep("Claude Code を起動中");
+    const prompt = await this.prompts.buildPlanPrompt(
+      issue,
+      context.worktreePath
+    );
+    const result = await this.budget.run(
+      spend,
+      context.abortSignal,
+      (signal, onEvent) =>
+        this.agent.run({
+          prompt,
+          cwd: context.worktreePath,
+          sessionId: randomUUID(),
+          allowedTools: PLAN_ALLOWED_TOOLS,
+          maxTurns: this.config.budget.maxTurns || undefined,
+          abortSignal: signal,
+          onEvent: (event) => {
+            onEvent(event);
+            progress.handleEvent(event);
+          },
+        })
+    );
+    assertClaudeSucceeded(result);
+
+    progress.setStep("実装計画を投稿中");
+    const commentId = await this.github.postComment(
+      issue.number,
+      [
+        "📝 **実装計画**",
+        "",
+        result.resultText.trim(),
+        "",
+        "---",
+        `この計画で実装してよければ、このコメントに 👍 を付けるか、\`/auto approve\` とコメントするか、\`${labels.approved}\` ラベルを付けてください。`,
+        "計画を作り直す場合は `/auto plan` とコメントしてください。",
+      ].join("\n")
+    );
+    await this.store.setPlan(this.repo.fullName, {
+      issueNumber: issue.number,
+      sessionId: result.sessionId,
+      commentId,
+      plan: result.resultText.trim(),
+      status: "awaiting-approval",
+      createdAt: new Date().toISOString(),
+    });
+
+    await progress.finish("📝 実装計画を作成しました。承認を待っています。");
+    await this.github.removeLabel(issue.number, labels.inProgress);
+    await this.github.addLabel(issue.number, labels.awaitingApproval);
+
+    log.info(
+      {
+        repo: this.repo.fullName,
+        issueNumber: issue.number,
+        commentId,
+        costUsd: result.costUsd,
+      },
+      "実装計画を投稿し承認待ちにした"
+    );
+  }
+
+  /**
+   * Claude の質問を Issue に投稿し、needsInfo ラベルを付けて回答を待つ。
+   * 回答の確認は Clarifications が行い、回答後の実装で同じセッションを再開する。
+   */
+  private async askForClarification(
+    issue: TrackedIssue,
+    result: ClaudeResult,
+    questions: string[],
+    progress: ProgressReporter
+  ): Promise<void> {
+    const labels = this.repo.labels;
+    const requestedBy =
+      issue.labeledBy ??
+      (await this.github.getLabelActor(issue.number, labels.trigger));
+    const askedTo = [
+      ...new Set(
+        [issue.author, requestedBy].filter((u): u is string => !!u)
+      ),
+    ];
+
+    progress.setStep("質問を投稿中");
+    const mentions = askedTo.map((u) => `@${u}`).join(" ");
+    const commentId = await this.github.postComment(
+      issue.number,
+      [
+        `❓ ${mentions} Issue の内容だけでは実装方針を決められないため、次の点を教えてください。`,
+        "",
+        ...questions.map((q) => `- ${q}`),
+        "",
+        "このIssueにコメントで回答いただくと、回答を踏まえて実装を再開します。",
+      ].join("\n")
+    );
+    await this.store.setClarification(this.repo.fullName, {
+      issueNumber: issue.number,
+      sessionId: result.sessionId,
+      commentId,
+      questions,
+      askedTo,
+      requestedBy,
+      askedAt: new Date().toISOString(),
+      status: "awaiting-answer",
+      answers: [],
+    });
+
+    await progress.finish("❓ 情報が不足しているため質問しました。回答を待っています。");
+    await this.github.removeLabel(issue.number, labels.inProgress);
+    await this.github.addLabel(issue.number, labels.needsInfo);
+
+    log.info(
+      {
+        repo: this.repo.fullName,
+        issueNumber: issue.number,
+        questionCount: questions.length,
+        askedTo,
+      },
+      "質問を投稿し回答待ちにした"
+    );
+  }
+
+  /**
+   * worktree を検証し、失敗したらエラー出力を渡して同じセッションで修正させる。
+   * 修正回数の上限を超えても通らなければ、最後の検証ログを含むエラーを投げる。
+   * 返す結果の resultText は最初の実装のもの（PR本文の要約に使う）で、コストとターン数は合算する。
+   */
+  private async verifyAndRepair(
+    context: TaskContext,
+    implementation: ClaudeResult,
+    spend: TaskSpend,
+    progress: ProgressReporter
+  ): Promise<{ result: ClaudeResult; repairAttempts: number }> {
+    const { maxRepairAttempts } = this.config.verification;
+    let result = implementation;
+
+    for (let attempt = 0; ; attempt++) {
+      progress.setStep("実装を検証中");
+      const verification = await this.verifier.verify(
+        context.worktreePath,
+        `origin/${this.repo.baseBranch}`,
+        context.abortSignal,
+        this.sandbox
+      );
+      if (verification.passed) {
+        return { result, repairAttempts: attempt };
+      }
+
+      const failures = formatFailures(verification.failures);
+      if (attempt >= maxRepairAttempts) {
+        throw new Error(
+          `検証に失敗しました（修正 ${attempt} 回）\n\n${failures}`
+        );
+      }
+
+      log.info(
+        { issueNumber: context.issueNumber, attempt: attempt + 1 },
+        "検証の失敗を Claude に修正させる"
+      );
+      progress.setStep(
+        `検証の失敗を修正中（${attempt + 1}/${maxRepairAttempts}）`
+      );
+      const repair = await this.budget.run(
+        spend,
+        context.abortSignal,
+        (signal, onEvent) =>
+          this.agent.run({
+            prompt: this.buildRepairPrompt(failures),
+            cwd: context.worktreePath,
+            resumeSessionId: result.sessionId,
+            allowedTools: this.config.claude.allowedTools.length > 0
+              ? this.config.claude.allowedTools
+              : undefined,
+            maxTurns: this.config.budget.maxTurns || undefined,
+            abortSignal: signal,
+            onEvent: (event) => {
+              onEvent(event);
+              progress.handleEvent(event);
+            },
+          })
+      );
+      assertClaudeSucceeded(repair);
+
+      result = {
+        ...repair,
+        resultText: implementation.resultText,
+        costUsd: result.costUsd + repair.costUsd,
+        numTurns: result.numTurns + repair.numTurns,
+        durationMs: result.durationMs + repair.durationMs,
+      };
+      await this.store.setIssueSession(
+        this.repo.fullName,
+        context.issueNumber,
+        result.sessionId
       );
-    } catch {
-      // todo.md が存在しない場合は無視
     }
+  }
 
-    return `あなたは GitHub Issue の内容に基づいてコードを実装するエージェントです。
+  /**
+   * Claude Code で実装を実行する。
+   * 継続するセッションが CLI に残っていなければ（セッションIDの保存後、CLI が会話を記録する前に落ちた場合など）、
+   * 新しいセッションIDを保存し直し、freshPrompt で最初から実行し直す。
+   */
+  private async runImplementation(
+    issue: TrackedIssue,
+    context: TaskContext,
+    session: { prompt: string; resumeSessionId?: string; sessionId: string },
+    freshPrompt: () => Promise<string>,
+    spend: TaskSpend,
+    progress: ProgressReporter
+  ): Promise<ClaudeResult> {
+    return this.budget.run(
+      spend,
+      context.abortSignal,
+      async (signal, onEvent) => {
+        const run = (
+          prompt: string,
+          resumeSessionId: string | undefined,
+          sessionId: string
+        ) =>
+          this.agent.run({
+            prompt,
+            cwd: context.worktreePath,
+            resumeSessionId,
+            sessionId,
+            allowedTools: this.config.claude.allowedTools.length > 0
+              ? this.config.claude.allowedTools
+              : undefined,
+            maxTurns: this.config.budget.maxTurns || undefined,
+            abortSignal: signal,
+            onEvent: (event) => {
+              onEvent(event);
+              progress.handleEvent(event);
+            },
+          });
+
+        try {
+          return await run(
+            session.prompt,
+            session.resumeSessionId,
+            session.sessionId
+          );
+        } catch (err) {
+          if (!(err instanceof SessionNotFoundError)) throw err;
+
+          const sessionId = randomUUID();
+          log.warn(
+            {
+              repo: this.repo.fullName,
+              issueNumber: issue.number,
+              missingSessionId: err.sessionId,
+              sessionId,
+            },
+            "継続するセッションが見つからないため、新しいセッションで実行し直す"
+          );
+          await this.store.setIssueSession(
+            this.repo.fullName,
+            issue.number,
+            sessionId
+          );
+          return run(await freshPrompt(), undefined, sessionId);
+        }
+      }
+    );
+  }
 
-## 実装対象の Issue
+  /** 中断されたセッションを再開する際のプロンプトを構築 */
+  private buildResumePrompt(): string {
+    return `オーケストレータの再起動により、前回の実装が途中で中断されました。
 
-**タイトル:** ${issue.title}
-**Issue番号:** #${issue.number}
+worktree の状態（git status / git log）を確認し、Issue の実装を最後まで完了してください。
+指示は前回と同じです。実装完了後、変更を git commit してください（git push は不要）。`;
+  }
 
-**内容:**
-${issue.body}
+  /** 質問への回答を渡して実装を続けさせる際のプロンプトを構築 */
+  private buildAnswerPrompt(clarification: Clarification): string {
+    const answers = clarification.answers
+      .map((a) => `### @${a.user} の回答\n${a.body}`)
+      .join("\n\n");
+    return `先ほどの質問に Issue 上で回答がありました。
 
-## 参考情報
+## 質問
 
-このリポジトリの todo.md に現在のタスク一覧があります:
-${todoContent ? `\n\`\`\`\n${todoContent}\n\`\`\`` : "（todo.md なし）"}
+${clarification.questions.map((q) => `- ${q}`).join("\n")}
 
-## 指示
+## 回答
 
-1. Issue の内容を分析し、必要な実装を行ってください
-2. CLAUDE.md が存在する場合はその指示に従ってください
-3. テストが必要な場合はテストも作成してください
-4. 実装完了後、変更を git commit してください（git push は不要）
-5. コミットメッセージは日本語で、適切な prefix をつけてください
+${answers}
 
-## 判断ポイント
+回答を踏まえて Issue の実装を行ってください。指示は最初と同じです。
+実装完了後、変更を git commit してください（git push は不要）。
+まだ判断できない点があれば、同じく [NEEDS_CLARIFICATION] の形式で質問してください。`;
+  }
+
+  /** 検証に失敗した実装を修正させる際のプロンプトを構築 */
+  private buildRepairPrompt(failures: string): string {
+    return `実装後の検証に失敗しました。以下の出力を確認して問題を修正してください。
 
-実装中に迷った点や代替案がある場合は、以下の形式で標準出力に出力してください:
-[DECISION_POINT] 迷った内容の説明 | 採用した選択肢 | 見送った選択肢`;
+\`\`\`
+${failures}
+\`\`\`
+
+修正が終わったら変更を git commit してください（git push は不要）。
+コミットがない・未コミットの変更が残っている場合も検証失敗として扱われます。`;
   }
 
   /** PR本文を構築 */
   private buildPRBody(
     issue: TrackedIssue,
-    claudeOutput: string,
-    sessionId?: string
+    result: ClaudeResult,
+    repairAttempts: number
   ): string {
-    const decisionPoints = this.extractDecisionPoints(claudeOutput);
+    const { commands } = this.config.verification;
+    const decisionPoints = this.extractDecisionPoints(result.resultText);
+    const summary = result.resultText
+      .split("\n")
+      .filter((line) => !line.includes("[DECISION_POINT]"))
+      .join("\n")
+      .trim();
 
     return `## 概要
 
@@ -176,6 +701,10 @@ Closes #${issue.number}
 
 Issue「${issue.title}」の自動実装PRです。
 
+## 実装内容
+
+${summary || "（要約なし）"}
+
 ## 判断ポイント
 
 ${
@@ -192,13 +721,28 @@ ${
 ## メタ情報
 
 - 🤖 Claude Code による自動実装
-- セッションID: \`${sessionId ?? "N/A"}\`
+- セッションID: \`${result.sessionId}\`
+- コスト: $${result.costUsd.toFixed(2)}（${result.numTurns}ターン / ${Math.round(
+      result.durationMs / 1000
+    )}秒）
+- 検証: ${
+      commands.length > 0
+        ? commands.map((c) => `\`${c}\``).join(", ")
+        : "コミットの有無のみ"
+    }（修正 ${repairAttempts} 回）
 
 ---
 > レビューコメントを書くと、自動的に修正が行われます。`;
   }
 
-  /** Claude の出力から判断ポイントを抽出 */
+  /** Claude の最終応答から [NEEDS_CLARIFICATION] の質問を抽出 */
+  private extractQuestions(output: string): string[] {
+    return [...output.matchAll(/\[NEEDS_CLARIFICATION\]\s*(.+)/g)].map(
+      (m) => m[1]!.trim()
+    );
+  }
+
+  /** Claude の最終応答から判断ポイントを抽出 */
   private extractDecisionPoints(output: string): Array<{
     description: string;
     chosen: string;
@@ -230,11 +774,20 @@ ${
   ): Promise<void> {
     log.debug({ worktreePath, branchName }, "worktreeを作成中");
 
+    // 新規ブランチの起点と、検証・push 前の検査の比較対象にするベースブランチの最新を取得
+    await execFileAsync(
+      "git",
+      ["fetch", "origin", this.repo.baseBranch],
+      gitRemoteOptions(this.config.github, this.repoRoot)
+    );
+
     // リモートに同名ブランチがあれば取得、なければ新規作成
     try {
-      await execFileAsync("git", ["fetch", "origin", branchName], {
-        cwd: this.repoRoot,
-      });
+      await execFileAsync(
+        "git",
+        ["fetch", "origin", branchName],
+        gitRemoteOptions(this.config.github, this.repoRoot)
+      );
       await execFileAsync(
         "git",
         ["worktree", "add", worktreePath, `origin/${branchName}`],
@@ -247,22 +800,63 @@ ${
         { cwd: worktreePath }
       );
     } catch {
+      // ローカルにだけブランチが残っている場合（push 前に中断）はそれを使う
+      if (await this.hasLocalBranch(branchName)) {
+        await execFileAsync(
+          "git",
+          ["worktree", "add", worktreePath, branchName],
+          { cwd: this.repoRoot }
+        );
+        return;
+      }
+
       // リモートにブランチがない場合は新規作成
       await execFileAsync(
         "git",
-        ["worktree", "add", "-b", branchName, worktreePath, "main"],
+        [
+          "worktree",
+          "add",
+          "--no-track",
+          "-b",
+          branchName,
+          worktreePath,
+          `origin/${this.repo.baseBranch}`,
+        ],
         { cwd: this.repoRoot }
       );
     }
   }
 
+  /** ローカルブランチが存在するか */
+  private async hasLocalBranch(branchName: string): Promise<boolean> {
+    try {
+      await execFileAsync(
+        "git",
+        ["rev-parse", "--verify", "--quiet", `refs/heads/${branchName}`],
+        { cwd: this.repoRoot }
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /** git push を実行 */
   private async gitPush(context: TaskContext): Promise<void> {
     log.debug({ branchName: context.branchName }, "git pushを実行中");
     await execFileAsync(
       "git",
       ["push", "-u", "origin", context.branchName],
-      { cwd: context.worktreePath }
+      gitRemoteOptions(this.config.github, context.worktreePath)
     );
   }
 
@@ -1,18 +1,161 @@
 export interface Config {
   github: {
     token: string;
-    owner: string;
-    repo: string;
+    /** GitHub API の URL（GitHub Enterprise Server やローカルの偽 API を使う場合に指定） */
+    apiUrl: string;
   };
+  /** 監視対象のリポジトリ（1つ以上） */
+  repositories: RepoConfig[];
   polling: {
     intervalMs: number;
   };
   worker: {
     maxConcurrency: number;
+    /** 実行待ちキューに積める最大タスク数 */
+    maxQueueDepth: number;
   };
   claude: {
     allowedTools: string[];
+    /** Issue 上の進捗コメントを更新する間隔 */
+    progressIntervalMs: number;
   };
+  budget: {
+    /** Claude Code 1回の実行の制限時間（0 で無制限） */
+    runTimeoutMs: number;
+    /** `--max-turns` に渡す最大ターン数（0 で無制限） */
+    maxTurns: number;
+    /** 1タスクあたりのコスト上限 USD（0 で無制限） */
+    maxTaskCostUsd: number;
+    /** 直近24時間のオーケストレータ全体のコスト上限 USD（0 で無制限） */
+    dailyBudgetUsd: number;
+  };
+  verification: {
+    /** 実装後に worktree で実行する検証コマンド（型チェック・テストなど） */
+    commands: string[];
+    /** 検証コマンド1件あたりの制限時間 */
+    commandTimeoutMs: number;
+    /** 検証に失敗したとき Claude に修正させる最大回数 */
+    maxRepairAttempts: number;
+  };
+  state: {
+    backend: "json" | "memory";
+    filePath: string;
+  };
+  webhook: {
+    enabled: boolean;
+    port: number;
+    path: string;
+    secret: string;
+  };
+  /** 死活監視・メトリクスの HTTP エンドポイント（/healthz・/readyz・/metrics） */
+  monitoring: {
+    enabled: boolean;
+    port: number;
+  };
+}
+
+/** オーケストレータが付け外しするラベルの名前 */
+export interface RepoLabels {
+  trigger: string;
+  inProgress: string;
+  failed: string;
+  budgetExceeded: string;
+  /** 実装の前に計画を作成し、承認を待つ Issue */
+  plan: string;
+  awaitingApproval: string;
+  approved: string;
+  /** Claude の質問への回答を待っている Issue */
+  needsInfo: string;
+  /** CI の自動修正を上限回数まで試みても通らなかった PR */
+  ciGivingUp: string;
+  /** 保護されたパス（ワークフロー・Dockerfile・ロックファイルなど）の変更を許可する Issue・PR */
+  allowProtected: string;
+}
+
+/** タスクで使うコーディングエージェント */
+export interface AgentConfig {
+  /** claude: Claude Code CLI / fake: シナリオファイルの内容を再生する偽のエージェント（オフラインでの動作確認用） */
+  runner: "claude" | "fake";
+  /** fake のシナリオファイル（YAML / JSON） */
+  script?: string;
+}
+
+/** エージェント（Claude Code CLI）の実行環境の隔離 */
+export interface SandboxConfig {
+  /**
+   * none: 環境変数と HOME だけを分ける /
+   * bubblewrap: bwrap の名前空間で worktree 以外を読み取り専用にする /
+   * container: コンテナの中で worktree だけをマウントして実行する
+   */
+  mode: "none" | "bubblewrap" | "container";
+  /** 組み込みの許可リストに加えてエージェントに渡す環境変数の名前（末尾の `*` は前方一致） */
+  envAllowlist: string[];
+  /** deny にするとエージェントをネットワークから切り離す（bubblewrap・container のみ） */
+  network: "allow" | "deny";
+  /** 実行の開始・終了時に呼ぶコマンド（ファイアウォール・プロキシの設定用。空なら呼ばない） */
+  networkHook: string;
+  /** container で使うイメージ（Claude Code CLI と git を含むもの） */
+  image: string;
+  /** container で使うコマンド（docker / podman） */
+  containerCommand: string;
+  /** Claude Code のセッション・認証情報を置くディレクトリ（タスクをまたいでセッションを継続するため共有する） */
+  claudeConfigDir: string;
+}
+
+/** push する前に行う差分の検査 */
+export interface PushGuardConfig {
+  /** 変更を禁止するパス（allowProtected ラベルの付いた Issue・PR を除く） */
+  protectedPaths: string[];
+  /** 秘密情報の検査から除外するパス（ロックファイルのハッシュなど） */
+  secretScanIgnore: string[];
+  /** 差分の行数（追加＋削除）の上限（0 で無制限） */
+  maxDiffLines: number;
+  /** 変更したファイル数の上限（0 で無制限） */
+  maxFiles: number;
+}
+
+/** GitHub のリポジトリ権限（弱い順） */
+export type PermissionLevel = "read" | "triage" | "write" | "maintain" | "admin";
+
+/** ラベル付与・コメントでエージェントを動かせる利用者の条件（いずれかを満たせば許可） */
+export interface AuthorizationPolicy {
+  /** この権限以上を持つコラボレーターを許可する */
+  minPermission: PermissionLevel;
+  /** 権限に関わらず許可するユーザー名 */
+  allowedUsers: string[];
+  /** メンバーを許可するチーム（"org/team-slug" 形式） */
+  allowedTeams: string[];
+  /** 権限のない利用者のリクエストを黙って無視するか、コメントで知らせるか */
+  onDenied: "ignore" | "comment";
+}
+
+export interface RepoConfig {
+  /** "owner/repo" 形式 */
+  fullName: string;
+  owner: string;
+  repo: string;
+  /** ローカルのクローン先（存在しなければ起動時に clone する） */
+  localPath: string;
+  /** worktree の作成元・PR のマージ先 */
+  baseBranch: string;
+  /** オーケストレータが作るブランチの接頭辞（"auto/" なら auto/issue-N） */
+  branchPrefix: string;
+  labels: RepoLabels;
+  authorization: AuthorizationPolicy;
+  /** プロンプトの参考情報として内容を含めるファイル（リポジトリルートからの相対パス） */
+  contextFiles: string[];
+  /** このリポジトリのタスクの同時実行数（全体の上限 worker.maxConcurrency とは別に効く） */
+  maxConcurrency: number;
+  /**
+   * ベースブランチが進んだ PR を自動でリベースする条件。
+   * off: しない（`/auto rebase` のみ） / conflicted: コンフリクトしたとき / behind: ベースブランチより遅れたとき
+   */
+  autoRebase: "off" | "conflicted" | "behind";
+  /** CI が失敗した PR を続けて自動修正する最大回数（0 で自動修正しない） */
+  ciFixMaxAttempts: number;
+  agent: AgentConfig;
+  sandbox: SandboxConfig;
+  pushGuard: PushGuardConfig;
 }
 
 export interface TrackedIssue {
@@ -20,16 +163,118 @@ export interface TrackedIssue {
   title: string;
   body: string;
   labels: string[];
+  /** Issue の作成者 */
+  author?: string;
+  /** trigger ラベルを付けた利用者（分かっている場合のみ。なければ Issue のイベントから調べる） */
+  labeledBy?: string;
 }
 
+/**
+ * PR へのコメントの種類。
+ * line: 差分の行へのコメント（レビュースレッド） / review: レビュー本文 / conversation: 会話タブのコメント
+ */
+export type ReviewCommentKind = "line" | "review" | "conversation";
+
 export interface ReviewComment {
   id: number;
   prNumber: number;
+  kind: ReviewCommentKind;
   body: string;
   user: string;
   path?: string;
+  /** 変更後のファイルの行（差分が古くなった行へのコメントでは undefined） */
+  line?: number;
+  /** 複数行へのコメントの開始行 */
+  startLine?: number;
+  /** コメントした差分の側（RIGHT: 変更後 / LEFT: 変更前） */
+  side?: "LEFT" | "RIGHT";
+  /** コメント位置の差分 */
+  diffHunk?: string;
+  /** スレッドへの返信の場合、スレッドの最初のコメントのID */
+  inReplyToId?: number;
+  /** レビュー本文の場合のレビューの状態（CHANGES_REQUESTED / COMMENTED） */
+  reviewState?: string;
+  /** 処理済みのコメントが編集されたもの（別の依頼として扱う） */
+  edited?: boolean;
+  createdAt: string;
+}
+
+/** PR のレビュースレッド（行へのコメントとその返信） */
+export interface ReviewThread {
+  /** GraphQL のノードID（スレッドの解決に使う） */
+  id: string;
+  isResolved: boolean;
+  path: string;
+  /** 現在の PR の変更後のファイルの行（差分が古くなったスレッドでは undefined） */
   line?: number;
+  /** 複数行へのスレッドの開始行 */
+  startLine?: number;
+  side: "LEFT" | "RIGHT";
+  /** スレッドの最初のコメントの差分 */
+  diffHunk: string;
+  /** 投稿順のコメント（先頭がスレッドの最初のコメント） */
+  comments: Array<{ id: number; user: string; body: string }>;
+}
+
+/** Issue・PR の会話タブのコメント */
+export interface IssueComment {
+  id: number;
+  body: string;
+  user: string;
+  createdAt: string;
+}
+
+/** `/auto <コマンド>` で始まる Issue・PR へのコメント */
+export interface CommandComment {
+  id: number;
+  /** コメントされた Issue・PR の番号 */
+  issueNumber: number;
+  isPullRequest: boolean;
+  body: string;
+  user: string;
+  createdAt: string;
+}
+
+/** オーケストレータが作った PR の最終更新日時（レビューコメントのポーリングに使う） */
+export interface PullRequestActivity {
+  number: number;
   createdAt: string;
+  /** コメント・レビュー・プッシュなどで更新される */
+  updatedAt: string;
+}
+
+/** オーケストレータが作った PR の状態 */
+export interface PullRequestState {
+  number: number;
+  branchName: string;
+  headSha: string;
+  /** PR のベースブランチの先頭のコミット */
+  baseSha: string;
+  /** GitHub の mergeable_state（dirty: コンフリクト / behind: ベースブランチより遅れている / unknown: 計算中 など） */
+  mergeableState: string;
+  labels: string[];
+}
+
+/** コミットに対する CI のチェック（GitHub Checks のチェックラン・コミットステータス） */
+export interface CiCheck {
+  name: string;
+  /** check-run: GitHub Checks のチェックラン / status: コミットステータス */
+  source: "check-run" | "status";
+  state: "pending" | "success" | "failure";
+  /** チェックランの conclusion・コミットステータスの state（GitHub の値そのまま） */
+  conclusion?: string;
+  detailsUrl?: string;
+  /** GitHub Actions のジョブID（ジョブのログの取得に使う） */
+  jobId?: number;
+  /** チェックの出力（チェックランの output・コミットステータスの description） */
+  summary?: string;
+}
+
+/** 失敗した CI のチェックと、修正のプロンプトに含めるログ */
+export interface CiFailure {
+  check: CiCheck;
+  /** ジョブのログの抜粋（取得できなければチェックの出力） */
+  log: string;
 }
 
 export interface PRInfo {
@@ -38,13 +283,49 @@ export interface PRInfo {
   sessionId?: string;
 }
 
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
 export interface ClaudeResult {
   exitCode: number;
   stdout: string;
   stderr: string;
-  sessionId?: string;
+  sessionId: string;
+  /** 最終応答のテキスト（エラー終了時は空のことがある） */
+  resultText: string;
+  isError: boolean;
+  /** "success" / "error_max_turns" / "error_during_execution" など */
+  subtype: string;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+  usage?: ClaudeUsage;
 }
 
+/** `--output-format stream-json` の出力から抽出したイベント */
+export type ClaudeStreamEvent =
+  | { type: "init"; sessionId: string; model?: string }
+  | { type: "text"; text: string }
+  /** API の応答ごとのトークン数（同じ messageId の応答は後の値で置き換える） */
+  | {
+      type: "usage";
+      messageId?: string;
+      model?: string;
+      usage: ClaudeUsage;
+    }
+  | { type: "tool-use"; name: string; input: Record<string, unknown> }
+  | {
+      type: "result";
+      sessionId?: string;
+      isError: boolean;
+      costUsd?: number;
+      numTurns?: number;
+    };
+
 export interface TaskContext {
   issueNumber: number;
   worktreePath: string;
@@ -52,13 +333,131 @@ export interface TaskContext {
   abortSignal: AbortSignal;
 }
 
-export type TaskStatus = "pending" | "in-progress" | "completed" | "failed";
+export type TaskStatus =
+  | "pending"
+  | "in-progress"
+  | "completed"
+  | "failed"
+  | "interrupted"
+  | "cancelled";
+
+/** issue: Issue の実装 / review: レビュー対応 / rebase: ベースブランチへの追従 / ci-fix: CI の失敗の修正 */
+export type TaskType = "issue" | "review" | "rebase" | "ci-fix";
 
 export interface WorkerTask {
   id: string;
-  type: "issue" | "review";
+  type: TaskType;
+  /** 対象リポジトリ（"owner/repo"） */
+  repo: string;
   issueNumber: number;
   prNumber?: number;
   status: TaskStatus;
+  /** 大きいほど先に実行される */
+  priority: number;
+  /** 同じキーのタスクは同時に実行しない（同じブランチ・PRへの競合防止） */
+  exclusiveKey?: string;
+  enqueuedAt: number;
+  startedAt?: number;
+  /** 完了・失敗・キャンセル・中断した時刻 */
+  finishedAt?: number;
   abortController: AbortController;
 }
+
+/** 永続化されるタスクの記録（AbortController など実行時の情報は含まない） */
+export interface TaskRecord {
+  id: string;
+  type: TaskType;
+  repo: string;
+  issueNumber: number;
+  prNumber?: number;
+  status: TaskStatus;
+  priority?: number;
+  /** キューに積まれてから実行開始までの待ち時間 */
+  waitMs?: number;
+  createdAt: string;
+  updatedAt: string;
+  history: Array<{ status: TaskStatus; at: string }>;
+}
+
+/** StateStore が保持する状態全体 */
+export interface PersistedState {
+  version: 1;
+  tasks: Record<string, TaskRecord>;
+  /** "owner/repo#PR番号" → Claude セッションID */
+  sessions: Record<string, string>;
+  /** "owner/repo#Issue番号" → 実装中の Claude セッションID（中断からの再開用） */
+  issueSessions: Record<string, string>;
+  /** Claude Code の実行ごとのコスト（直近24時間分のみ保持） */
+  spend: SpendEntry[];
+  /** タスクID → 完了するまでの累計コスト（中断・再開・質問への回答をまたいで引き継ぐ） */
+  taskSpend: Record<string, number>;
+  /** "owner/repo" → 取得済みのコマンドコメントの最新の更新日時（ISO 8601） */
+  pollCursors: Record<string, string>;
+  /** "owner/repo#PR番号" → レビューコメントを取得済みの PR の更新日時（ISO 8601） */
+  reviewCursors: Record<string, string>;
+  /** "owner/repo#Issue番号" → 実装計画とその承認状態 */
+  plans: Record<string, IssuePlan>;
+  /** "owner/repo#Issue番号" → Claude が Issue に投稿した質問とその回答 */
+  clarifications: Record<string, Clarification>;
+  /** "owner/repo#Issue・PR番号" → コメントのキー → 処理済みの記録 */
+  processedComments: Record<string, Record<string, ProcessedComment>>;
+  /** "owner/repo#PR番号" → CI の自動修正の試行状況 */
+  ciFixes: Record<string, CiFixAttempts>;
+}
+
+/** PR の CI の自動修正の試行状況（CI が通るか上限に達したら削除する） */
+export interface CiFixAttempts {
+  prNumber: number;
+  /** 続けて試みた回数 */
+  attempts: number;
+  /** 最後に修正を試みた時点の PR の先頭のコミット（同じコミットでは繰り返さない） */
+  headSha: string;
+  updatedAt: string;
+}
+
+/** 処理済みのコメント（同じコメントで修正・コマンドを二度実行しないための記録） */
+export interface ProcessedComment {
+  /** 処理した時点の本文のハッシュ（編集されたコメントを見分ける） */
+  version: string;
+  processedAt: string;
+}
+
+export type PlanStatus = "awaiting-approval" | "approved";
+
+/** 実装の前に作成した計画（承認後、同じセッションで実装する） */
+export interface IssuePlan {
+  issueNumber: number;
+  /** 計画を作成した Claude のセッションID */
+  sessionId: string;
+  /** 計画を投稿したコメントのID（リアクションによる承認の確認に使う） */
+  commentId: number;
+  plan: string;
+  status: PlanStatus;
+  approvedBy?: string;
+  createdAt: string;
+}
+
+export type ClarificationStatus = "awaiting-answer" | "answered";
+
+/** 情報不足で実装を止めた Issue の質問（回答後、同じセッションで実装を続ける） */
+export interface Clarification {
+  issueNumber: number;
+  /** 質問した Claude のセッションID */
+  sessionId: string;
+  /** 質問を投稿したコメントのID */
+  commentId: number;
+  questions: string[];
+  /** 回答として受け付ける利用者（Issue の作成者と実装を依頼した利用者） */
+  askedTo: string[];
+  /** 実装を依頼した（trigger ラベルを付けた）利用者。回答後の再投入で依頼者として扱う */
+  requestedBy?: string;
+  askedAt: string;
+  status: ClarificationStatus;
+  answers: Array<{ user: string; body: string }>;
+}
+
+export interface SpendEntry {
+  taskId: string;
+  costUsd: number;
+  at: string;
+}
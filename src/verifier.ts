@@ -0,0 +1,139 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { createChildLogger } from "./logger.js";
+import type { Sandbox } from "./sandbox.js";
+import type { Config } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const log = createChildLogger("verifier");
+
+/** 失敗したコマンドの出力のうち、Claude とコメントに渡す末尾の最大文字数 */
+const MAX_OUTPUT_LENGTH = 4000;
+
+/** 検証コマンドの出力を受け取るバッファの上限 */
+const MAX_BUFFER_BYTES = 16 * 1024 * 1024;
+
+export interface VerificationFailure {
+  /** 失敗した検証の名前（コマンドまたは検査内容） */
+  check: string;
+  output: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  failures: VerificationFailure[];
+}
+
+/**
+ * Claude Code の実装後、push する前に worktree の状態を検証する。
+ * ベースブランチからのコミットがあること・未コミットの変更がないことを確認し、
+ * 設定された検証コマンド（型チェック・テストなど）を順に実行する。
+ * 検証コマンドはエージェントが書いたコードを実行するため、エージェントと同じ隔離環境で実行する。
+ */
+export class Verifier {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  async verify(
+    worktreePath: string,
+    baseBranch: string,
+    abortSignal: AbortSignal,
+    sandbox: Sandbox
+  ): Promise<VerificationResult> {
+    const failures: VerificationFailure[] = [];
+
+    const { stdout: count } = await execFileAsync(
+      "git",
+      ["rev-list", "--count", `${baseBranch}..HEAD`],
+      { cwd: worktreePath }
+    );
+    if (parseInt(count.trim(), 10) === 0) {
+      failures.push({
+        check: "コミットの有無",
+        output: `${baseBranch} からの新しいコミットがありません`,
+      });
+    }
+
+    const { stdout: status } = await execFileAsync(
+      "git",
+      ["status", "--porcelain"],
+      { cwd: worktreePath }
+    );
+    if (status.trim()) {
+      failures.push({
+        check: "未コミットの変更",
+        output: status.trim(),
+      });
+    }
+
+    for (const command of this.config.verification.commands) {
+      const failure = await this.runCommand(
+        command,
+        worktreePath,
+        abortSignal,
+        sandbox
+      );
+      if (failure) failures.push(failure);
+    }
+
+    log.info(
+      { worktreePath, failures: failures.map((f) => f.check) },
+      failures.length === 0 ? "検証に成功" : "検証に失敗"
+    );
+    return { passed: failures.length === 0, failures };
+  }
+
+  private async runCommand(
+    command: string,
+    cwd: string,
+    abortSignal: AbortSignal,
+    sandbox: Sandbox
+  ): Promise<VerificationFailure | null> {
+    log.debug({ command, cwd }, "検証コマンドを実行中");
+    const sandboxed = await sandbox.prepare("sh", ["-c", command], cwd);
+    try {
+      await execFileAsync(sandboxed.command, sandboxed.args, {
+        cwd,
+        env: sandboxed.env,
+        signal: abortSignal,
+        timeout: this.config.verification.commandTimeoutMs,
+        maxBuffer: MAX_BUFFER_BYTES,
+      });
+      return null;
+    } catch (err) {
+      if (abortSignal.aborted) throw err;
+
+      const { stdout, stderr, killed } = err as {
+        stdout?: string;
+        stderr?: string;
+        killed?: boolean;
+      };
+      const output = [stdout, stderr]
+        .filter((s): s is string => !!s?.trim())
+        .join("\n")
+        .trim();
+      return {
+        check: command,
+        output: tail(
+          killed
+            ? `制限時間を超えたため停止しました\n${output}`
+            : output || String(err)
+        ),
+      };
+    } finally {
+      await sandboxed.cleanup();
+    }
+  }
+}
+
+/** 検証失敗の内容をプロンプト・コメント向けのテキストにする */
+export function formatFailures(failures: VerificationFailure[]): string {
+  return failures.map((f) => `[${f.check}]\n${f.output}`).join("\n\n");
+}
+
+function tail(text: string, maxLength = MAX_OUTPUT_LENGTH): string {
+  return text.length > maxLength ? `…${text.slice(-maxLength)}` : text;
+}
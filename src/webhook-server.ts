@@ -0,0 +1,372 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createChildLogger } from "./logger.js";
+import type { RepoRuntime } from "./repository.js";
+import { isCommand } from "./commands.js";
+import type { Config, ReviewComment } from "./types.js";
+
+const log = createChildLogger("webhook");
+
+/** 受け付けるペイロードの最大サイズ（GitHub の上限は 25MB） */
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/**
+ * 処理するコメント・レビューのイベント。
+ * 編集されたコメントは別の依頼として扱う（本文が変わっていなければ Dispatcher が除く）
+ */
+const COMMENT_ACTIONS: ReadonlySet<string> = new Set(["created", "edited"]);
+const REVIEW_ACTIONS: ReadonlySet<string> = new Set(["submitted", "edited"]);
+
+interface WebhookUser {
+  login: string;
+  type: string;
+}
+
+interface WebhookIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  labels: Array<{ name: string }>;
+  user: WebhookUser | null;
+  pull_request?: unknown;
+}
+
+interface WebhookPullRequest {
+  number: number;
+  head: { ref: string };
+}
+
+/** 処理対象のイベントのペイロード（使用するフィールドのみ） */
+interface WebhookPayload {
+  action?: string;
+  sender?: WebhookUser;
+  repository?: { full_name: string };
+  label?: { name: string };
+  issue?: WebhookIssue;
+  pull_request?: WebhookPullRequest;
+  comment?: {
+    id: number;
+    body: string;
+    user: WebhookUser | null;
+    path?: string;
+    line?: number | null;
+    start_line?: number | null;
+    side?: "LEFT" | "RIGHT";
+    diff_hunk?: string;
+    in_reply_to_id?: number;
+    created_at: string;
+  };
+  review?: {
+    id: number;
+    body: string | null;
+    state: string;
+    user: WebhookUser | null;
+    submitted_at: string;
+  };
+}
+
+/**
+ * GitHub Webhook を受信し、Poller と同じ Dispatcher 経由でタスクを投入する。
+ * `X-Hub-Signature-256` の署名が一致しないリクエストは拒否する。
+ * 複数リポジトリの Webhook を1つのエンドポイントで受け、`repository.full_name` で振り分ける。
+ */
+export class WebhookServer {
+  /** "owner/repo"（小文字） → リポジトリのコンポーネント */
+  private runtimes: Map<string, RepoRuntime>;
+  private config: Config;
+  private server: Server | null = null;
+
+  constructor(runtimes: RepoRuntime[], config: Config) {
+    this.runtimes = new Map(
+      runtimes.map((r) => [r.repo.fullName.toLowerCase(), r])
+    );
+    this.config = config;
+  }
+
+  /** HTTP サーバーを起動 */
+  async start(): Promise<void> {
+    const { port, path } = this.config.webhook;
+
+    this.server = createServer((req, res) => {
+      void this.handleRequest(req).then(
+        (status) => {
+          res.writeHead(status).end();
+        },
+        (err) => {
+          log.error({ err }, "Webhookリクエストの処理に失敗");
+          res.writeHead(500).end();
+        }
+      );
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server!.listen(port, resolve);
+    });
+    log.info({ port, path }, "Webhookサーバーを起動");
+  }
+
+  /** HTTP サーバーを停止 */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    log.info("Webhookサーバーを停止");
+  }
+
+  /** リクエストを検証し、返すべき HTTP ステータスを決める */
+  private async handleRequest(req: IncomingMessage): Promise<number> {
+    if (req.method !== "POST" || req.url !== this.config.webhook.path) {
+      return 404;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      return 413;
+    }
+
+    const signature = req.headers["x-hub-signature-256"];
+    if (
+      typeof signature !== "string" ||
+      !verifySignature(this.config.webhook.secret, body, signature)
+    ) {
+      log.warn("署名が不正なWebhookを拒否");
+      return 401;
+    }
+
+    const event = req.headers["x-github-event"];
+    const deliveryId = req.headers["x-github-delivery"];
+    if (typeof event !== "string") {
+      return 400;
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body.toString("utf-8")) as WebhookPayload;
+    } catch {
+      return 400;
+    }
+
+    log.debug({ event, action: payload.action, deliveryId }, "Webhookを受信");
+
+    // GitHub は10秒以内の応答を求めるため、処理は応答後に非同期で行う
+    void this.handleEvent(event, payload).catch((err) => {
+      log.error({ err, event, deliveryId }, "Webhookイベントの処理に失敗");
+    });
+
+    return 202;
+  }
+
+  private async handleEvent(
+    event: string,
+    payload: WebhookPayload
+  ): Promise<void> {
+    if (payload.sender?.type === "Bot") {
+      log.debug({ event }, "Botによるイベントを無視");
+      return;
+    }
+
+    const repoName = payload.repository?.full_name;
+    const runtime = repoName
+      ? this.runtimes.get(repoName.toLowerCase())
+      : undefined;
+    if (!runtime) {
+      log.debug({ event, repo: repoName }, "監視対象外のリポジトリのイベント");
+      return;
+    }
+
+    switch (event) {
+      case "issues":
+        await this.handleIssues(runtime, payload);
+        break;
+      case "issue_comment":
+        await this.handleIssueComment(runtime, payload);
+        break;
+      case "pull_request_review_comment":
+        await this.handleReviewComment(runtime, payload);
+        break;
+      case "pull_request_review":
+        await this.handleReview(runtime, payload);
+        break;
+      default:
+        log.debug({ event }, "対象外のイベント");
+    }
+  }
+
+  /** issues.labeled: trigger ラベルが付いたら実装を開始し、approved ラベルなら計画を承認 */
+  private async handleIssues(
+    { repo, dispatcher, approvals }: RepoRuntime,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const { issue, label } = payload;
+    if (payload.action !== "labeled" || !issue || issue.pull_request) return;
+    if (issue.state !== "open") return;
+
+    if (label?.name === repo.labels.approved) {
+      await approvals.handleApprovedLabel(issue.number, payload.sender?.login);
+      return;
+    }
+    if (label?.name !== repo.labels.trigger) return;
+
+    log.info(
+      { repo: repo.fullName, issueNumber: issue.number },
+      "Webhookでauto-implement Issueを検知"
+    );
+    await dispatcher.dispatchIssues([
+      {
+        number: issue.number,
+        title: issue.title,
+        body: issue.body ?? "",
+        labels: issue.labels.map((l) => l.name),
+        author: issue.user?.login,
+        labeledBy: payload.sender?.login,
+      },
+    ]);
+  }
+
+  /**
+   * issue_comment.created / edited: `/auto` コマンド（Issue・PR とも）、質問への回答、
+   * オーケストレータが作った PR の会話タブへのコメント
+   */
+  private async handleIssueComment(
+    runtime: RepoRuntime,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const { issue, comment } = payload;
+    if (!COMMENT_ACTIONS.has(payload.action ?? "") || !issue || !comment) {
+      return;
+    }
+    if (comment.user?.type === "Bot") return;
+
+    if (isCommand(comment.body)) {
+      await runtime.commands.handle({
+        id: comment.id,
+        issueNumber: issue.number,
+        isPullRequest: !!issue.pull_request,
+        body: comment.body,
+        user: comment.user?.login ?? "unknown",
+        createdAt: comment.created_at,
+      });
+      return;
+    }
+    if (!issue.pull_request) {
+      await runtime.clarifications.check(issue.number);
+      return;
+    }
+
+    const branchName = await runtime.github.getPRBranch(issue.number);
+    if (!branchName.startsWith(runtime.repo.branchPrefix)) return;
+
+    await this.dispatchComment(runtime, {
+      id: comment.id,
+      prNumber: issue.number,
+      kind: "conversation",
+      body: comment.body,
+      user: comment.user?.login ?? "unknown",
+      createdAt: comment.created_at,
+    });
+  }
+
+  /** pull_request_review_comment.created / edited: 行へのレビューコメント */
+  private async handleReviewComment(
+    runtime: RepoRuntime,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const { pull_request: pr, comment } = payload;
+    if (!COMMENT_ACTIONS.has(payload.action ?? "") || !pr || !comment) return;
+    if (
+      !pr.head.ref.startsWith(runtime.repo.branchPrefix) ||
+      comment.user?.type === "Bot"
+    ) {
+      return;
+    }
+
+    await this.dispatchComment(runtime, {
+      id: comment.id,
+      prNumber: pr.number,
+      kind: "line",
+      body: comment.body,
+      user: comment.user?.login ?? "unknown",
+      path: comment.path,
+      line: comment.line ?? undefined,
+      startLine: comment.start_line ?? undefined,
+      side: comment.side,
+      diffHunk: comment.diff_hunk,
+      inReplyToId: comment.in_reply_to_id,
+      createdAt: comment.created_at,
+    });
+  }
+
+  /** pull_request_review.submitted / edited: レビュー本文（行コメントは個別イベントで届く。承認は対象外） */
+  private async handleReview(
+    runtime: RepoRuntime,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const { pull_request: pr, review } = payload;
+    if (!REVIEW_ACTIONS.has(payload.action ?? "") || !pr || !review?.body) {
+      return;
+    }
+    if (
+      !pr.head.ref.startsWith(runtime.repo.branchPrefix) ||
+      review.user?.type === "Bot"
+    ) {
+      return;
+    }
+    if (review.state === "approved") return;
+
+    await this.dispatchComment(runtime, {
+      id: review.id,
+      prNumber: pr.number,
+      kind: "review",
+      body: review.body,
+      user: review.user?.login ?? "unknown",
+      // Webhook では小文字で届くため REST API の表記に揃える
+      reviewState: review.state.toUpperCase(),
+      createdAt: review.submitted_at,
+    });
+  }
+
+  private async dispatchComment(
+    { repo, dispatcher }: RepoRuntime,
+    comment: ReviewComment
+  ): Promise<void> {
+    log.info(
+      { repo: repo.fullName, prNumber: comment.prNumber, commentId: comment.id },
+      "Webhookでレビューコメントを検知"
+    );
+    const accepted = await dispatcher.dispatchReviewComments([comment]);
+    if (!accepted) {
+      log.warn(
+        { repo: repo.fullName, prNumber: comment.prNumber, commentId: comment.id },
+        "投入できなかったためポーリングでの再取得に委ねる"
+      );
+    }
+  }
+}
+
+/** `X-Hub-Signature-256` ヘッダの署名を検証 */
+export function verifySignature(
+  secret: string,
+  body: Buffer,
+  signature: string
+): boolean {
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** リクエストボディを読み込む（上限を超えたら null） */
+async function readBody(req: IncomingMessage): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { setImmediate as tick } from "node:timers/promises";
+import { describe, it } from "node:test";
+import { MemoryStateStore } from "./state-store.js";
+import { TASK_PRIORITY, WorkerPool, isCancelled } from "./worker-pool.js";
+import type { SubmitOptions } from "./worker-pool.js";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** 開始したタスクを記録し、テストから1件ずつ終わらせられるタスクの集まり */
+class Tasks {
+  readonly started: string[] = [];
+  private finishers: Map<string, () => void> = new Map();
+
+  handler(taskId: string) {
+    return (abortSignal: AbortSignal) =>
+      new Promise<void>((resolve, reject) => {
+        this.started.push(taskId);
+        this.finishers.set(taskId, resolve);
+        abortSignal.addEventListener("abort", () => reject(abortSignal.reason));
+      });
+  }
+
+  /** タスクを終わらせ、後続のタスクが開始されるのを待つ */
+  async finish(taskId: string): Promise<void> {
+    this.finishers.get(taskId)!();
+    await tick();
+  }
+}
+
+function submit(
+  pool: WorkerPool,
+  tasks: Tasks,
+  taskId: string,
+  repo = "owner/repo",
+  options: SubmitOptions = {}
+): Promise<boolean> {
+  return pool.submit(
+    taskId,
+    "issue",
+    repo,
+    1,
+    tasks.handler(taskId),
+    options
+  );
+}
+
+describe("WorkerPool", () => {
+  it("空きがなければ優先度の高い順、同じ優先度なら先着順に実行する", async () => {
+    const pool = new WorkerPool(1, 10, new MemoryStateStore());
+    const tasks = new Tasks();
+
+    await submit(pool, tasks, "running");
+    await submit(pool, tasks, "normal-1");
+    await submit(pool, tasks, "maintenance", undefined, {
+      priority: TASK_PRIORITY.maintenance,
+    });
+    await submit(pool, tasks, "normal-2");
+    await submit(pool, tasks, "review", undefined, {
+      priority: TASK_PRIORITY.review,
+    });
+
+    assert.equal(pool.statusOf("running"), "in-progress");
+    assert.equal(pool.queuePosition("review"), 1);
+    assert.equal(pool.queueDepth, 4);
+
+    for (const taskId of ["running", "review", "normal-1", "normal-2"]) {
+      await tasks.finish(taskId);
+    }
+    assert.deepEqual(tasks.started, [
+      "running",
+      "review",
+      "normal-1",
+      "normal-2",
+      "maintenance",
+    ]);
+    assert.equal(pool.statusOf("running"), "completed");
+  });
+
+  it("リポジトリごとの上限に達したリポジトリのタスクは飛ばして後続を実行する", async () => {
+    const pool = new WorkerPool(
+      3,
+      10,
+      new MemoryStateStore(),
+      new Map([["owner/a", 1]])
+    );
+    const tasks = new Tasks();
+
+    await submit(pool, tasks, "a-1", "owner/a");
+    await submit(pool, tasks, "a-2", "owner/a");
+    await submit(pool, tasks, "b-1", "owner/b");
+    await submit(pool, tasks, "b-2", "owner/b");
+
+    assert.deepEqual(tasks.started, ["a-1", "b-1", "b-2"]);
+    assert.equal(pool.statusOf("a-2"), "pending");
+
+    await tasks.finish("a-1");
+    assert.equal(pool.statusOf("a-2"), "in-progress");
+  });
+
+  it("上限の変更で空いた分だけキューから開始する", async () => {
+    const pool = new WorkerPool(
+      3,
+      10,
+      new MemoryStateStore(),
+      new Map([["owner/a", 1]])
+    );
+    const tasks = new Tasks();
+
+    await submit(pool, tasks, "a-1", "owner/a");
+    await submit(pool, tasks, "a-2", "owner/a");
+    pool.updateLimits(3, 10, new Map([["owner/a", 2]]));
+
+    assert.deepEqual(tasks.started, ["a-1", "a-2"]);
+  });
+
+  it("同じ exclusiveKey のタスクは前のタスクが終わるまで待たせる", async () => {
+    const pool = new WorkerPool(2, 10, new MemoryStateStore());
+    const tasks = new Tasks();
+    const options = { exclusiveKey: "pr-3" };
+
+    await submit(pool, tasks, "review", undefined, options);
+    await submit(pool, tasks, "rebase", undefined, options);
+
+    assert.deepEqual(tasks.started, ["review"]);
+    await tasks.finish("review");
+    assert.deepEqual(tasks.started, ["review", "rebase"]);
+  });
+
+  it("キューが満杯なら受け付けず、同じタスクは重複して登録しない", async () => {
+    const pool = new WorkerPool(1, 1, new MemoryStateStore());
+    const tasks = new Tasks();
+
+    assert.equal(await submit(pool, tasks, "first"), true);
+    assert.equal(await submit(pool, tasks, "second"), true);
+    assert.equal(await submit(pool, tasks, "first"), true);
+    assert.equal(await submit(pool, tasks, "third"), false);
+    assert.equal(pool.queueDepth, 1);
+    assert.equal(pool.has("third"), false);
+  });
+
+  it("空きがあってもすぐに開始できないタスクはキューの上限で受け付けない", async () => {
+    const pool = new WorkerPool(2, 1, new MemoryStateStore());
+    const tasks = new Tasks();
+    const options = { exclusiveKey: "pr-3" };
+
+    await submit(pool, tasks, "review", undefined, options);
+    await submit(pool, tasks, "rebase", undefined, options);
+
+    assert.equal(
+      await submit(pool, tasks, "ci-fix", undefined, options),
+      false
+    );
+    assert.equal(await submit(pool, tasks, "other"), true);
+    assert.deepEqual(tasks.started, ["review", "other"]);
+  });
+
+  it("保持期間を過ぎた終了済みのタスクはメモリ上・StateStore から削除する", async (t) => {
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    const store = new MemoryStateStore();
+    const pool = new WorkerPool(1, 10, store);
+    const tasks = new Tasks();
+
+    await submit(pool, tasks, "old");
+    await tasks.finish("old");
+    t.mock.timers.tick(2 * DAY_MS);
+    await submit(pool, tasks, "recent");
+    await tasks.finish("recent");
+    t.mock.timers.tick(6 * DAY_MS);
+    await submit(pool, tasks, "new");
+    await tasks.finish("new");
+
+    assert.equal(pool.statusOf("old"), undefined);
+    assert.equal(store.getTask("old"), undefined);
+    assert.equal(pool.statusOf("recent"), "completed");
+    assert.equal(store.getTask("recent")?.status, "completed");
+    assert.equal(store.getTask("new")?.status, "completed");
+  });
+
+  it("キャンセルしたタスクは実行待ちならキューから外し、実行中なら中断する", async () => {
+    const pool = new WorkerPool(1, 10, new MemoryStateStore());
+    const tasks = new Tasks();
+    let signal: AbortSignal | undefined;
+
+    await pool.submit("running", "issue", "owner/repo", 1, (abortSignal) => {
+      signal = abortSignal;
+      return tasks.handler("running")(abortSignal);
+    });
+    await submit(pool, tasks, "pending");
+
+    assert.equal(pool.cancel("pending"), true);
+    assert.equal(pool.statusOf("pending"), "cancelled");
+    assert.equal(pool.cancel("running"), true);
+    await tick();
+
+    assert.ok(signal && isCancelled(signal));
+    assert.equal(pool.statusOf("running"), "cancelled");
+    assert.deepEqual(tasks.started, ["running"]);
+    assert.equal(pool.cancel("running"), false);
+  });
+
+  it("シャットダウンでは実行中のタスクを待ち、実行待ちのタスクは中断として記録する", async () => {
+    const store = new MemoryStateStore();
+    const pool = new WorkerPool(1, 10, store);
+    const tasks = new Tasks();
+
+    await submit(pool, tasks, "running");
+    await submit(pool, tasks, "pending");
+    const stopped = pool.waitForAll();
+
+    assert.equal(pool.statusOf("pending"), "interrupted");
+    assert.equal(store.getTask("pending")?.status, "interrupted");
+    await tasks.finish("running");
+    await stopped;
+
+    assert.equal(pool.statusOf("running"), "completed");
+    assert.deepEqual(tasks.started, ["running"]);
+  });
+});
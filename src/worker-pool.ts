@@ -1,14 +1,141 @@
 import { createChildLogger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import type { StateStore } from "./state-store.js";
 import type { WorkerTask, TaskStatus } from "./types.js";
 
 const log = createChildLogger("worker-pool");
 
+/** シャットダウンで中断を通知してから、ハンドラの後始末を待つ最大時間 */
+const INTERRUPT_GRACE_MS = 15_000;
+
+/** 終わったタスクをメモリ上・StateStore に残す期間（過ぎたものは次のステータス更新で削除する） */
+export const FINISHED_TASK_RETENTION_MS = 7 * 24 * 60 * 60_000;
+
+/** タスクの優先度（大きいほど先に実行） */
+export const TASK_PRIORITY = {
+  /** 人間が待っているレビュー対応 */
+  review: 20,
+  /** `priority:high` ラベル付き Issue */
+  high: 10,
+  normal: 0,
+  /** ベースブランチへの追従（急がない保守作業） */
+  maintenance: -10,
+} as const;
+
+/** `WorkerPool.cancel` で中断されたタスクの AbortSignal の reason */
+export class TaskCancelledError extends Error {
+  constructor(taskId: string) {
+    super(`タスク ${taskId} はキャンセルされました`);
+    this.name = "TaskCancelledError";
+  }
+}
+
+/** シャットダウンで中断されたタスクの AbortSignal の reason（再起動後に Recovery が再開する） */
+export class TaskInterruptedError extends Error {
+  constructor(taskId: string) {
+    super(`タスク ${taskId} はシャットダウンにより中断されました`);
+    this.name = "TaskInterruptedError";
+  }
+}
+
+/** 中断の理由がキャンセル（シャットダウンやタイムアウトではない）か */
+export function isCancelled(abortSignal: AbortSignal): boolean {
+  return abortSignal.reason instanceof TaskCancelledError;
+}
+
+/**
+ * 中断の理由がシャットダウンか。
+ * ハンドラは失敗として報告せず、再起動後に再開できる状態（ラベル・worktree）を残して終える。
+ */
+export function isInterrupted(abortSignal: AbortSignal): boolean {
+  return abortSignal.reason instanceof TaskInterruptedError;
+}
+
+type TaskHandlerFn = (abortSignal: AbortSignal) => Promise<void>;
+
+export interface SubmitOptions {
+  prNumber?: number;
+  priority?: number;
+  /** 同じキーを持つタスクが実行中の間は、キューで待たせる */
+  exclusiveKey?: string;
+}
+
+interface QueueEntry {
+  task: WorkerTask;
+  handler: TaskHandlerFn;
+}
+
 export class WorkerPool {
   private tasks: Map<string, WorkerTask> = new Map();
+  /** 実行中のタスクID → ハンドラの終了（成否を問わない）を待つ Promise */
+  private running: Map<string, Promise<void>> = new Map();
+  /** 実行待ちのタスク（優先度の高い順に並ぶ） */
+  private queue: QueueEntry[] = [];
   private maxConcurrency: number;
+  /** リポジトリ（"owner/repo"）→ そのリポジトリのタスクの同時実行数の上限 */
+  private repoConcurrency: Map<string, number>;
+  private maxQueueDepth: number;
+  private store: StateStore;
+  private stopped = false;
+
+  constructor(
+    maxConcurrency: number,
+    maxQueueDepth: number,
+    store: StateStore,
+    repoConcurrency: Map<string, number> = new Map()
+  ) {
+    this.maxConcurrency = maxConcurrency;
+    this.maxQueueDepth = maxQueueDepth;
+    this.store = store;
+    this.repoConcurrency = repoConcurrency;
+  }
 
-  constructor(maxConcurrency: number) {
+  /**
+   * 同時実行数・キューの上限を変更する（設定の再読み込み用）。
+   * 実行中のタスクはそのまま続け、上限が増えた分だけキューから開始する。
+   */
+  updateLimits(
+    maxConcurrency: number,
+    maxQueueDepth: number,
+    repoConcurrency: Map<string, number>
+  ): void {
     this.maxConcurrency = maxConcurrency;
+    this.maxQueueDepth = maxQueueDepth;
+    this.repoConcurrency = repoConcurrency;
+    log.info(
+      {
+        maxConcurrency,
+        maxQueueDepth,
+        repoConcurrency: Object.fromEntries(repoConcurrency),
+      },
+      "同時実行数の上限を更新"
+    );
+    this.drain();
+  }
+
+  /**
+   * 前回の起動時に実行中だったタスクを interrupted として記録する。
+   * 実行中のプロセスは再起動で失われているため、メモリ上のタスクとしては復元しない。
+   */
+  async restore(): Promise<void> {
+    const unfinished = this.store
+      .getTasks()
+      .filter((t) => t.status === "in-progress" || t.status === "pending");
+
+    for (const task of unfinished) {
+      await this.store.updateTaskStatus(
+        task.id,
+        "interrupted",
+        new Date(Date.now() - FINISHED_TASK_RETENTION_MS)
+      );
+    }
+
+    if (unfinished.length > 0) {
+      log.warn(
+        { taskIds: unfinished.map((t) => t.id) },
+        "前回の起動時に中断されたタスクを検出"
+      );
+    }
   }
 
   /** 現在実行中のタスク数 */
@@ -18,9 +145,23 @@ export class WorkerPool {
     ).length;
   }
 
-  /** 新しいタスクを受け入れ可能か */
-  get canAccept(): boolean {
-    return this.activeCount < this.maxConcurrency;
+  /** 実行待ちのタスク数 */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * 新しいタスクを受け入れ可能か（即時実行またはキューへの追加）。
+   * 空きがあってもキューの先頭が exclusiveKey やリポジトリの上限で待っていることがあるため、
+   * すぐに開始できないタスクはキューの上限で判定する。
+   */
+  private canAccept(task: Pick<WorkerTask, "repo" | "exclusiveKey">): boolean {
+    if (this.stopped) return false;
+    return (
+      this.queue.length < this.maxQueueDepth ||
+      (this.activeCount < this.maxConcurrency &&
+        this.isRunnable(task, this.runningTasks()))
+    );
   }
 
   /** タスクが既に存在するか（重複実行防止） */
@@ -29,97 +170,336 @@ export class WorkerPool {
     return !!task && (task.status === "in-progress" || task.status === "pending");
   }
 
-  /** タスクを登録して実行する */
+  /** タスクの現在のステータス（未登録なら undefined） */
+  statusOf(taskId: string): TaskStatus | undefined {
+    return this.tasks.get(taskId)?.status;
+  }
+
+  /** 実行中のタスクの開始時刻（実行中でなければ undefined） */
+  startedAt(taskId: string): number | undefined {
+    const task = this.tasks.get(taskId);
+    return task?.status === "in-progress" ? task.startedAt : undefined;
+  }
+
+  /** 実行待ちキュー内での順番（1始まり、キューにない場合は undefined） */
+  queuePosition(taskId: string): number | undefined {
+    const index = this.queue.findIndex((e) => e.task.id === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * タスクを登録する。空きがあれば即時実行し、なければ優先度順のキューに積む。
+   * キューも上限に達している場合は false を返す（呼び出し側で次回に再投入する）。
+   */
   async submit(
     taskId: string,
-    type: "issue" | "review",
+    type: WorkerTask["type"],
+    repo: string,
     issueNumber: number,
-    handler: (abortSignal: AbortSignal) => Promise<void>,
-    prNumber?: number
-  ): Promise<void> {
-    if (!this.canAccept) {
-      log.warn(
-        { taskId, activeCount: this.activeCount, maxConcurrency: this.maxConcurrency },
-        "ワーカープールが満杯のためタスクをスキップ"
-      );
-      return;
+    handler: TaskHandlerFn,
+    options: SubmitOptions = {}
+  ): Promise<boolean> {
+    if (this.has(taskId)) {
+      log.debug({ taskId }, "タスクは既に実行中または実行待ち");
+      return true;
     }
 
-    if (this.has(taskId)) {
-      log.debug({ taskId }, "タスクは既に実行中");
-      return;
+    if (!this.canAccept({ repo, exclusiveKey: options.exclusiveKey })) {
+      log.warn(
+        {
+          taskId,
+          activeCount: this.activeCount,
+          queueDepth: this.queue.length,
+          maxQueueDepth: this.maxQueueDepth,
+        },
+        "実行待ちキューが満杯のためタスクを受け付けできません"
+      );
+      return false;
     }
 
-    const abortController = new AbortController();
     const task: WorkerTask = {
       id: taskId,
       type,
+      repo,
       issueNumber,
-      prNumber,
-      status: "in-progress",
-      abortController,
+      prNumber: options.prNumber,
+      status: "pending",
+      priority: options.priority ?? TASK_PRIORITY.normal,
+      exclusiveKey: options.exclusiveKey,
+      enqueuedAt: Date.now(),
+      abortController: new AbortController(),
     };
 
     this.tasks.set(taskId, task);
+    this.enqueue({ task, handler });
+    this.persist(
+      this.store.saveTask({
+        id: taskId,
+        type,
+        repo,
+        issueNumber,
+        prNumber: task.prNumber,
+        status: task.status,
+        priority: task.priority,
+      })
+    );
     log.info(
-      { taskId, type, issueNumber, activeCount: this.activeCount },
+      {
+        taskId,
+        type,
+        repo,
+        issueNumber,
+        priority: task.priority,
+        queueDepth: this.queue.length,
+      },
+      "タスクを実行待ちキューに追加"
+    );
+
+    this.drain();
+    return true;
+  }
+
+  /** 優先度の高い順、同じ優先度なら先着順になる位置に挿入 */
+  private enqueue(entry: QueueEntry): void {
+    const index = this.queue.findIndex(
+      (e) => e.task.priority < entry.task.priority
+    );
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+  }
+
+  /** 実行できるタスクを実行し、タスク数をメトリクスに反映する */
+  private drain(): void {
+    this.startRunnable();
+    this.reportMetrics();
+  }
+
+  /**
+   * 空きがある限りキューの先頭からタスクを実行する。
+   * 同じ exclusiveKey のタスクが実行中のもの、リポジトリごとの上限に達しているものは飛ばし、
+   * 後続のタスクを先に実行する。
+   */
+  private startRunnable(): void {
+    while (!this.stopped && this.activeCount < this.maxConcurrency) {
+      const running = this.runningTasks();
+      const index = this.queue.findIndex(({ task }) =>
+        this.isRunnable(task, running)
+      );
+      if (index === -1) return;
+
+      const [entry] = this.queue.splice(index, 1);
+      this.start(entry!);
+    }
+  }
+
+  /** 実行中のタスク */
+  private runningTasks(): WorkerTask[] {
+    return [...this.tasks.values()].filter((t) => t.status === "in-progress");
+  }
+
+  /** 同じ exclusiveKey のタスクが実行中でなく、リポジトリごとの上限にも達していないか */
+  private isRunnable(
+    task: Pick<WorkerTask, "repo" | "exclusiveKey">,
+    running: WorkerTask[]
+  ): boolean {
+    return (
+      (!task.exclusiveKey ||
+        !running.some((t) => t.exclusiveKey === task.exclusiveKey)) &&
+      running.filter((t) => t.repo === task.repo).length <
+        (this.repoConcurrency.get(task.repo) ?? this.maxConcurrency)
+    );
+  }
+
+  private start({ task, handler }: QueueEntry): void {
+    task.status = "in-progress";
+    task.startedAt = Date.now();
+    const waitMs = task.startedAt - task.enqueuedAt;
+    metrics.taskWait.observe({ type: task.type }, waitMs / 1000);
+
+    this.persist(
+      this.store.saveTask({
+        id: task.id,
+        type: task.type,
+        repo: task.repo,
+        issueNumber: task.issueNumber,
+        prNumber: task.prNumber,
+        status: task.status,
+        priority: task.priority,
+        waitMs,
+      })
+    );
+    log.info(
+      {
+        taskId: task.id,
+        type: task.type,
+        repo: task.repo,
+        issueNumber: task.issueNumber,
+        waitMs,
+        activeCount: this.activeCount,
+        queueDepth: this.queue.length,
+      },
       "タスクを開始"
     );
 
     // 非同期で実行（awaitしない）
-    handler(abortController.signal)
+    const signal = task.abortController.signal;
+    const settled = handler(signal)
       .then(() => {
-        this.updateStatus(taskId, "completed");
+        this.updateStatus(
+          task.id,
+          isInterrupted(signal)
+            ? "interrupted"
+            : isCancelled(signal)
+              ? "cancelled"
+              : "completed"
+        );
       })
       .catch((err) => {
-        log.error({ err, taskId }, "タスクの実行に失敗");
-        this.updateStatus(taskId, "failed");
+        if (isInterrupted(signal)) {
+          this.updateStatus(task.id, "interrupted");
+          return;
+        }
+        if (isCancelled(signal)) {
+          this.updateStatus(task.id, "cancelled");
+          return;
+        }
+        log.error({ err, taskId: task.id }, "タスクの実行に失敗");
+        this.updateStatus(task.id, "failed");
+      })
+      .finally(() => {
+        this.running.delete(task.id);
+        this.drain();
       });
+    this.running.set(task.id, settled);
   }
 
   private updateStatus(taskId: string, status: TaskStatus): void {
     const task = this.tasks.get(taskId);
     if (task) {
       task.status = status;
+      task.finishedAt = Date.now();
+      const retainSince = task.finishedAt - FINISHED_TASK_RETENTION_MS;
+      for (const [id, t] of this.tasks) {
+        if (t.finishedAt !== undefined && t.finishedAt < retainSince) {
+          this.tasks.delete(id);
+        }
+      }
+      this.persist(
+        this.store.updateTaskStatus(taskId, status, new Date(retainSince))
+      );
       log.info({ taskId, status }, "タスクのステータスを更新");
+
+      metrics.tasks.inc({ repo: task.repo, type: task.type, status });
+      if (task.startedAt !== undefined) {
+        metrics.taskDuration.observe(
+          { type: task.type, status },
+          (Date.now() - task.startedAt) / 1000
+        );
+      }
+      this.reportMetrics();
     }
   }
 
-  /** 全タスクをキャンセル */
-  cancelAll(): void {
-    log.info("全タスクをキャンセル中");
+  /** 実行中・実行待ちのタスク数をメトリクスに反映する */
+  private reportMetrics(): void {
+    metrics.activeTasks.set({}, this.activeCount);
+    metrics.queueDepth.set({}, this.queue.length);
+  }
+
+  /** 永続化の失敗はタスクの実行を妨げないようログのみ残す */
+  private persist(write: Promise<void>): void {
+    write.catch((err) => {
+      log.error({ err }, "タスク状態の永続化に失敗");
+    });
+  }
+
+  /**
+   * タスクを1件キャンセルする。実行待ちならキューから外し、実行中なら中断を通知する
+   * （実行中のタスクはハンドラが後始末を終えた時点で cancelled になる）。
+   * 対象のタスクが実行中・実行待ちでなければ false を返す。
+   */
+  cancel(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+
+    if (task.status === "pending") {
+      this.queue = this.queue.filter((e) => e.task.id !== taskId);
+      this.updateStatus(taskId, "cancelled");
+      return true;
+    }
+    if (task.status === "in-progress") {
+      log.info({ taskId }, "実行中のタスクに中断を通知");
+      task.abortController.abort(new TaskCancelledError(taskId));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * シャットダウンのため全タスクを中断する。
+   * 実行待ちのタスクは破棄し、実行中のタスクには中断を通知してハンドラの後始末を待つ
+   * （いずれも interrupted になり、再起動後に Recovery が再開する）。
+   */
+  async interruptAll(): Promise<void> {
+    log.info("全タスクを中断中");
+    this.interruptQueued();
     for (const task of this.tasks.values()) {
       if (task.status === "in-progress") {
-        task.abortController.abort();
-        task.status = "failed";
+        task.abortController.abort(new TaskInterruptedError(task.id));
       }
     }
+    if (!(await this.settle(INTERRUPT_GRACE_MS))) {
+      log.warn(
+        { taskIds: [...this.running.keys()] },
+        "中断したタスクの後始末が時間内に終わりませんでした"
+      );
+    }
+  }
+
+  /** 実行待ちのタスクを破棄し、interrupted として記録する */
+  private interruptQueued(): void {
+    for (const { task } of this.queue.splice(0)) {
+      this.updateStatus(task.id, "interrupted");
+    }
   }
 
-  /** 全タスクの完了を待つ（graceful shutdown用） */
+  /**
+   * 全タスクの完了を待つ（graceful shutdown用。時間内に終わらなければ中断する）。
+   * 実行待ちのタスクはもう開始しないため、すぐに interrupted として記録する。
+   */
   async waitForAll(timeoutMs: number = 30_000): Promise<void> {
-    const activeTasks = [...this.tasks.values()].filter(
-      (t) => t.status === "in-progress"
-    );
+    // 以降はキューから新しいタスクを開始しない
+    this.stopped = true;
+    this.interruptQueued();
 
-    if (activeTasks.length === 0) return;
+    if (this.running.size === 0) return;
 
     log.info(
-      { activeCount: activeTasks.length },
+      { activeCount: this.running.size },
       "アクティブなタスクの完了を待機中"
     );
+    if (await this.settle(timeoutMs)) return;
 
-    const deadline = Date.now() + timeoutMs;
+    log.warn("タイムアウト: 残りのタスクを中断");
+    await this.interruptAll();
+  }
 
-    while (Date.now() < deadline) {
-      const stillActive = [...this.tasks.values()].filter(
-        (t) => t.status === "in-progress"
-      );
-      if (stillActive.length === 0) return;
-      await new Promise((r) => setTimeout(r, 1000));
+  /** 実行中のタスクがすべて終わるまで待つ（時間内に終われば true） */
+  private async settle(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([
+        Promise.all(this.running.values()).then(() => true),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
     }
-
-    log.warn("タイムアウト: 残りのタスクをキャンセル");
-    this.cancelAll();
   }
 }